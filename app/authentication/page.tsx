@@ -1,9 +1,12 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, CreditCard } from "lucide-react";
 import Link from "next/link";
+import { mifareAuthenticate, cardVerifyReader, toHex32, keyToHex, keyFromHex, AuthExchange } from "@/lib/crypto1";
+import { buildAuthCommand, bytesToHex } from "@/lib/iso14443a";
+import { isValidNonce, nonceAtPosition, nonceDistance, noncePosition, prngSuccessor, PRNG_PERIOD } from "@/lib/prng";
 
 interface AuthStep {
   id: number;
@@ -16,24 +19,90 @@ interface AuthStep {
   details: string; // 整合的技術說明
 }
 
-const authSteps: AuthStep[] = [
+// 驗證參數輸入欄位（皆為十六進制字串，區塊號為十進位）
+interface AuthFormValues {
+  uid: string;
+  keyType: 'A' | 'B';
+  key: string;
+  block: string;
+  nT: string;
+  nR: string;
+}
+
+type AuthFormErrors = Partial<Record<keyof AuthFormValues, string>>;
+
+// 示範用的驗證參數：UID、金鑰與雙方隨機數
+const DEFAULT_AUTH_FORM: AuthFormValues = {
+  uid: "DEADBEEF",
+  keyType: 'A',
+  key: "FFFFFFFFFFFF",
+  block: "4",
+  nT: "94B2F715",
+  nR: "A1B2C3D4",
+};
+
+interface AuthScenario {
+  exchange: AuthExchange;
+  keyType: 'A' | 'B';
+  block: number;
+  authCommand: number[];
+}
+
+// 驗證輸入格式，回傳各欄位的錯誤訊息
+const validateAuthForm = (form: AuthFormValues): AuthFormErrors => {
+  const errors: AuthFormErrors = {};
+  const hexField = (field: 'uid' | 'key' | 'nT' | 'nR', digits: number) => {
+    if (!new RegExp(`^[0-9A-Fa-f]{${digits}}$`).test(form[field])) {
+      errors[field] = `需為 ${digits} 位十六進制字元`;
+    }
+  };
+  hexField('uid', 8);
+  hexField('key', 12);
+  hexField('nT', 8);
+  hexField('nR', 8);
+  const block = Number(form.block);
+  if (!/^\d+$/.test(form.block) || block > 255) {
+    errors.block = '區塊號需為 0-255';
+  }
+  return errors;
+};
+
+// 依輸入參數計算完整的驗證交換
+const createAuthScenario = (form: AuthFormValues): AuthScenario => {
+  const block = Number(form.block);
+  const exchange = mifareAuthenticate({
+    uid: parseInt(form.uid, 16),
+    key: keyFromHex(form.key),
+    nT: parseInt(form.nT, 16),
+    nR: parseInt(form.nR, 16),
+  });
+  return {
+    exchange,
+    keyType: form.keyType,
+    block,
+    authCommand: buildAuthCommand(form.keyType, block),
+  };
+};
+
+// 由 Crypto-1 實際計算出的驗證交換，各步驟的數值皆取自此處
+const buildAuthSteps = ({ exchange: ex, keyType, block, authCommand }: AuthScenario): AuthStep[] => [
   {
     id: 1,
     title: "發送驗證命令",
-    description: "讀卡機發送 AUTH_A 命令，指定要驗證的區塊號",
-    readerData: "AUTH: 60E4C2", // AUTH_A + block 4 + CRC
+    description: `讀卡機發送 AUTH_${keyType} 命令，指定要驗證的區塊號`,
+    readerData: `AUTH: ${bytesToHex(authCommand)}`, // AUTH_A/B + block + CRC
     cardData: "等待卡片回應...",
-    explanation: "讀卡機發送 AUTH_A (0x60) 命令驗證區塊 4，使用金鑰 A 進行存取控制驗證",
-    details: "AUTH_A 命令格式：[0x60][Block][CRC-A]。0x60 表示使用金鑰 A 進行驗證，Block 指定要存取的區塊號，CRC-A 提供錯誤檢測。命令經 Modified Miller 編碼傳輸。",
+    explanation: `讀卡機發送 AUTH_${keyType} (0x${bytesToHex(authCommand.slice(0, 1))}) 命令驗證區塊 ${block}，使用金鑰 ${keyType} 進行存取控制驗證`,
+    details: `AUTH_${keyType} 命令格式：[0x${bytesToHex(authCommand.slice(0, 1))}][Block][CRC-A]。0x60 表示使用金鑰 A、0x61 表示使用金鑰 B 進行驗證，Block 指定要存取的區塊號（此處為 0x${bytesToHex(authCommand.slice(1, 2))}），CRC-A 提供錯誤檢測（此處為 ${bytesToHex(authCommand.slice(2))}）。命令經 Modified Miller 編碼傳輸。`,
   },
   {
     id: 2,
     title: "卡片發送挑戰數",
     description: "卡片產生 32-bit 隨機數 nT 作為挑戰值",
     readerData: "接收並記錄 nT...",
-    cardData: "nT: 4C983BF2", // nT (Tag Nonce)
+    cardData: `nT: ${toHex32(ex.nT)}`, // nT (Tag Nonce)
     explanation: "卡片使用 PRNG 產生隨機挑戰數 nT，以明文形式回應給讀卡機",
-    details: "nT (Tag Nonce) 由卡片的 16-bit LFSR 產生，雖然稱為隨機數但實際可預測。此數值將作為後續 Crypto1 加密的初始化種子使用。",
+    details: `nT (Tag Nonce) 由卡片的 16-bit LFSR 產生，雖然稱為隨機數但實際可預測。${toHex32(ex.nT)} 位於 PRNG 序列第 ${noncePosition(ex.nT)} / ${PRNG_PERIOD} 個位置${isValidNonce(ex.nT) ? '' : '（注意：此值並非合法的 PRNG 輸出）'}。此數值將作為後續 Crypto1 加密的初始化種子使用。`,
   },
   {
     id: 3,
@@ -42,25 +111,25 @@ const authSteps: AuthStep[] = [
     readerData: "初始化 Crypto1 LFSR...",
     cardData: "同步初始化 Crypto1...",
     explanation: "使用 48-bit 金鑰、UID 和 nT 初始化 Crypto1 的 48-bit LFSR 狀態",
-    details: "Crypto1 初始化：Key ⊕ (UID:DEADBEEF ⊕ nT:4C983BF2) → LFSR 初始狀態。\n\n48-bit LFSR 使用反饋多項式 x^48 + x^43 + x^39 + x^38 + x^36 + x^34 + x^33 + x^31 + x^17 + x^15 + x^13 + x^12 + x^10 + x^8 + x^5 + x^2 + x + 1",
+    details: `Crypto1 初始化：載入 Key ${keyType}:${keyToHex(ex.key)} 作為 LFSR 初始狀態，再將 UID:${toHex32(ex.uid)} ⊕ nT:${toHex32(ex.nT)} = ${toHex32(ex.uidXorNt)} 逐位元移入 LFSR（此階段的 keystream 不使用）。\n\n48-bit LFSR 使用反饋多項式 x^48 + x^43 + x^39 + x^38 + x^36 + x^34 + x^33 + x^31 + x^17 + x^15 + x^13 + x^12 + x^10 + x^8 + x^5 + x^2 + x + 1`,
   },
   {
     id: 4,
     title: "讀卡機產生認證",
-    description: "讀卡機產生隨機數 nR 並計算加密認證 aR",
+    description: "讀卡機產生隨機數 nR 並計算認證回應 aR",
     readerData: "計算 nR 和 aR...",
     cardData: "等待認證挑戰...",
-    explanation: "讀卡機產生 nR，並計算 aR = suc2(nT) ⊕ nR",
-    details: "nR (Reader Nonce) 為 32-bit 隨機數。aR 計算：先對 nT 進行 suc2() 運算，再與 nR 進行 XOR。\n\nsuc2() 函數定義：\nsuc2(x) = successor(successor(x))\n其中 successor(x) 表示 LFSR 向前移動一步的輸出。suc2() 函數將 32-bit 輸入通過 Crypto1 LFSR 處理兩次，產生對應的 32-bit 輸出，這證明讀卡機擁有正確金鑰。",
+    explanation: "讀卡機產生 nR，並計算 aR = suc2(nT)",
+    details: `nR (Reader Nonce) 為 32-bit 隨機數：${toHex32(ex.nR)}。aR 由 nT 經 PRNG 推進而得：aR = suc2(nT) = ${toHex32(ex.aR)}。\n\nsuc2() 函數定義：\nsuc(x) 表示卡片 16-bit LFSR PRNG 向前推進 32 步，suc2(x) = suc(suc(x)) 即推進 64 步。由於讀卡機必須先取得正確的 keystream 才能加密 aR，送出正確的 {aR} 即證明讀卡機擁有正確金鑰。`,
   },
   {
     id: 5,
     title: "傳送加密挑戰",
     description: "讀卡機發送加密的 nR 和 aR 給卡片",
-    readerData: "nR+aR: 8A347D2E B6F81290", // encrypted nR + aR
+    readerData: `nR+aR: ${toHex32(ex.nREnc)} ${toHex32(ex.aREnc)}`, // encrypted nR + aR
     cardData: "接收並解密驗證...",
     explanation: "所有後續通訊都經過 Crypto1 加密，卡片需驗證 aR 的正確性",
-    details: "數據格式：[nR_encrypted(4bytes)][aR_encrypted(4bytes)]。\n\nCrypto1 採用串流加密，每個 bit 都與 keystream 進行 XOR。卡片解密後會重新計算 aR 進行驗證。",
+    details: `數據格式：[nR_encrypted(4bytes)][aR_encrypted(4bytes)]。\n\n{nR} = nR ⊕ ks1 = ${toHex32(ex.nR)} ⊕ ${toHex32(ex.ks1)}，加密時明文 nR 同時回饋進 LFSR；{aR} = aR ⊕ ks2 = ${toHex32(ex.aR)} ⊕ ${toHex32(ex.ks2)}。每個位元組的同位位元也與下一個 keystream 位元 XOR 後傳送：${ex.readerParity.join('')}。`,
   },
   {
     id: 6,
@@ -68,26 +137,26 @@ const authSteps: AuthStep[] = [
     description: "卡片解密數據並驗證 aR 的正確性",
     readerData: "等待卡片確認...",
     cardData: "解密並驗證 aR...",
-    explanation: "卡片重新計算預期的 aR 值，與收到的值比較確認讀卡機身份",
-    details: "驗證過程：解密 nR 和 aR → 重新計算 aR' = suc2(nT) ⊕ nR → 比較 aR == aR'。\n\n成功則確認讀卡機擁有正確金鑰，否則中止驗證程序。",
+    explanation: "卡片以自己的 nT 計算預期的 aR 值，與收到的值比較確認讀卡機身份",
+    details: "驗證過程：解密 {nR}（密文回饋時先解密為 nR 再移入 LFSR）→ 解密 {aR} → 比較 aR == suc2(nT)。\n\n成功則確認讀卡機擁有正確金鑰，否則中止驗證程序。",
   },
   {
     id: 7,
     title: "卡片產生回應",
     description: "卡片計算 aT 作為身份證明",
     readerData: "等待卡片身份證明...",
-    cardData: "計算 aT = suc3(nR)...",
-    explanation: "卡片計算 aT = suc3(nR) 證明自己也擁有正確的金鑰",
-    details: "aT 計算使用 suc3() 函數對 nR 進行運算。\n\nsuc3() 函數定義：\nsuc3(x) = successor(successor(successor(x)))\n與 suc2() 類似，但 suc3() 將輸入通過 LFSR 處理三次。這實現了相互驗證的第二部分，確保卡片也擁有相同的金鑰和 LFSR 狀態。",
+    cardData: "計算 aT = suc3(nT)...",
+    explanation: "卡片計算 aT = suc3(nT) 證明自己也擁有正確的金鑰",
+    details: `aT 計算使用 suc3() 函數對 nT 進行運算：aT = suc3(nT) = ${toHex32(ex.aT)}。\n\nsuc3() 函數定義：\nsuc3(x) = suc(suc(suc(x)))\n與 suc2() 類似，但 PRNG 推進 96 步。這實現了相互驗證的第二部分，確保卡片也擁有相同的金鑰和 LFSR 狀態。`,
   },
   {
     id: 8,
     title: "發送最終確認",
     description: "卡片發送加密的 aT 完成相互驗證",
     readerData: "接收並驗證 aT...",
-    cardData: "aT: F16AC95B", // encrypted aT
+    cardData: `aT: ${toHex32(ex.aTEnc)}`, // encrypted aT
     explanation: "讀卡機收到 aT 後進行解密和驗證，確認卡片的合法性",
-    details: "aT 經 Crypto1 加密傳輸。讀卡機解密後重新計算 aT' = suc3(nR) 進行比較。\n\n驗證成功後，雙方確認彼此身份，建立安全通道。",
+    details: `aT 經 Crypto1 加密傳輸：{aT} = aT ⊕ ks3 = ${toHex32(ex.aT)} ⊕ ${toHex32(ex.ks3)}。讀卡機解密後重新計算 aT' = suc3(nT) 進行比較。\n\n驗證成功後，雙方確認彼此身份，建立安全通道。`,
   },
   {
     id: 9,
@@ -100,7 +169,262 @@ const authSteps: AuthStep[] = [
   }
 ];
 
-const CardInfoStructure = ({ isActive }: { isActive: boolean }) => {
+const AUTH_STEP_COUNT = buildAuthSteps(createAuthScenario(DEFAULT_AUTH_FORM)).length;
+
+const AuthParamsPanel = ({
+  form,
+  errors,
+  exchange,
+  onChange,
+  onReset
+}: {
+  form: AuthFormValues;
+  errors: AuthFormErrors;
+  exchange: AuthExchange;
+  onChange: (form: AuthFormValues) => void;
+  onReset: () => void;
+}) => {
+  // 把這次驗證在空中介面上可見的數值帶到 mfkey64 工具
+  const mfkey64Href = `/mfkey64?${new URLSearchParams({
+    uid: toHex32(exchange.uid),
+    nt: toHex32(exchange.nT),
+    nr: toHex32(exchange.nREnc),
+    ar: toHex32(exchange.aREnc),
+    at: toHex32(exchange.aTEnc),
+  }).toString()}`;
+
+  const fields: { name: 'uid' | 'key' | 'nT' | 'nR' | 'block'; label: string; maxLength: number }[] = [
+    { name: 'uid', label: 'UID', maxLength: 8 },
+    { name: 'key', label: `金鑰 ${form.keyType}`, maxLength: 12 },
+    { name: 'block', label: '區塊號', maxLength: 3 },
+    { name: 'nT', label: 'nT (卡片)', maxLength: 8 },
+    { name: 'nR', label: 'nR (讀卡機)', maxLength: 8 },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-4 sm:p-6 mb-4 sm:mb-6"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-base sm:text-lg font-bold text-emerald-400 flex items-center gap-2">
+          <span>⚙️</span>
+          驗證參數
+        </h3>
+        <button
+          onClick={onReset}
+          className="text-xs px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+        >
+          還原預設值
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-xs">
+        <div>
+          <div className="text-slate-400 mb-1">金鑰類型</div>
+          <div className="flex gap-1">
+            {(['A', 'B'] as const).map(type => (
+              <button
+                key={type}
+                onClick={() => onChange({ ...form, keyType: type })}
+                className={`flex-1 py-1.5 rounded font-mono transition-colors ${
+                  form.keyType === type
+                    ? type === 'A' ? 'bg-green-600 text-white' : 'bg-orange-600 text-white'
+                    : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                Key {type}
+              </button>
+            ))}
+          </div>
+        </div>
+        {fields.map(field => (
+          <label key={field.name} className="block">
+            <div className="text-slate-400 mb-1">{field.label}</div>
+            <input
+              value={form[field.name]}
+              maxLength={field.maxLength}
+              spellCheck={false}
+              onChange={(e) => onChange({ ...form, [field.name]: field.name === 'block' ? e.target.value : e.target.value.toUpperCase() })}
+              className={`w-full bg-slate-900 border rounded px-2 py-1.5 font-mono text-white focus:outline-none ${
+                errors[field.name] ? 'border-red-500' : 'border-slate-600 focus:border-green-500'
+              }`}
+            />
+            {errors[field.name] && (
+              <div className="text-red-400 mt-1">{errors[field.name]}</div>
+            )}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 mt-3 flex-wrap">
+        <div className="text-xs text-slate-400">
+          輸入自己硬體擷取到的 UID、金鑰與 nT / nR，所有步驟的命令框架、{'{nR}{aR}'} 與 {'{aT}'} 會即時重新計算
+        </div>
+        <Link
+          href={mfkey64Href}
+          className="text-xs px-2 py-1 bg-teal-700 hover:bg-teal-600 rounded transition-colors flex-shrink-0"
+        >
+          🔓 以 mfkey64 還原金鑰
+        </Link>
+      </div>
+    </motion.div>
+  );
+};
+
+// PRNG 序列環上顯示的視窗：從 nT 前 16 步到 aT 後 32 步
+const RING_WINDOW_START = -16;
+const RING_WINDOW_SIZE = 144;
+
+const PrngRingPanel = ({ nT }: { nT: number }) => {
+  const [fromInput, setFromInput] = useState(toHex32(nT));
+  const [toInput, setToInput] = useState(toHex32(prngSuccessor(nT, 64)));
+
+  const position = noncePosition(nT);
+  const markers = [
+    { label: 'nT', offset: 0, value: nT, color: '#a855f7' },
+    { label: 'aR', offset: 64, value: prngSuccessor(nT, 64), color: '#22c55e' },
+    { label: 'aT', offset: 96, value: prngSuccessor(nT, 96), color: '#f97316' },
+  ];
+
+  // 視窗內的偏移量換算成環上的角度（12 點鐘方向為起點）
+  const pointAt = (offset: number, radius: number) => {
+    const angle = ((offset - RING_WINDOW_START) / RING_WINDOW_SIZE) * 2 * Math.PI - Math.PI / 2;
+    return { x: 100 + radius * Math.cos(angle), y: 100 + radius * Math.sin(angle) };
+  };
+
+  const isHex32 = (value: string) => /^[0-9A-Fa-f]{8}$/.test(value);
+  const fromValue = parseInt(fromInput, 16);
+  const toValue = parseInt(toInput, 16);
+  const canMeasure = isHex32(fromInput) && isHex32(toInput);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-4 sm:p-6 mt-4 sm:mt-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 text-emerald-400 flex items-center gap-2">
+        <span>🔁</span>
+        PRNG 序列環
+      </h3>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <svg viewBox="0 0 200 200" className="w-full max-w-[260px] mx-auto">
+            <circle cx="100" cy="100" r="80" fill="none" stroke="#334155" strokeWidth="6" />
+            {Array.from({ length: RING_WINDOW_SIZE / 8 }, (_, i) => {
+              const offset = RING_WINDOW_START + i * 8;
+              const inner = pointAt(offset, 74);
+              const outer = pointAt(offset, 86);
+              return (
+                <line key={i} x1={inner.x} y1={inner.y} x2={outer.x} y2={outer.y} stroke="#475569" strokeWidth="1" />
+              );
+            })}
+            {markers.map(marker => {
+              const dot = pointAt(marker.offset, 80);
+              const text = pointAt(marker.offset, 58);
+              return (
+                <g key={marker.label}>
+                  <motion.circle
+                    cx={dot.x}
+                    cy={dot.y}
+                    r="7"
+                    fill={marker.color}
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                  />
+                  <text x={text.x} y={text.y} fill={marker.color} fontSize="11" textAnchor="middle" dominantBaseline="middle" fontFamily="monospace">
+                    {marker.label}
+                  </text>
+                </g>
+              );
+            })}
+            <text x="100" y="94" fill="#cbd5e1" fontSize="10" textAnchor="middle" fontFamily="monospace">
+              位置 {position}
+            </text>
+            <text x="100" y="110" fill="#64748b" fontSize="9" textAnchor="middle">
+              週期 {PRNG_PERIOD}
+            </text>
+          </svg>
+          <div className="text-xs text-slate-400 text-center mt-1">
+            環上顯示 nT 附近 {RING_WINDOW_SIZE} 步，每格 8 步
+          </div>
+        </div>
+
+        <div className="space-y-2 text-xs">
+          {markers.map(marker => (
+            <div key={marker.label} className="bg-slate-900/50 rounded p-2 font-mono flex items-center justify-between">
+              <span style={{ color: marker.color }}>{marker.label}</span>
+              <span className="text-white">{toHex32(marker.value)}</span>
+              <span className="text-slate-400">
+                {marker.offset === 0 ? `第 ${position} 步` : `nT + ${marker.offset}`}
+              </span>
+            </div>
+          ))}
+          <div className={`rounded p-2 ${isValidNonce(nT) ? 'bg-green-900/30 text-green-300' : 'bg-red-900/30 text-red-300'}`}>
+            {isValidNonce(nT)
+              ? '✓ nT 是合法的 PRNG 輸出：低 16 位元恰為高 16 位元往後 16 步的狀態'
+              : '✗ nT 不是合法的 PRNG 輸出，真實卡片（弱 PRNG）不會送出此值'}
+          </div>
+
+          <div className="border-t border-slate-700 pt-3 mt-3">
+            <div className="text-slate-300 font-medium mb-2">Nonce 距離計算</div>
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { label: '起點 nonce', value: fromInput, set: setFromInput },
+                { label: '終點 nonce', value: toInput, set: setToInput },
+              ].map(field => (
+                <label key={field.label} className="block">
+                  <div className="text-slate-400 mb-1">{field.label}</div>
+                  <input
+                    value={field.value}
+                    maxLength={8}
+                    spellCheck={false}
+                    onChange={(e) => field.set(e.target.value.toUpperCase())}
+                    className={`w-full bg-slate-900 border rounded px-2 py-1.5 font-mono text-white focus:outline-none ${
+                      isHex32(field.value) ? 'border-slate-600 focus:border-green-500' : 'border-red-500'
+                    }`}
+                  />
+                </label>
+              ))}
+            </div>
+            {canMeasure && (
+              <div className="mt-2 space-y-1 font-mono">
+                <div className="text-white">距離：{nonceDistance(fromValue, toValue)} 步</div>
+                <div className="text-slate-400">
+                  起點 {isValidNonce(fromValue) ? '合法' : '非法'} · 終點 {isValidNonce(toValue) ? '合法' : '非法'}
+                </div>
+                <div className="text-slate-400">
+                  預測起點 + 160 步 = {toHex32(nonceAtPosition(noncePosition(fromValue) + 160))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+const CardInfoStructure = ({
+  isActive,
+  uid,
+  keyType,
+  keyHex
+}: {
+  isActive: boolean;
+  uid: number;
+  keyType: 'A' | 'B';
+  keyHex: string;
+}) => {
+  const uidBytes = toHex32(uid).match(/.{2}/g) || [];
+  const keyBytes = keyHex.match(/.{2}/g) || [];
+  const unknownKey = ['??', '??', '??', '??', '??', '??'];
+  const keyABytes = keyType === 'A' ? keyBytes : unknownKey;
+  const keyBBytes = keyType === 'B' ? keyBytes : unknownKey;
+
   return (
     <motion.div 
       className="bg-slate-900/50 rounded-lg p-4 border border-slate-700 shadow-lg"
@@ -132,27 +456,17 @@ const CardInfoStructure = ({ isActive }: { isActive: boolean }) => {
               }}
               className="px-2 py-1 bg-purple-600 rounded font-mono text-xs"
             >
-              DEADBEEF
+              {toHex32(uid)}
             </motion.div>
           </div>
           
           <div className="grid grid-cols-4 gap-1 text-xs">
-            <div className="text-center">
-              <div className="text-slate-400 mb-1 text-xs">Byte 0</div>
-              <div className="px-1 py-1 bg-purple-500/30 rounded font-mono text-xs">DE</div>
-            </div>
-            <div className="text-center">
-              <div className="text-slate-400 mb-1 text-xs">Byte 1</div>
-              <div className="px-1 py-1 bg-purple-500/30 rounded font-mono text-xs">AD</div>
-            </div>
-            <div className="text-center">
-              <div className="text-slate-400 mb-1 text-xs">Byte 2</div>
-              <div className="px-1 py-1 bg-purple-500/30 rounded font-mono text-xs">BE</div>
-            </div>
-            <div className="text-center">
-              <div className="text-slate-400 mb-1 text-xs">Byte 3</div>
-              <div className="px-1 py-1 bg-purple-500/30 rounded font-mono text-xs">EF</div>
-            </div>
+            {uidBytes.map((byte, i) => (
+              <div key={i} className="text-center">
+                <div className="text-slate-400 mb-1 text-xs">Byte {i}</div>
+                <div className="px-1 py-1 bg-purple-500/30 rounded font-mono text-xs">{byte}</div>
+              </div>
+            ))}
           </div>
           
           <div className="text-xs text-slate-400 mt-2">
@@ -179,12 +493,12 @@ const CardInfoStructure = ({ isActive }: { isActive: boolean }) => {
               }}
               className="px-2 py-1 bg-green-600 rounded font-mono text-xs"
             >
-              FFFFFFFFFFFF
+              {keyABytes.join('')}
             </motion.div>
           </div>
           
           <div className="grid grid-cols-6 gap-1 text-xs">
-            {['FF', 'FF', 'FF', 'FF', 'FF', 'FF'].map((byte, i) => (
+            {keyABytes.map((byte, i) => (
               <div key={i} className="text-center">
                 <div className="text-slate-400 mb-1 text-xs">B{i}</div>
                 <div className="px-1 py-1 bg-green-500/30 rounded font-mono text-xs">{byte}</div>
@@ -216,12 +530,12 @@ const CardInfoStructure = ({ isActive }: { isActive: boolean }) => {
               }}
               className="px-2 py-1 bg-orange-600 rounded font-mono text-xs"
             >
-              FFFFFFFFFFFF
+              {keyBBytes.join('')}
             </motion.div>
           </div>
           
           <div className="grid grid-cols-6 gap-1 text-xs">
-            {['FF', 'FF', 'FF', 'FF', 'FF', 'FF'].map((byte, i) => (
+            {keyBBytes.map((byte, i) => (
               <div key={i} className="text-center">
                 <div className="text-slate-400 mb-1 text-xs">B{i}</div>
                 <div className="px-1 py-1 bg-orange-500/30 rounded font-mono text-xs">{byte}</div>
@@ -236,7 +550,7 @@ const CardInfoStructure = ({ isActive }: { isActive: boolean }) => {
 
         {/* 扇區權限說明 */}
         <div className="bg-slate-800/50 rounded-lg p-3 text-xs text-slate-400">
-            每個扇區都有獨立的 Key A/B 配對，提供不同層級的存取控制
+            每個扇區都有獨立的 Key A/B 配對，提供不同層級的存取控制；本次驗證使用 Key {keyType}，另一把金鑰以 ?? 表示未知
         </div>
       </div>
     </motion.div>
@@ -246,14 +560,37 @@ const CardInfoStructure = ({ isActive }: { isActive: boolean }) => {
 export default function AuthenticationPage() {
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [authForm, setAuthForm] = useState<AuthFormValues>(DEFAULT_AUTH_FORM);
+  const [scenario, setScenario] = useState<AuthScenario>(() => createAuthScenario(DEFAULT_AUTH_FORM));
+
+  const formErrors = useMemo(() => validateAuthForm(authForm), [authForm]);
+  const authSteps = useMemo(() => buildAuthSteps(scenario), [scenario]);
+  const exchange = scenario.exchange;
+  const verification = useMemo(
+    () => cardVerifyReader(exchange.uid, exchange.key, exchange.nT, exchange.nREnc, exchange.aREnc),
+    [exchange]
+  );
+
+  // 輸入有誤時保留上一組有效參數的計算結果
+  const handleAuthFormChange = (form: AuthFormValues) => {
+    setAuthForm(form);
+    if (Object.keys(validateAuthForm(form)).length === 0) {
+      setScenario(createAuthScenario(form));
+    }
+  };
+
+  const resetAuthForm = () => {
+    setAuthForm(DEFAULT_AUTH_FORM);
+    setScenario(createAuthScenario(DEFAULT_AUTH_FORM));
+  };
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
-    if (isPlaying && currentStep < authSteps.length - 1) {
+    if (isPlaying && currentStep < AUTH_STEP_COUNT - 1) {
       interval = setInterval(() => {
         setCurrentStep((prev) => prev + 1);
       }, 4000);
-    } else if (currentStep >= authSteps.length - 1) {
+    } else if (currentStep >= AUTH_STEP_COUNT - 1) {
       setIsPlaying(false);
     }
     return () => clearInterval(interval);
@@ -321,6 +658,15 @@ export default function AuthenticationPage() {
         <div className="grid lg:grid-cols-3 gap-4 sm:gap-8">
           {/* 主要動畫區域 */}
           <div className="lg:col-span-2">
+            {/* 驗證參數輸入 */}
+            <AuthParamsPanel
+              form={authForm}
+              errors={formErrors}
+              exchange={exchange}
+              onChange={handleAuthFormChange}
+              onReset={resetAuthForm}
+            />
+
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -451,9 +797,7 @@ export default function AuthenticationPage() {
                             <div className="flex items-center justify-center gap-1">
                               {Array.from({length: 32}, (_, i) => {
                                 // 實際計算 UID ⊕ nT 的二進制位元，使用無號數運算
-                                const uid = 0xDEADBEEF >>> 0; // 轉換為無號 32-bit
-                                const nt = 0x4C983BF2 >>> 0;  // 轉換為無號 32-bit
-                                const xorResult = (uid ^ nt) >>> 0; // 確保結果為無號數
+                                const xorResult = exchange.uidXorNt;
                                 
                                 // 取得第 i 個位元（從最高位開始）
                                 const bitPosition = 31 - i;
@@ -485,21 +829,21 @@ export default function AuthenticationPage() {
                                 transition={{ duration: 2, repeat: Infinity }}
                                 className="text-yellow-400 font-mono text-xs"
                               >
-                                UID: DEADBEEF ⊕ nT: 4C983BF2
+                                UID: {toHex32(exchange.uid)} ⊕ nT: {toHex32(exchange.nT)}
                               </motion.div>
                               <motion.div
                                 animate={{ opacity: [0.3, 0.8, 0.3] }}
                                 transition={{ duration: 2, delay: 0.5, repeat: Infinity }}
                                 className="text-green-400 font-mono text-xs"
                               >
-                                = {(((0xDEADBEEF >>> 0) ^ (0x4C983BF2 >>> 0)) >>> 0).toString(16).toUpperCase().padStart(8, '0')} (hex)
+                                = {toHex32(exchange.uidXorNt)} (hex)
                               </motion.div>
                               <motion.div
                                 animate={{ opacity: [0.3, 0.8, 0.3] }}
                                 transition={{ duration: 2, delay: 1, repeat: Infinity }}
                                 className="text-slate-400 font-mono text-xs"
                               >
-                                = {(((0xDEADBEEF >>> 0) ^ (0x4C983BF2 >>> 0)) >>> 0).toString(2).padStart(32, '0')}
+                                = {exchange.uidXorNt.toString(2).padStart(32, '0')}
                               </motion.div>
                             </div>
                           </div>
@@ -510,7 +854,7 @@ export default function AuthenticationPage() {
                           <div className="text-center space-y-3">
                             <div className="text-yellow-400 text-sm font-bold">
                               {currentStep === 3 && "🔐 讀卡機產生認證數據"}
-                              {currentStep === 5 && "🔐 讀卡機解密與驗證"}
+                              {currentStep === 5 && "🔐 卡片解密與驗證"}
                               {currentStep === 6 && "🔐 卡片計算回應認證"}
                             </div>
                             
@@ -536,9 +880,9 @@ export default function AuthenticationPage() {
                                     transition={{ duration: 1.5, repeat: Infinity }}
                                     className="font-mono text-xs space-y-1"
                                   >
-                                    <div className="text-blue-400">nR = A1B2C3D4 (假設值)</div>
-                                    <div className="text-slate-400">suc2(nT: 4C983BF2) = 計算中...</div>
-                                    <div className="text-green-400">aR = suc2(nT) ⊕ nR</div>
+                                    <div className="text-blue-400">nR = {toHex32(exchange.nR)}</div>
+                                    <div className="text-slate-400">aR = suc2(nT: {toHex32(exchange.nT)}) = {toHex32(exchange.aR)}</div>
+                                    <div className="text-green-400">{'{nR}{aR}'} = (nR ⊕ ks1)(aR ⊕ ks2)</div>
                                   </motion.div>
                                 </>
                               )}
@@ -549,10 +893,10 @@ export default function AuthenticationPage() {
                                     transition={{ duration: 1.5, repeat: Infinity }}
                                     className="font-mono text-xs space-y-1"
                                   >
-                                    <div className="text-orange-400">接收: 8A347D2E B6F81290</div>
-                                    <div className="text-orange-400">解密 nR: 8A347D2E → 明文 nR</div>
-                                    <div className="text-orange-400">解密 aR: B6F81290 → 明文 aR</div>
-                                    <div className="text-green-400">驗證: aR ?= suc2(nT) ⊕ nR</div>
+                                    <div className="text-orange-400">接收: {toHex32(exchange.nREnc)} {toHex32(exchange.aREnc)}</div>
+                                    <div className="text-orange-400">解密 nR: {toHex32(exchange.nREnc)} → {toHex32(verification.nR)}</div>
+                                    <div className="text-orange-400">解密 aR: {toHex32(exchange.aREnc)} → {toHex32(verification.aR)}</div>
+                                    <div className="text-green-400">驗證: aR ?= suc2(nT) = {toHex32(verification.expected)} {verification.valid ? '✓' : '✗'}</div>
                                   </motion.div>
                                 </>
                               )}
@@ -563,8 +907,8 @@ export default function AuthenticationPage() {
                                     transition={{ duration: 1.5, repeat: Infinity }}
                                     className="font-mono text-xs space-y-1"
                                   >
-                                    <div className="text-purple-400">計算: aT = suc3(nR)</div>
-                                    <div className="text-yellow-400">準備加密 aT 進行傳送</div>
+                                    <div className="text-purple-400">計算: aT = suc3(nT) = {toHex32(exchange.aT)}</div>
+                                    <div className="text-yellow-400">加密: {'{aT}'} = aT ⊕ ks3 = {toHex32(exchange.aTEnc)}</div>
                                   </motion.div>
                                 </>
                               )}
@@ -611,8 +955,8 @@ export default function AuthenticationPage() {
                                 transition={{ duration: 1.5, repeat: Infinity }}
                                 className="font-mono text-xs space-y-1"
                               >
-                                <div className="text-green-400">接收 aT: F16AC95B</div>
-                                <div className="text-orange-400">解密並驗證 aT 正確性</div>
+                                <div className="text-green-400">接收 {'{aT}'}: {toHex32(exchange.aTEnc)}</div>
+                                <div className="text-orange-400">解密 aT = {toHex32((exchange.aTEnc ^ exchange.ks3) >>> 0)}，比對 suc3(nT)</div>
                                 <div className="text-yellow-400">雙方 LFSR 狀態同步完成</div>
                               </motion.div>
                             </div>
@@ -639,7 +983,7 @@ export default function AuthenticationPage() {
                     >
                       <span className="text-white text-lg sm:text-2xl">💳</span>
                     </motion.div>
-                    <p className="text-xs sm:text-sm text-slate-400">卡片 (UID: DEADBEEF)</p>
+                    <p className="text-xs sm:text-sm text-slate-400">卡片 (UID: {toHex32(exchange.uid)})</p>
                   </div>
                 </div>
 
@@ -695,6 +1039,9 @@ export default function AuthenticationPage() {
               </motion.div>
             </motion.div>
 
+            {/* PRNG 序列環 */}
+            <PrngRingPanel key={exchange.nT} nT={exchange.nT} />
+
             {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -791,7 +1138,12 @@ export default function AuthenticationPage() {
 
             {/* 卡片資訊結構 */}
             <div className="flex-shrink-0">
-              <CardInfoStructure isActive={isPlaying && currentStep >= 5} />
+              <CardInfoStructure
+                isActive={isPlaying && currentStep >= 5}
+                uid={exchange.uid}
+                keyType={scenario.keyType}
+                keyHex={keyToHex(exchange.key)}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,660 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Shield, Target } from "lucide-react";
+import Link from "next/link";
+import { BackdoorProgress, BACKDOOR_KEYS, runBackdoorAttack } from "@/lib/backdoor";
+import { keyToHex, toHex32 } from "@/lib/crypto1";
+import { appendCrcA, bytesToHex, MIFARE_CMD } from "@/lib/iso14443a";
+import { KnownKey, NestedTarget } from "@/lib/nested";
+import { blockToSector, createVirtualCard, SectorKeys, VirtualCardOptions } from "@/lib/virtualCard";
+
+interface BackdoorStep {
+  id: number;
+  title: string;
+  description: string;
+  phase: string;
+  attackerAction: string;
+  cardResponse: string;
+  vulnerability: string;
+  details: string;
+}
+
+// 模擬的 FM11RF08S：巢狀驗證使用靜態 nonce，並接受廠商後門金鑰；扇區 0 仍使用預設金鑰
+const BACKDOOR_CARD_UID = 0x9C3E5A17;
+const BACKDOOR_SECTOR_KEYS: SectorKeys[] = Array.from({ length: 16 }, (_, sector) => ({
+  keyA: sector === 0 ? 0xFFFFFFFFFFFF : 0x2F8D6B4C0000 + sector * 0x1111,
+  keyB: sector === 0 ? 0xFFFFFFFFFFFF : 0x8A1E3C5D0000 + sector * 0x0101,
+}));
+const BACKDOOR_CARD_OPTIONS: VirtualCardOptions = { staticNonces: true, backdoorKey: BACKDOOR_KEYS[0].key };
+const KNOWN_KEY: KnownKey = { block: 0, keyType: 'A', key: 0xFFFFFFFFFFFF };
+
+const backdoorCommand = (target: NestedTarget) =>
+  bytesToHex(appendCrcA([target.keyType === 'A' ? MIFARE_CMD.BACKDOOR_AUTH_A : MIFARE_CMD.BACKDOOR_AUTH_B, target.block]));
+
+// 步驟中的數值取自實際執行的模擬結果，尚未執行時顯示提示
+const buildBackdoorSteps = (progress: BackdoorProgress | null, target: NestedTarget): BackdoorStep[] => {
+  const targetSector = blockToSector(target.block);
+  const samples = progress?.staticSamples || [];
+  const distinctFirstBytes = new Set(samples.map(nTEnc => nTEnc >>> 24)).size;
+  const pending = "（執行下方模擬以取得實際數值）";
+
+  return [
+    {
+      id: 1,
+      title: "偵測靜態加密 nonce",
+      description: "對同一個扇區重複巢狀驗證，比較收到的 {nT}",
+      phase: "初始化",
+      attackerAction: "hf mf info",
+      cardResponse: samples.length > 1 ? `Static enc nonce: ${new Set(samples).size === 1 ? 'yes' : 'no'}` : "Static enc nonce...",
+      vulnerability: "巢狀驗證的 nT 固定不變",
+      details: `一般卡片每次巢狀驗證都會產生新的 nT。FM11RF08S 這類相容晶片改成每個扇區、每種金鑰固定使用同一個 nT，因此加密後的 {nT} 也完全相同。${samples.length > 0 ? `對扇區 ${targetSector} 做了 ${samples.length} 次巢狀驗證，{nT} 全部是 ${toHex32(samples[0])}。` : pending}`,
+    },
+    {
+      id: 2,
+      title: "為什麼 Nested 失敗",
+      description: "nT 不是 PRNG 的下一個輸出，距離無從校準",
+      phase: "分析",
+      attackerAction: "nT = suc^d(nT₀) ?",
+      cardResponse: progress && progress.knownDistances.length > 0 ? `距離: ${progress.knownDistances.join(', ')}` : "Calibrating...",
+      vulnerability: "無法由時序預測 nT",
+      details: `Nested attack 先量測兩次 nT 在 PRNG 上的距離，再用距離預測加密的 nT。靜態 nonce 不是由 PRNG 推進而來：明文驗證的 nT 持續前進，巢狀驗證的 nT 卻停在原地，量到的距離每次都不同，無法用來預測。${progress && progress.knownDistances.length > 0 ? `已知扇區量到的距離：${progress.knownDistances.join('、')}。` : pending}`,
+    },
+    {
+      id: 3,
+      title: "為什麼 Hardnested 失敗",
+      description: "統計方法需要大量不同的 {nT}",
+      phase: "分析",
+      attackerAction: "hf mf hardnested",
+      cardResponse: samples.length > 0 ? `第一位元組 ${distinctFirstBytes}/256 種` : "Collecting nonces...",
+      vulnerability: "只有一個 {nT}，沒有統計可言",
+      details: `Hardnested 需要收集全部 256 種 {nT} 的第一個位元組，才能計算同位和等統計性質。靜態 nonce 的卡片不論驗證多少次都只給出同一個 {nT}，第一個位元組永遠只有一種，統計方法完全無法進行。${samples.length > 0 ? `本次 ${samples.length} 個樣本只出現 ${distinctFirstBytes} 種第一個位元組。` : pending}`,
+    },
+    {
+      id: 4,
+      title: "後門金鑰驗證",
+      description: "以廠商後門指令與後門金鑰驗證任何扇區",
+      phase: "後門",
+      attackerAction: `AUTH: ${backdoorCommand(target)}  Key: ${keyToHex(BACKDOOR_KEYS[0].key)}`,
+      cardResponse: progress?.backdoor ? `驗證成功 (${progress.backdoor.chip})` : "Trying backdoor keys...",
+      vulnerability: "所有卡片共用同一把後門金鑰",
+      details: `這些晶片除了標準的 0x60/0x61，還接受 0x64/0x65 開頭的驗證指令，並以晶片內建、所有卡片都相同的後門金鑰驗證，完全不看扇區金鑰。已公開的後門金鑰包括 ${BACKDOOR_KEYS.map(({ key, chip }) => `${keyToHex(key)}（${chip}）`).join('、')}。${progress?.backdoor ? `模擬卡片接受 ${keyToHex(progress.backdoor.key)}。` : pending}`,
+    },
+    {
+      id: 5,
+      title: "解出明文 nT",
+      description: "以後門指令做巢狀驗證，用後門金鑰解密 nT",
+      phase: "後門",
+      attackerAction: "nested backdoor auth",
+      cardResponse: progress?.nT != null ? `nT: ${toHex32(progress.nT)}` : "nT: ????????",
+      vulnerability: "後門巢狀驗證與一般巢狀驗證使用同一個靜態 nT",
+      details: `後門驗證後再以後門指令對目標扇區做巢狀驗證，卡片仍然送出該扇區固定的 nT，只是以後門金鑰加密。攻擊者知道後門金鑰，可以直接解出明文 nT。${progress?.nT != null ? `扇區 ${targetSector} Key ${target.keyType} 的靜態 nT = ${toHex32(progress.nT)}。` : pending}`,
+    },
+    {
+      id: 6,
+      title: "取得 32 位元 keystream",
+      description: "一般巢狀驗證收到以真實金鑰加密的同一個 nT",
+      phase: "密碼分析",
+      attackerAction: `AUTH ${target.keyType} 區塊 ${target.block}（巢狀）`,
+      cardResponse: progress?.nTEnc != null && progress.nT != null ? `ks = ${toHex32((progress.nTEnc ^ progress.nT) >>> 0)}` : "{nT}: ????????",
+      vulnerability: "已知明文 nT 直接洩漏 keystream",
+      details: `以一般指令對目標扇區做巢狀驗證，收到的 {nT} 是以目標金鑰加密的同一個 nT，兩者 XOR 就是 32 位元 keystream，不需要任何預測。${progress?.nTEnc != null ? `{nT} = ${toHex32(progress.nTEnc)}，同位位元 ${progress.parity.join('')}。` : pending}`,
+    },
+    {
+      id: 7,
+      title: "還原候選金鑰",
+      description: "lfsr_recovery32 還原狀態，第 4 個同位位元再過濾一半",
+      phase: "金鑰推導",
+      attackerAction: "lfsr_recovery32(ks, uid ^ nT)",
+      cardResponse: progress && progress.recovered > 0 ? `${progress.recovered.toLocaleString()} → ${progress.candidates.length.toLocaleString()} 把` : "Recovering...",
+      vulnerability: "32 位元 keystream 將金鑰空間縮減到約 2^16",
+      details: `與 nested attack 相同，由 keystream 還原出約 2^16 個狀態，回捲 UID ⊕ nT 即得候選金鑰。第 4 個同位位元與 nR 階段的第一個 keystream 位元 XOR，每個狀態都能算出這個位元，可再刪去約一半。${progress && progress.recovered > 0 ? `本次 ${progress.recovered.toLocaleString()} 個狀態剩 ${progress.candidates.length.toLocaleString()} 把候選。` : pending}`,
+    },
+    {
+      id: 8,
+      title: "字典驗證",
+      description: "以候選金鑰做為字典逐一驗證",
+      phase: "結果輸出",
+      attackerAction: "hf mf fchk -f keys.dic",
+      cardResponse: progress?.key != null ? `Found Key ${target.keyType}: ${keyToHex(progress.key)}` : "Checking keys...",
+      vulnerability: "後門讓每個扇區都能以同樣方式破解",
+      details: `候選金鑰寫成字典檔，再以快速驗證逐一嘗試。實際工具會再利用 Key A 與 Key B 相同、或多個扇區共用金鑰的情況取交集，進一步縮小字典。${progress?.key != null ? `本次嘗試了 ${progress.tried.toLocaleString()} 把候選後取得金鑰。` : pending}`,
+    },
+  ];
+};
+
+const BACKDOOR_STEP_COUNT = buildBackdoorSteps(null, { block: 16, keyType: 'A' }).length;
+
+const BackdoorSimulator = ({
+  target,
+  progress,
+  isRunning,
+  onTargetChange,
+  onRun
+}: {
+  target: NestedTarget;
+  progress: BackdoorProgress | null;
+  isRunning: boolean;
+  onTargetChange: (target: NestedTarget) => void;
+  onRun: () => void;
+}) => {
+  const targetSector = blockToSector(target.block);
+  const actualKey = target.keyType === 'A' ? BACKDOOR_SECTOR_KEYS[targetSector].keyA : BACKDOOR_SECTOR_KEYS[targetSector].keyB;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 mb-3 lg:mb-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 lg:mb-4 text-indigo-400 flex items-center gap-2">
+        <Target size={16} className="lg:w-5 lg:h-5" />
+        後門攻擊模擬
+      </h3>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs mb-4">
+        <div>
+          <div className="text-slate-400 mb-1">已知金鑰</div>
+          <div className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 font-mono">
+            扇區 0 Key A {keyToHex(KNOWN_KEY.key)}
+          </div>
+        </div>
+        <label>
+          <div className="text-slate-400 mb-1">目標扇區</div>
+          <select
+            value={targetSector}
+            disabled={isRunning}
+            onChange={(e) => onTargetChange({ ...target, block: Number(e.target.value) * 4 })}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white"
+          >
+            {BACKDOOR_SECTOR_KEYS.map((_, sector) => sector > 0 && (
+              <option key={sector} value={sector}>扇區 {sector}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-1">
+          {(['A', 'B'] as const).map(type => (
+            <button
+              key={type}
+              disabled={isRunning}
+              onClick={() => onTargetChange({ ...target, keyType: type })}
+              className={`px-3 py-1.5 rounded font-mono transition-colors ${
+                target.keyType === type ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              Key {type}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning}
+          className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+            isRunning ? 'bg-slate-700/50 text-slate-500 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 text-white'
+          }`}
+        >
+          {isRunning ? '攻擊中...' : '▶ 執行攻擊'}
+        </button>
+      </div>
+
+      {progress && (
+        <div className="space-y-3 text-xs">
+          <div className="bg-slate-900/50 rounded p-2 font-mono text-violet-300">
+            [{progress.phase}] {progress.message}
+          </div>
+
+          {/* nested / hardnested 失效示範 */}
+          <div className="grid sm:grid-cols-2 gap-2">
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400 mb-1">目標扇區的 {'{nT}'}（重複巢狀驗證）</div>
+              <div className="flex flex-wrap gap-1">
+                {progress.staticSamples.map((nTEnc, i) => (
+                  <motion.span
+                    key={i}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className="px-2 py-0.5 bg-indigo-900/40 text-indigo-200 rounded font-mono"
+                  >
+                    {toHex32(nTEnc)}
+                  </motion.span>
+                ))}
+              </div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400 mb-1">已知扇區量到的 nonce 距離</div>
+              <div className="flex flex-wrap gap-1">
+                {progress.knownDistances.map((distance, i) => (
+                  <motion.span
+                    key={i}
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className="px-2 py-0.5 bg-slate-700/60 text-slate-200 rounded font-mono"
+                  >
+                    {distance}
+                  </motion.span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {progress.backdoor && (
+            <div className="overflow-x-auto">
+              <table className="w-full font-mono">
+                <tbody>
+                  <tr className="border-b border-slate-800">
+                    <td className="py-1 pr-3 text-slate-400">後門金鑰</td>
+                    <td className="py-1 text-white">{keyToHex(progress.backdoor.key)} ({progress.backdoor.chip})</td>
+                  </tr>
+                  <tr className="border-b border-slate-800">
+                    <td className="py-1 pr-3 text-slate-400">後門指令</td>
+                    <td className="py-1 text-white">{backdoorCommand(target)}</td>
+                  </tr>
+                  <tr className="border-b border-slate-800">
+                    <td className="py-1 pr-3 text-slate-400">明文 nT</td>
+                    <td className="py-1 text-green-300">{progress.nT !== null ? toHex32(progress.nT) : '—'}</td>
+                  </tr>
+                  <tr className="border-b border-slate-800">
+                    <td className="py-1 pr-3 text-slate-400">{'{nT}'}（真實金鑰）</td>
+                    <td className="py-1 text-yellow-300">
+                      {progress.nTEnc !== null ? `${toHex32(progress.nTEnc)}  同位 ${progress.parity.join('')}` : '—'}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 pr-3 text-slate-400">keystream</td>
+                    <td className="py-1 text-white">
+                      {progress.nTEnc !== null && progress.nT !== null ? toHex32((progress.nTEnc ^ progress.nT) >>> 0) : '—'}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">還原狀態 → 候選</div>
+              <div className="font-mono text-white text-sm">
+                {progress.recovered ? `${progress.recovered.toLocaleString()} → ${progress.candidates.length.toLocaleString()}` : '—'}
+              </div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">字典驗證</div>
+              <div className="font-mono text-white text-sm">{progress.tried ? progress.tried.toLocaleString() : '—'}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">還原結果</div>
+              <div className={`font-mono text-sm ${progress.key !== null ? 'text-green-300' : 'text-slate-500'}`}>
+                {progress.key !== null ? `${keyToHex(progress.key)} ${progress.key === actualKey ? '✓' : ''}` : '—'}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default function BackdoorAttackPage() {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [target, setTarget] = useState<NestedTarget>({ block: 16, keyType: 'A' });
+  const [progress, setProgress] = useState<BackdoorProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const backdoorSteps = useMemo(() => buildBackdoorSteps(progress, target), [progress, target]);
+
+  const runAttack = async () => {
+    setIsRunning(true);
+    setProgress(null);
+    const card = createVirtualCard(BACKDOOR_CARD_UID, BACKDOOR_SECTOR_KEYS, BACKDOOR_CARD_OPTIONS);
+    await runBackdoorAttack(card, KNOWN_KEY, target, setProgress);
+    setIsRunning(false);
+  };
+
+  const changeTarget = (next: NestedTarget) => {
+    setTarget(next);
+    setProgress(null);
+  };
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isPlaying) {
+      interval = setInterval(() => {
+        setCurrentStep((prev) => {
+          if (prev >= BACKDOOR_STEP_COUNT - 1) {
+            return 0;
+          }
+          return prev + 1;
+        });
+      }, 4000);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, currentStep]);
+
+  const resetAnimation = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlayPause = () => {
+    setIsPlaying(!isPlaying);
+  };
+
+  const goToStep = (stepIndex: number) => {
+    setCurrentStep(stepIndex);
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
+        >
+          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
+            <motion.div
+              whileHover={{ scale: 1.1 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Link href="/" className="text-indigo-400 hover:text-indigo-300 transition-colors flex-shrink-0">
+                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+              </Link>
+            </motion.div>
+            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-indigo-400 to-violet-400 bg-clip-text text-transparent">
+              Static Nonce Backdoor
+            </h1>
+          </div>
+          
+          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
+            <motion.button
+              onClick={togglePlayPause}
+              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
+              {isPlaying ? "暫停" : "播放"}
+            </motion.button>
+            <motion.button
+              onClick={resetAnimation}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <RotateCcw size={20} />
+              重置
+            </motion.button>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 lg:gap-8">
+          {/* 主要動畫區域 */}
+          <div className="lg:col-span-2">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6"
+            >
+              {/* 當前步驟標題 */}
+              <div className="text-center mb-4 lg:mb-8">
+                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1 lg:mb-2">
+                  步驟 {currentStep + 1}: {backdoorSteps[currentStep]?.title}
+                </h3>
+                <p className="text-slate-300 mb-2 lg:mb-4 text-sm lg:text-base">
+                  {backdoorSteps[currentStep]?.description}
+                </p>
+                <div className="inline-flex items-center gap-1 lg:gap-2 px-2 lg:px-3 py-1 bg-indigo-600/20 border border-indigo-500/30 rounded-full text-indigo-400 text-xs lg:text-sm">
+                  <Shield size={12} className="lg:w-4 lg:h-4" />
+                  {backdoorSteps[currentStep]?.phase}
+                </div>
+              </div>
+
+              {/* 攻擊動畫區域 */}
+              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6">
+                <div className="flex items-center justify-between mb-4 lg:mb-8">
+                  {/* 攻擊者 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        scale: [1, 1.1, 1],
+                        boxShadow: [
+                          '0 0 0px rgba(99, 102, 241, 0.5)', 
+                          '0 0 20px rgba(99, 102, 241, 0.8)', 
+                          '0 0 0px rgba(99, 102, 241, 0.5)'
+                        ]
+                      }}
+                      transition={{ 
+                        duration: 2, 
+                        repeat: Infinity,
+                        repeatType: "reverse"
+                      }}
+                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-indigo-500 to-indigo-700 rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center"
+                    >
+                      <Target size={20} className="sm:w-6 sm:h-6 lg:w-8 lg:h-8 text-white" />
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">攻擊者 (Proxmark3)</p>
+                  </div>
+
+                  {/* 攻擊流程動畫 */}
+                  <div className="flex-1 mx-4 lg:mx-8 relative h-12 lg:h-20 flex items-center">
+                    {/* 攻擊向量 */}
+                    <motion.div
+                      animate={{
+                        x: [0, 50, 0],
+                        opacity: [0.3, 1, 0.3],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                      }}
+                      className="absolute left-0 w-6 h-1 bg-gradient-to-r from-indigo-500 to-violet-500 rounded-full"
+                    />
+                    
+                    {/* 資料流 */}
+                    <div className="w-full text-center">
+                      <div className="mb-1 lg:mb-2">
+                        <motion.div
+                          animate={{
+                            opacity: [0.5, 1, 0.5],
+                          }}
+                          transition={{
+                            duration: 2,
+                            repeat: Infinity,
+                          }}
+                          className="text-violet-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded"
+                        >
+                          {backdoorSteps[currentStep]?.attackerAction}
+                        </motion.div>
+                      </div>
+                      <div className="text-blue-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded">
+                        {backdoorSteps[currentStep]?.cardResponse}
+                      </div>
+                    </div>
+
+                    {/* 反向數據流 */}
+                    <motion.div
+                      animate={{
+                        x: [0, -50, 0],
+                        opacity: [0.3, 1, 0.3],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                        delay: 1.5,
+                      }}
+                      className="absolute right-0 w-6 h-1 bg-gradient-to-l from-blue-500 to-cyan-500 rounded-full"
+                    />
+                  </div>
+
+                  {/* 目標卡片 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        boxShadow: currentStep >= 7 ? 
+                          ['0 0 0px rgba(99, 102, 241, 0.5)', '0 0 20px rgba(99, 102, 241, 0.8)', '0 0 0px rgba(99, 102, 241, 0.5)'] :
+                          ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
+                      }}
+                      transition={{ duration: 2, repeat: Infinity }}
+                      className={`w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b ${currentStep >= 7 ? 'from-indigo-500 to-indigo-700' : 'from-blue-500 to-blue-700'} rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center`}
+                    >
+                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">Mifare 卡片</p>
+                  </div>
+                </div>
+
+                {/* 漏洞說明 */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-indigo-900/20 border border-indigo-500/30 rounded-lg p-2 lg:p-4"
+                >
+                  <div className="flex items-center gap-1 lg:gap-2 mb-1 lg:mb-2">
+                    <Shield size={14} className="lg:w-4 lg:h-4 text-indigo-400" />
+                    <span className="text-indigo-400 font-semibold text-xs lg:text-sm">安全漏洞</span>
+                  </div>
+                  <p className="text-slate-300 text-xs lg:text-sm">
+                    {backdoorSteps[currentStep]?.vulnerability}
+                  </p>
+                </motion.div>
+              </div>
+
+              {/* 攻擊原理說明 - 移到主要動畫區域下方 */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-slate-900/30 border border-indigo-500/20 rounded-lg p-3 sm:p-4 lg:p-6"
+              >
+                <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 text-violet-400 flex items-center gap-2">
+                  <Shield size={16} className="lg:w-5 lg:h-5" />
+                  攻擊原理
+                </h3>
+                <div className="text-xs sm:text-sm text-slate-300 leading-relaxed">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={currentStep}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      {backdoorSteps[currentStep]?.details}
+                    </motion.div>
+                  </AnimatePresence>
+                </div>
+              </motion.div>
+            </motion.div>
+
+            {/* 實際攻擊模擬 */}
+            <BackdoorSimulator
+              target={target}
+              progress={progress}
+              isRunning={isRunning}
+              onTargetChange={changeTarget}
+              onRun={runAttack}
+            />
+
+            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
+                  disabled={currentStep === 0}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === 0
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-indigo-600 hover:bg-indigo-700 text-white"
+                  }`}
+                >
+                  <ArrowLeft size={16} />
+                  上一步
+                </button>
+                
+                <div className="text-center px-4">
+                  <div className="text-sm font-medium text-white">
+                    步驟 {currentStep + 1} / {backdoorSteps.length}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {backdoorSteps[currentStep]?.title}
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => goToStep(Math.min(backdoorSteps.length - 1, currentStep + 1))}
+                  disabled={currentStep === backdoorSteps.length - 1}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === backdoorSteps.length - 1
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-indigo-600 hover:bg-indigo-700 text-white"
+                  }`}
+                >
+                  下一步
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* 側邊欄 - 只在大螢幕顯示 */}
+          <div className="hidden lg:block space-y-3 lg:space-y-6">
+            {/* 步驟導航 */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 max-h-[calc(100vh-12rem)] flex flex-col"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 flex items-center gap-2 flex-shrink-0">
+                <Shield size={16} className="lg:w-5 lg:h-5 text-indigo-400" />
+                攻擊步驟
+              </h3>
+              <div className="space-y-1 lg:space-y-2 overflow-y-auto flex-1 pr-2 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
+                {backdoorSteps.map((step, index) => (
+                  <motion.button
+                    key={step.id}
+                    onClick={() => goToStep(index)}
+                    className={`w-full text-left p-2 lg:p-3 rounded-lg transition-all duration-300 touch-manipulation min-h-[44px] ${
+                      index === currentStep
+                        ? "bg-indigo-600/30 border border-indigo-500/50 text-white shadow-lg"
+                        : index < currentStep
+                        ? "bg-sky-900/30 text-sky-400"
+                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
+                    }`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <div className="flex items-center gap-2 lg:gap-3">
+                      <div className={`w-5 h-5 lg:w-6 lg:h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                        index === currentStep
+                          ? "bg-indigo-500 text-white"
+                          : index < currentStep
+                          ? "bg-sky-500 text-white"
+                          : "bg-slate-600 text-slate-400"
+                      }`}>
+                        {index + 1}
+                      </div>
+                      <div>
+                        <p className="font-medium text-xs sm:text-sm">{step.title}</p>
+                        <p className="text-xs opacity-75">{step.phase}</p>
+                      </div>
+                    </div>
+                  </motion.button>
+                ))}
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, Cpu, Gauge, RefreshCw, Square, Timer, KeyRound } from "lucide-react";
+import Link from "next/link";
+import { keyFromHex, keyToHex, mifareAuthenticate, toHex32 } from "@/lib/crypto1";
+import { AuthTrace, benchmarkKeysPerSecond, BruteForceProgress, SearchEngine, startBruteForce } from "@/lib/bruteforce";
+import { BITSLICE_LANES, compareWithReference } from "@/lib/crypto1Bitsliced";
+
+// 錄到的驗證：攻擊者已知金鑰高位（例如由其他攻擊縮小範圍），只需搜尋最低 bits 個位元
+interface BruteForceScenario {
+  key: number;
+  trace: AuthTrace;
+}
+
+const SEARCH_SIZES = [16, 32, 48];
+
+const ENGINES: { engine: SearchEngine; label: string }[] = [
+  { engine: 'reference', label: '參考實作' },
+  { engine: 'bitsliced', label: `Bitsliced（${BITSLICE_LANES} lanes）` },
+];
+
+type EngineBenchmark = Record<SearchEngine, number>;
+
+const randomWord = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+const createScenario = (): BruteForceScenario => {
+  const key = randomWord() * 0x10000 + (randomWord() & 0xFFFF);
+  const exchange = mifareAuthenticate({ uid: randomWord(), key, nT: randomWord(), nR: randomWord() });
+  return {
+    key,
+    trace: { uid: exchange.uid, nT: exchange.nT, nREnc: exchange.nREnc, aREnc: exchange.aREnc, aTEnc: exchange.aTEnc },
+  };
+};
+
+// 由攻擊頁帶入的驗證（?uid=&nt=&nr=&ar=&at=&key=）；金鑰用來決定搜尋範圍的高位
+const scenarioFromQuery = (params: URLSearchParams): BruteForceScenario | null => {
+  const words = ['uid', 'nt', 'nr', 'ar', 'at'].map(name => params.get(name) || '');
+  const key = params.get('key') || '';
+  if (!words.every(word => /^[0-9A-Fa-f]{8}$/.test(word)) || !/^[0-9A-Fa-f]{12}$/.test(key)) return null;
+  const [uid, nT, nREnc, aREnc, aTEnc] = words.map(word => parseInt(word, 16));
+  return { key: keyFromHex(key), trace: { uid, nT, nREnc, aREnc, aTEnc } };
+};
+
+const formatDuration = (seconds: number) => {
+  if (!isFinite(seconds)) return '—';
+  if (seconds < 1) return `${Math.round(seconds * 1000)} 毫秒`;
+  if (seconds < 60) return `${seconds.toFixed(1)} 秒`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} 分鐘`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)} 小時`;
+  if (seconds < 86400 * 365) return `${(seconds / 86400).toFixed(1)} 天`;
+  return `${Math.round(seconds / (86400 * 365)).toLocaleString()} 年`;
+};
+
+const formatRate = (keysPerSecond: number) =>
+  keysPerSecond >= 1e6 ? `${(keysPerSecond / 1e6).toFixed(2)} M keys/s` : `${Math.round(keysPerSecond / 1000).toLocaleString()} K keys/s`;
+
+// 搜尋範圍：金鑰高位保留，最低 bits 個位元從 0 開始列舉
+const searchStart = (key: number, bits: number) => key - (key % 2 ** bits);
+
+// 以 32 把隨機金鑰、一串隨機輸入比對兩種實作的 keystream
+const checkBitsliced = () => {
+  const keys = Array.from({ length: BITSLICE_LANES }, () => randomWord() * 0x10000 + (randomWord() & 0xFFFF));
+  const inputs = Array.from({ length: 8 }, (_, i) => ({ word: randomWord(), isEncrypted: i % 2 === 1 }));
+  return { words: keys.length * inputs.length, mismatches: compareWithReference(keys, inputs) };
+};
+
+const createWorker = () => new Worker(new URL("../../lib/bruteforce.worker.ts", import.meta.url));
+
+export default function BruteForcePage() {
+  const [scenario, setScenario] = useState<BruteForceScenario | null>(null);
+  const [bits, setBits] = useState(16);
+  const [maxWorkers, setMaxWorkers] = useState(4);
+  const [workerCount, setWorkerCount] = useState(4);
+  const [engine, setEngine] = useState<SearchEngine>('bitsliced');
+  const [benchmark, setBenchmark] = useState<EngineBenchmark | null>(null);
+  const [consistency, setConsistency] = useState<{ words: number; mismatches: number } | null>(null);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+  const [progress, setProgress] = useState<BruteForceProgress | null>(null);
+  const runner = useRef<{ cancel: () => void } | null>(null);
+
+  // 帶入或亂數產生的情境與 CPU 核心數只在瀏覽器端產生，避免 hydration 不一致
+  useEffect(() => {
+    const cores = navigator.hardwareConcurrency || 4;
+    setScenario(scenarioFromQuery(new URLSearchParams(window.location.search)) || createScenario());
+    setMaxWorkers(cores);
+    setWorkerCount(Math.max(1, cores - 1));
+    return () => runner.current?.cancel();
+  }, []);
+
+  const isRunning = progress?.status === 'running';
+
+  const runBenchmark = () => {
+    if (!scenario) return;
+    setIsBenchmarking(true);
+    // 讓按鈕狀態先畫出來再佔用主執行緒
+    setTimeout(() => {
+      setConsistency(checkBitsliced());
+      setBenchmark({
+        reference: benchmarkKeysPerSecond(scenario.trace, 'reference', 1000),
+        bitsliced: benchmarkKeysPerSecond(scenario.trace, 'bitsliced', 1000),
+      });
+      setIsBenchmarking(false);
+    }, 50);
+  };
+
+  const runSearch = () => {
+    if (!scenario) return;
+    setProgress({ checked: 0, total: 2 ** bits, keysPerSecond: 0, elapsed: 0, eta: Infinity, key: null, status: 'running', error: null });
+    runner.current = startBruteForce(
+      scenario.trace, searchStart(scenario.key, bits), 2 ** bits, engine, workerCount, createWorker, setProgress
+    );
+  };
+
+  const cancelSearch = () => {
+    runner.current?.cancel();
+    runner.current = null;
+  };
+
+  const newScenario = () => {
+    setScenario(createScenario());
+    setProgress(null);
+  };
+
+  const expectedRate = benchmark !== null ? benchmark[engine] * workerCount : null;
+  const percent = progress ? (progress.checked / progress.total) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-3 sm:gap-4 mb-6 sm:mb-8"
+        >
+          <motion.div
+            whileHover={{ scale: 1.1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <Link href="/" className="text-sky-400 hover:text-sky-300 transition-colors flex-shrink-0">
+              <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+            </Link>
+          </motion.div>
+          <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-sky-400 to-cyan-400 bg-clip-text text-transparent">
+            Brute Force
+          </h1>
+        </motion.div>
+
+        <div className="grid lg:grid-cols-3 gap-4 sm:gap-6">
+          {/* 說明與錄到的驗證 */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6"
+          >
+            <h3 className="text-base sm:text-lg font-bold mb-3 text-sky-400 flex items-center gap-2">
+              <KeyRound size={16} className="lg:w-5 lg:h-5" />
+              錄到的驗證
+            </h3>
+            <p className="text-xs sm:text-sm text-slate-300 mb-4 leading-relaxed">
+              每把候選金鑰都以 Crypto-1 重播一次驗證：UID ⊕ nT 移入 LFSR、以 {'{nR}'} 回饋，
+              產生的 keystream 與 {'{aR}'}、{'{aT}'} 都吻合才是正確金鑰。各種攻擊的最後一步，
+              都是把金鑰空間縮小到這樣的搜尋跑得完的程度。
+            </p>
+            {scenario && (
+              <div className="space-y-1 font-mono text-xs">
+                {([
+                  ['UID', toHex32(scenario.trace.uid)],
+                  ['nT', toHex32(scenario.trace.nT)],
+                  ['{nR}', toHex32(scenario.trace.nREnc)],
+                  ['{aR}', toHex32(scenario.trace.aREnc)],
+                  ['{aT}', toHex32(scenario.trace.aTEnc)],
+                ] as const).map(([label, value]) => (
+                  <div key={label} className="flex justify-between bg-slate-900/50 rounded px-2 py-1">
+                    <span className="text-slate-400">{label}</span>
+                    <span className="text-white">{value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={newScenario}
+              disabled={isRunning}
+              className="mt-4 flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw size={14} />
+              換一筆驗證
+            </button>
+          </motion.div>
+
+          {/* 效能量測與預估時間 */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="lg:col-span-2 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6"
+          >
+            <h3 className="text-base sm:text-lg font-bold mb-3 text-sky-400 flex items-center gap-2">
+              <Gauge size={16} className="lg:w-5 lg:h-5" />
+              效能量測
+            </h3>
+            <div className="flex flex-wrap items-end gap-3 text-xs mb-4">
+              <label>
+                <div className="text-slate-400 mb-1">Worker 數量（CPU 核心 {maxWorkers}）</div>
+                <input
+                  type="number"
+                  min={1}
+                  max={maxWorkers * 2}
+                  value={workerCount}
+                  disabled={isRunning}
+                  onChange={(e) => setWorkerCount(Math.max(1, Math.min(maxWorkers * 2, Number(e.target.value) || 1)))}
+                  className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white"
+                />
+              </label>
+              <button
+                onClick={runBenchmark}
+                disabled={isBenchmarking || isRunning || !scenario}
+                className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+                  isBenchmarking || isRunning ? 'bg-slate-700/50 text-slate-500 cursor-not-allowed' : 'bg-sky-600 hover:bg-sky-700 text-white'
+                }`}
+              >
+                {isBenchmarking ? '量測中...' : '量測單核速度'}
+              </button>
+              <div className="flex gap-1">
+                {ENGINES.map(option => (
+                  <button
+                    key={option.engine}
+                    disabled={isRunning}
+                    onClick={() => setEngine(option.engine)}
+                    className={`px-3 py-1.5 rounded transition-colors ${
+                      engine === option.engine ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {benchmark !== null && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs mb-4">
+                {ENGINES.map(option => (
+                  <div key={option.engine} className={`bg-slate-900/50 rounded p-2 ${engine === option.engine ? 'ring-1 ring-sky-500' : ''}`}>
+                    <div className="text-slate-400">{option.label}</div>
+                    <div className="font-mono text-white text-sm">{formatRate(benchmark[option.engine])}</div>
+                    <div className="text-slate-500 font-mono">× {workerCount} ≈ {formatRate(benchmark[option.engine] * workerCount)}</div>
+                  </div>
+                ))}
+                <div className="bg-slate-900/50 rounded p-2">
+                  <div className="text-slate-400">加速倍數</div>
+                  <div className="font-mono text-sky-300 text-sm">{(benchmark.bitsliced / benchmark.reference).toFixed(1)}×</div>
+                  {consistency && (
+                    <div className={`font-mono ${consistency.mismatches === 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {consistency.mismatches === 0
+                        ? `${consistency.words} 個 keystream word 與參考實作一致 ✓`
+                        : `${consistency.mismatches}/${consistency.words} 個 keystream word 不一致`}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-slate-400 text-left border-b border-slate-700">
+                    <th className="py-1 pr-3">搜尋空間</th>
+                    <th className="py-1 pr-3">金鑰數</th>
+                    <th className="py-1 pr-3">平均（找到一半時）</th>
+                    <th className="py-1">最差（搜完整個空間）</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SEARCH_SIZES.map(size => (
+                    <tr key={size} className={`border-b border-slate-800 ${size === bits ? 'text-sky-300' : 'text-slate-200'}`}>
+                      <td className="py-1 pr-3">2^{size}</td>
+                      <td className="py-1 pr-3">{(2 ** size).toLocaleString()}</td>
+                      <td className="py-1 pr-3">{expectedRate ? formatDuration(2 ** size / 2 / expectedRate) : '—'}</td>
+                      <td className="py-1">{expectedRate ? formatDuration(2 ** size / expectedRate) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </motion.div>
+
+          {/* 實際搜尋 */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="lg:col-span-3 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6"
+          >
+            <h3 className="text-base sm:text-lg font-bold mb-3 text-sky-400 flex items-center gap-2">
+              <Cpu size={16} className="lg:w-5 lg:h-5" />
+              平行搜尋
+            </h3>
+            <div className="flex flex-wrap items-end gap-3 text-xs mb-4">
+              <div>
+                <div className="text-slate-400 mb-1">未知位元數</div>
+                <div className="flex gap-1">
+                  {SEARCH_SIZES.map(size => (
+                    <button
+                      key={size}
+                      disabled={isRunning}
+                      onClick={() => { setBits(size); setProgress(null); }}
+                      className={`px-3 py-1.5 rounded font-mono transition-colors ${
+                        bits === size ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      2^{size}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {scenario && (
+                <div className="font-mono text-slate-400">
+                  範圍 {keyToHex(searchStart(scenario.key, bits))} – {keyToHex(searchStart(scenario.key, bits) + 2 ** bits - 1)}
+                </div>
+              )}
+              {isRunning ? (
+                <button
+                  onClick={cancelSearch}
+                  className="flex items-center gap-1 px-4 py-1.5 rounded-lg text-sm bg-red-600 hover:bg-red-700 text-white transition-colors"
+                >
+                  <Square size={14} />
+                  取消
+                </button>
+              ) : (
+                <button
+                  onClick={runSearch}
+                  disabled={!scenario}
+                  className="px-4 py-1.5 rounded-lg text-sm bg-sky-600 hover:bg-sky-700 text-white transition-colors"
+                >
+                  ▶ 開始搜尋
+                </button>
+              )}
+            </div>
+
+            {progress && (
+              <div className="space-y-3 text-xs">
+                <div className="h-3 bg-slate-900 rounded-full overflow-hidden">
+                  <motion.div
+                    className={`h-full ${progress.status === 'found' ? 'bg-green-500'
+                      : progress.status === 'error' ? 'bg-red-500'
+                      : progress.status === 'cancelled' ? 'bg-slate-500' : 'bg-sky-500'}`}
+                    animate={{ width: `${Math.max(percent, 0.5)}%` }}
+                    transition={{ duration: 0.2 }}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">已檢查</div>
+                    <div className="font-mono text-white text-sm">{progress.checked.toLocaleString()}</div>
+                    <div className="text-slate-500">{percent < 0.01 && percent > 0 ? '< 0.01' : percent.toFixed(2)}%</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">速度</div>
+                    <div className="font-mono text-white text-sm">{progress.keysPerSecond ? formatRate(progress.keysPerSecond) : '—'}</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400 flex items-center gap-1"><Timer size={12} />經過時間</div>
+                    <div className="font-mono text-white text-sm">{formatDuration(progress.elapsed)}</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">剩餘時間（最差）</div>
+                    <div className="font-mono text-white text-sm">{progress.status === 'running' ? formatDuration(progress.eta) : '—'}</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">結果</div>
+                    <div className={`font-mono text-sm ${
+                      progress.key !== null ? 'text-green-300' : progress.status === 'error' ? 'text-red-400' : 'text-slate-500'
+                    }`}>
+                      {progress.status === 'found' && progress.key !== null && `${keyToHex(progress.key)} ${scenario && progress.key === scenario.key ? '✓' : ''}`}
+                      {progress.status === 'running' && '搜尋中...'}
+                      {progress.status === 'cancelled' && '已取消'}
+                      {progress.status === 'exhausted' && '找不到金鑰'}
+                      {progress.status === 'error' && `搜尋失敗：${progress.error}`}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
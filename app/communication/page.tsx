@@ -1,9 +1,12 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw } from "lucide-react";
 import Link from "next/link";
+import { CARD_MODELS, CARD_TYPES, CardModel, CardType, cryptoUid, DEMO_UIDS, UID_SIZES, uidAtqa, UidSize } from "@/lib/cardLayout";
+import { appendCrcA, buildAuthCommand, buildSelectFrames, bytesToHex, CASCADE_TAG, CascadeLevelFrames, checkCrcA, formatTraceData, MIFARE_CMD, parityMismatch, plainFrame, SAK_UID_INCOMPLETE, WireFrame } from "@/lib/iso14443a";
+import { crypto1AuthenticatedState, crypto1EncryptFrame, keyToHex, mifareAuthenticate, toHex32, wordBytes } from "@/lib/crypto1";
 
 interface Step {
   id: number;
@@ -12,109 +15,332 @@ interface Step {
   data?: string;
   dataDirection: 'reader-to-card' | 'card-to-reader' | 'both' | 'none';
   details: string;
+  frames?: WireFrame[];
 }
 
-const communicationSteps: Step[] = [
-  {
-    id: 1,
-    title: "RF 場域建立",
-    description: "讀卡機建立 13.56 MHz 載波信號，為無源卡片提供電力",
-    dataDirection: 'none',
-    details: "讀卡機的 RF 發射器產生連續的 13.56 MHz 載波信號。卡片內的 LC 共振電路在此頻率下達到最佳能量傳輸效率，為卡片提供足夠的工作電壓（通常 3.3V）。",
-  },
-  {
-    id: 2,
-    title: "REQA 廣播",
-    description: "讀卡機廣播 REQA 命令，尋找場域內的 Type A 卡片。對應 Proxmark3 中的 iso14443a_select_card() 函數",
-    data: "REQA: 0x26",
-    dataDirection: 'reader-to-card',
-    details: "REQA (REQuest Type A) 是 ISO 14443-3 定義的喚醒命令。使用 Modified Miller 編碼，僅 7 位元，不含 CRC。在 Proxmark3 中，WUPA_POLLING_PARAMETERS 或 REQA_POLLING_PARAMETERS 控制此命令的發送時序。只有處於 IDLE 狀態的 Type A 卡片會回應此命令。",
-  },
-  {
-    id: 3,
-    title: "ATQA 回應",
-    description: "卡片回應 ATQA，告知讀卡機自身的基本特性。Proxmark3 解析此數據判斷 UID 長度和卡片類型",
-    data: "ATQA: 0x0004",
-    dataDirection: 'card-to-reader',
-    details: "ATQA (Answer To request Type A) 包含關鍵信息：bit 6-8 指示 UID 長度（00=4 bytes），bit 0-4 指示 Bit Frame Anticollision 支援。0x0004 表示 4-byte UID 且支援 ISO 14443-4。在 Proxmark3 中，iso14a_card_select_t 結構體存儲此信息用於後續處理。使用 Manchester 編碼傳輸。",
-  },
-  {
-    id: 4,
-    title: "防碰撞初始化",
-    description: "讀卡機啟動防碰撞程序，對應 Proxmark3 的 cascade level 處理邏輯",
-    data: "SELECT: 0x93 0x20",
-    dataDirection: 'reader-to-card',
-    details: "SELECT 命令啟動 Cascade Level 1 的防碰撞程序。0x93 表示 SEL_CL1，0x20 表示 NVB (Number of Valid Bits) = 2 bytes。Proxmark3 在 iso14443a_select_card() 中會根據 ATQA 決定需要多少個 cascade levels（4-byte UID 需要 1 個，7-byte 需要 2 個，10-byte 需要 3 個）。",
-  },
-  {
-    id: 5,
-    title: "UID 傳輸與碰撞檢測",
-    description: "所有卡片同時傳送 UID，讀卡機使用 Proxmark3 的碰撞檢測算法進行處理",
-    data: "UID: 4 bytes + BCC",
-    dataDirection: 'card-to-reader',
-    details: "多張卡片同時回應時會在 UID 不同的位置產生碰撞。Proxmark3 通過檢測波形異常來識別碰撞位置，然後逐步指定該位的值 (0 或 1)，只有符合的卡片繼續回應。BCC (Block Check Character) = UID[0]⊕UID[1]⊕UID[2]⊕UID[3]，Proxmark3 會驗證此校驗位的正確性。",
-  },
-  {
-    id: 6,
-    title: "卡片選取",
-    description: "讀卡機選取特定卡片，在 Proxmark3 中通過 iso14443a_fast_select_card() 實現",
-    data: "SELECT: 0x93 0x70 + UID + CRC",
-    dataDirection: 'reader-to-card',
-    details: "SELECT 命令包含 NVB=0x70 (表示傳送完整的 40 位 UID+BCC)、4-byte UID 和 2-byte CRC-A。Proxmark3 會計算並附加 CRC-A 校驗碼，只有 UID 完全匹配且 CRC 正確的卡片會進入 ACTIVE 狀態並回應。此時 CUID (Card UID) 被確定並存儲。",
-  },
-  {
-    id: 7,
-    title: "SAK 確認",
-    description: "被選中的卡片回應 SAK，Proxmark3 根據 SAK 值識別具體的卡片類型和能力",
-    data: "SAK: 0x08",
-    dataDirection: 'card-to-reader',
-    details: "SAK (Select AcKnowledge) 的各位有特定含義：bit 2=0 表示 UID 完整，bit 3=0 表示非 ISO 14443-4 相容（MIFARE Classic）。SAK=0x08 特指 MIFARE Classic 1K，0x18 為 4K，0x88 為 Plus。Proxmark3 的 GetHF14AMfU_Type() 函數根據 SAK 值精確識別卡片型號。卡片現在處於 ACTIVE 狀態，可接受 MIFARE 特定命令如認證 (0x60/0x61)。",
-  },
-  {
-    id: 8,
-    title: "MIFARE Classic 認證",
-    description: "使用 Crypto-1 算法進行扇區認證，對應 Proxmark3 的 mf_auth() 函數實作",
-    data: "AUTH: 0x60 + Block + Key A",
-    dataDirection: 'reader-to-card',
-    details: "認證命令格式：0x60 (Key A) 或 0x61 (Key B) + Block Number + CRC-A。Proxmark3 在 mifarecmd.c 中實作，使用 4-byte 隨機數 nT 和 4-byte nR 進行三次握手。Crypto-1 LFSR 狀態由卡片 UID、Key 和兩個隨機數確定。此時讀卡機和卡片共同計算 {aR} = ks1 ⊕ aR，建立加密通道。",
-  },
-  {
-    id: 9,
-    title: "隨機數交換與密鑰驗證",
-    description: "雙方交換隨機數並驗證密鑰，Proxmark3 通過 crypto1_word() 實作位元流加密",
-    data: "nT ↔ {nR, aR} ↔ {aT}",
-    dataDirection: 'both',
-    details: "卡片先發送 32-bit 明文隨機數 nT。讀卡機計算 Crypto-1 密鑰流，發送加密的 {nR, aR}，其中 nR 是 32-bit 隨機數，aR=suc2(nT) 是認證回應。卡片驗證 aR 正確性後發送 {aT=suc3(nT)}。Proxmark3 的 crypto1_create() 函數使用 48-bit 密鑰初始化 LFSR，整個過程在 ARM 韌體 mifarecmd.c 中約 200 行程式碼實作。",
-  },
-  {
-    id: 10,
-    title: "加密通道建立",
-    description: "認證成功後，所有後續通訊都使用 Crypto-1 加密，Proxmark3 維護 LFSR 狀態",
-    data: "Encrypted Channel Established",
-    dataDirection: 'both',
-    details: "認證成功後，Crypto-1 密鑰流生成器進入工作狀態。每個位元都通過 ks=lfsr_rollback_bit(s,in,fb) 計算，其中 s 是 48-bit LFSR 狀態。Proxmark3 中的 crypto1_bit() 函數處理逐位元加解密。此時可執行讀取 (0x30)、寫入 (0xA0)、增值 (0xC0) 等命令。LFSR 狀態必須與卡片同步，任何通訊錯誤都需要重新認證。",
-  },
-  {
-    id: 11,
-    title: "資料讀取操作",
-    description: "對已認證的塊進行讀取，Proxmark3 使用 iso14443a_fast_select_card() 最佳化連續操作",
-    data: "READ: 0x30 + Block",
-    dataDirection: 'reader-to-card',
-    details: "讀取命令由 0x30 + Block Number (1 byte) + CRC-A 組成。卡片回應 16 bytes 資料 + 2 bytes CRC-A，全部經過 Crypto-1 加密。Proxmark3 的 MifareReadBlock() 函數實作此功能，支援 pipeline 模式以提高效率。讀取會檢查存取控制位元 (Access bits)，確認當前密鑰是否有讀取權限。錯誤的權限設定會導致認證失效並需要重新開始。",
-  },
-  {
-    id: 12,
-    title: "通訊結束",
-    description: "關閉射頻場域或切換到其他卡片，Proxmark3 使用 FpgaWriteConfWord() 控制",
-    data: "RF Field OFF",
-    dataDirection: 'none',
-    details: "讀卡機關閉 13.56 MHz 載波，所有卡片返回 POWER-OFF 狀態。在 Proxmark3 中，FpgaWriteConfWord(FPGA_MAJOR_MODE_OFF) 關閉 RF 場域。替代方法是發送 HLTA (0x50 0x00 + CRC) 命令讓卡片進入 HALT 狀態，此時卡片只對 WUPA (0x52) 回應，不回應 REQA。場域關閉至少 5ms 後重新開啟，所有卡片會重新進入 IDLE 狀態等待下次選取過程。",
-  }
-];
+// 畫面上示範的卡片與驗證參數（與相互驗證頁的預設值一致）
+interface DemoCard {
+  uid: number[];
+  atqa: number;
+  sak: number;
+}
+
+const DEMO_AUTH = {
+  key: 0xFFFFFFFFFFFF,
+  block: 4,
+  nT: 0x94B2F715,
+  nR: 0xA1B2C3D4,
+};
+
+// 以實際計算的位元組組出每個步驟在線上傳輸的框架
+const buildCommunicationFrames = (card: DemoCard) => {
+  const select = buildSelectFrames(card.uid, card.atqa, card.sak);
+  const authParams = { uid: cryptoUid(card.uid), key: DEMO_AUTH.key, nT: DEMO_AUTH.nT, nR: DEMO_AUTH.nR };
+  const ex = mifareAuthenticate(authParams);
+
+  const auth = plainFrame('reader', buildAuthCommand('A', DEMO_AUTH.block), 'AUTH-A');
+  const nT = plainFrame('card', wordBytes(ex.nT), 'nT');
+  const readerResponse: WireFrame = {
+    source: 'reader',
+    bytes: [...wordBytes(ex.nREnc), ...wordBytes(ex.aREnc)],
+    parity: ex.readerParity,
+    encrypted: true,
+    annotation: '{nR}{aR}'
+  };
+  const cardResponse: WireFrame = {
+    source: 'card',
+    bytes: wordBytes(ex.aTEnc),
+    parity: ex.cardParity,
+    encrypted: true,
+    annotation: '{aT}'
+  };
+
+  // 驗證後的 READ 命令與卡片回應（區塊內容假設為全 0）皆經 Crypto-1 加密
+  const state = crypto1AuthenticatedState(authParams);
+  const readPlain = appendCrcA([MIFARE_CMD.READ, DEMO_AUTH.block]);
+  const readEnc = crypto1EncryptFrame(state, readPlain);
+  const blockPlain = appendCrcA(new Array(16).fill(0));
+  const blockEnc = crypto1EncryptFrame(state, blockPlain);
+  const read: WireFrame = {
+    source: 'reader',
+    bytes: readEnc.data,
+    parity: readEnc.parity,
+    encrypted: true,
+    annotation: `READ(${DEMO_AUTH.block})`
+  };
+  const readResponse: WireFrame = {
+    source: 'card',
+    bytes: blockEnc.data,
+    parity: blockEnc.parity,
+    encrypted: true,
+    annotation: 'DATA'
+  };
+
+  return {
+    select,
+    auth,
+    nT,
+    readerResponse,
+    cardResponse,
+    read,
+    readResponse,
+    readPlain,
+    blockPlain,
+    exchange: ex,
+  };
+};
+
+// 每個 cascade level 的防碰撞、UID、SELECT 與 SAK 四個步驟；只有最後一層的 SAK 是卡片真正的 SAK
+const buildCascadeSteps = (card: DemoCard, model: CardModel, cascade: CascadeLevelFrames, levels: number): Omit<Step, 'id'>[] => {
+  const { level } = cascade;
+  const last = level === levels;
+  const suffix = levels > 1 ? ` (CL${level})` : '';
+  const bccText = `此例 BCC = ${cascade.uidBytes.map(b => bytesToHex([b])).join(' ⊕ ')} = ${bytesToHex([cascade.bcc])}。`;
+  const sakTable = CARD_TYPES.map(type => `0x${bytesToHex([CARD_MODELS[type].sak])} 為 ${CARD_MODELS[type].name}`).join('、');
+
+  return [
+    level === 1 ? {
+      title: `防碰撞初始化${suffix}`,
+      description: "讀卡機啟動防碰撞程序，對應 Proxmark3 的 cascade level 處理邏輯",
+      data: `SELECT: ${bytesToHex(cascade.anticollision.bytes)}`,
+      dataDirection: 'reader-to-card',
+      details: "SELECT 命令啟動 Cascade Level 1 的防碰撞程序。0x93 表示 SEL_CL1，0x20 表示 NVB (Number of Valid Bits) = 2 bytes。Proxmark3 在 iso14443a_select_card() 中會根據 ATQA 決定需要多少個 cascade levels（4-byte UID 需要 1 個，7-byte 需要 2 個，10-byte 需要 3 個）。" +
+        (levels > 1 ? `\n\n此卡 UID 為 ${card.uid.length} bytes，需要 ${levels} 個 cascade level。` : ''),
+      frames: [cascade.anticollision],
+    } : {
+      title: `防碰撞初始化${suffix}`,
+      description: `上一層的 SAK 表示 UID 尚未完整，讀卡機以 SEL_CL${level} 進入下一個 cascade level`,
+      data: `SELECT: ${bytesToHex(cascade.anticollision.bytes)}`,
+      dataDirection: 'reader-to-card',
+      details: `0x${bytesToHex([cascade.anticollision.bytes[0]])} 表示 SEL_CL${level}，NVB 同樣為 0x20。第 ${level} 層的防碰撞流程與第一層相同，只有命令碼不同；只有在上一層被選中的卡片會回應。`,
+      frames: [cascade.anticollision],
+    },
+    {
+      title: `UID 傳輸與碰撞檢測${suffix}`,
+      description: "所有卡片同時傳送 UID，讀卡機使用 Proxmark3 的碰撞檢測算法進行處理",
+      data: last
+        ? `UID: ${bytesToHex(cascade.uidBytes)} + BCC ${bytesToHex([cascade.bcc])}`
+        : `CT: ${bytesToHex([CASCADE_TAG])} + UID: ${bytesToHex(cascade.uidBytes.slice(1))} + BCC ${bytesToHex([cascade.bcc])}`,
+      dataDirection: 'card-to-reader',
+      details: levels === 1
+        ? `多張卡片同時回應時會在 UID 不同的位置產生碰撞。Proxmark3 通過檢測波形異常來識別碰撞位置，然後逐步指定該位的值 (0 或 1)，只有符合的卡片繼續回應。BCC (Block Check Character) = UID[0]⊕UID[1]⊕UID[2]⊕UID[3]，Proxmark3 會驗證此校驗位的正確性。\n\n${bccText}`
+        : `多張卡片同時回應時會在 UID 不同的位置產生碰撞，碰撞處理方式與 4-byte UID 相同。BCC (Block Check Character) 是這一層 4 個位元組的 XOR。` +
+          (last
+            ? `這是最後一層，帶著 UID 剩下的 4 個位元組。`
+            : `UID 超過 4 bytes 時，這一層以 Cascade Tag 0x88 開頭，只帶 UID 的 3 個位元組，其餘留到下一個 cascade level。`) +
+          `\n\n${bccText}`,
+      frames: [cascade.uid],
+    },
+    {
+      title: `卡片選取${suffix}`,
+      description: "讀卡機選取特定卡片，在 Proxmark3 中通過 iso14443a_fast_select_card() 實現",
+      data: `SELECT: ${bytesToHex(cascade.select.bytes)}`,
+      dataDirection: 'reader-to-card',
+      details: (levels === 1
+        ? `SELECT 命令包含 NVB=0x70 (表示傳送完整的 40 位 UID+BCC)、4-byte UID 和 2-byte CRC-A。Proxmark3 會計算並附加 CRC-A 校驗碼，只有 UID 完全匹配且 CRC 正確的卡片會進入 ACTIVE 狀態並回應。此時 CUID (Card UID) 被確定並存儲。`
+        : last
+          ? `SELECT 命令包含 NVB=0x70、UID 的最後 4 個位元組、BCC 和 2-byte CRC-A。UID 到此全部傳完，位元組完全匹配的卡片進入 ACTIVE 狀態並回應 SAK。`
+          : `SELECT 命令包含 NVB=0x70、CT 與 3 個 UID 位元組、BCC 和 2-byte CRC-A。卡片確認這一層相符後回應 SAK，但 UID 尚未傳完，還不會進入 ACTIVE 狀態。`) +
+        `\n\n此例 CRC-A = ${bytesToHex(cascade.select.bytes.slice(-2))}（低位元組先傳送）。`,
+      frames: [cascade.select],
+    },
+    last ? {
+      title: `SAK 確認${suffix}`,
+      description: "被選中的卡片回應 SAK，Proxmark3 根據 SAK 值識別具體的卡片類型和能力",
+      data: `SAK: ${bytesToHex(cascade.sak.bytes)}`,
+      dataDirection: 'card-to-reader',
+      details: `SAK (Select AcKnowledge) 的各位有特定含義：bit 2=0 表示 UID 完整，bit 3=0 表示非 ISO 14443-4 相容（MIFARE Classic）。${sakTable}，0x88 為 Plus。Proxmark3 的 GetHF14AMfU_Type() 函數根據 SAK 值精確識別卡片型號。\n\n此卡 SAK=0x${bytesToHex([model.sak])}，讀卡機據此判斷為 ${model.name}：${model.sectors} 個扇區、${model.blocks} 個區塊（${model.blocks * 16} bytes）。卡片現在處於 ACTIVE 狀態，可接受 MIFARE 特定命令如認證 (0x60/0x61)。SAK 框架同樣附加 CRC-A，因此線上為 ${bytesToHex(cascade.sak.bytes)}。` +
+        (levels > 1 ? `\n\n${card.uid.length}-byte UID 的卡片在驗證時，Crypto-1 只使用最後一層的 4 個 UID 位元組 ${bytesToHex(cascade.uidBytes)}。` : ''),
+      frames: [cascade.sak],
+    } : {
+      title: `SAK 確認${suffix}`,
+      description: "卡片以 SAK 的 cascade bit 告知 UID 尚未完整",
+      data: `SAK: ${bytesToHex(cascade.sak.bytes)}`,
+      dataDirection: 'card-to-reader',
+      details: `SAK=0x${bytesToHex([SAK_UID_INCOMPLETE])}：bit 2=1 表示 UID 尚未完整，讀卡機必須以 SEL_CL${level + 1} 繼續下一層防碰撞。Proxmark3 的 iso14443a_select_card() 依此位元決定是否進入下一個 cascade level。線上為 ${bytesToHex(cascade.sak.bytes)}。`,
+      frames: [cascade.sak],
+    },
+  ];
+};
+
+// 步驟內容依卡型與 UID 長度產生：ATQA、cascade level、SAK 與線上位元組隨之改變
+const buildCommunicationSteps = (model: CardModel, uidSize: UidSize): Step[] => {
+  const card = { uid: DEMO_UIDS[uidSize], atqa: uidAtqa(model, uidSize), sak: model.sak };
+  const wire = buildCommunicationFrames(card);
+  const atqaHex = bytesToHex([card.atqa >> 8, card.atqa & 0xFF], '');
+  const cascadeSteps = wire.select.cascades.flatMap(cascade => buildCascadeSteps(card, model, cascade, wire.select.cascades.length));
+  const steps: Omit<Step, 'id'>[] = [
+    {
+      title: "RF 場域建立",
+      description: "讀卡機建立 13.56 MHz 載波信號，為無源卡片提供電力",
+      dataDirection: 'none',
+      details: "讀卡機的 RF 發射器產生連續的 13.56 MHz 載波信號。卡片內的 LC 共振電路在此頻率下達到最佳能量傳輸效率，為卡片提供足夠的工作電壓（通常 3.3V）。",
+    },
+    {
+      title: "REQA 廣播",
+      description: "讀卡機廣播 REQA 命令，尋找場域內的 Type A 卡片。對應 Proxmark3 中的 iso14443a_select_card() 函數",
+      data: "REQA: 26 (7 bits)",
+      dataDirection: 'reader-to-card',
+      details: "REQA (REQuest Type A) 是 ISO 14443-3 定義的喚醒命令。使用 Modified Miller 編碼，僅 7 位元，不含 CRC。在 Proxmark3 中，WUPA_POLLING_PARAMETERS 或 REQA_POLLING_PARAMETERS 控制此命令的發送時序。只有處於 IDLE 狀態的 Type A 卡片會回應此命令。",
+      frames: [wire.select.reqa],
+    },
+    {
+      title: "ATQA 回應",
+      description: "卡片回應 ATQA，告知讀卡機自身的基本特性。Proxmark3 解析此數據判斷 UID 長度和卡片類型",
+      data: `ATQA: ${bytesToHex(wire.select.atqa.bytes)}`,
+      dataDirection: 'card-to-reader',
+      details: `ATQA (Answer To request Type A) 包含關鍵信息：bit 6-8 指示 UID 長度（00=4 bytes），bit 0-4 指示 Bit Frame Anticollision 支援。此例 ATQA 為 0x${atqaHex}，UID 長度位元為 ${(card.atqa >> 6 & 3).toString(2).padStart(2, '0')}，表示 ${uidSize}-byte UID。在 Proxmark3 中，iso14a_card_select_t 結構體存儲此信息用於後續處理。使用 Manchester 編碼傳輸。ATQA 以低位元組先傳送，因此 0x${atqaHex} 在線上為 ${bytesToHex(wire.select.atqa.bytes)}。`,
+      frames: [wire.select.atqa],
+    },
+    ...cascadeSteps,
+    {
+      title: "MIFARE Classic 認證",
+      description: "使用 Crypto-1 算法進行扇區認證，對應 Proxmark3 的 mf_auth() 函數實作",
+      data: `AUTH: ${bytesToHex(wire.auth.bytes)}`,
+      dataDirection: 'reader-to-card',
+      details: "認證命令格式：0x60 (Key A) 或 0x61 (Key B) + Block Number + CRC-A。Proxmark3 在 mifarecmd.c 中實作，使用 4-byte 隨機數 nT 和 4-byte nR 進行三次握手。Crypto-1 LFSR 狀態由卡片 UID、Key 和兩個隨機數確定。此時讀卡機和卡片共同計算 {aR} = ks1 ⊕ aR，建立加密通道。",
+      frames: [wire.auth],
+    },
+    {
+      title: "隨機數交換與密鑰驗證",
+      description: "雙方交換隨機數並驗證密鑰，Proxmark3 通過 crypto1_word() 實作位元流加密",
+      data: `nT ${toHex32(wire.exchange.nT)} ↔ {nR, aR} ↔ {aT}`,
+      dataDirection: 'both',
+      details: "卡片先發送 32-bit 明文隨機數 nT。讀卡機計算 Crypto-1 密鑰流，發送加密的 {nR, aR}，其中 nR 是 32-bit 隨機數，aR=suc2(nT) 是認證回應。卡片驗證 aR 正確性後發送 {aT=suc3(nT)}。Proxmark3 的 crypto1_create() 函數使用 48-bit 密鑰初始化 LFSR，整個過程在 ARM 韌體 mifarecmd.c 中約 200 行程式碼實作。\n\n加密框架的同位位元也經過加密（與下一個 keystream 位元 XOR），因此與密文位元組的奇同位不一定相符，trace list 以 ! 標示。",
+      frames: [wire.nT, wire.readerResponse, wire.cardResponse],
+    },
+    {
+      title: "加密通道建立",
+      description: "認證成功後，所有後續通訊都使用 Crypto-1 加密，Proxmark3 維護 LFSR 狀態",
+      data: "Encrypted Channel Established",
+      dataDirection: 'both',
+      details: "認證成功後，Crypto-1 密鑰流生成器進入工作狀態。每個位元都通過 ks=lfsr_rollback_bit(s,in,fb) 計算，其中 s 是 48-bit LFSR 狀態。Proxmark3 中的 crypto1_bit() 函數處理逐位元加解密。此時可執行讀取 (0x30)、寫入 (0xA0)、增值 (0xC0) 等命令。LFSR 狀態必須與卡片同步，任何通訊錯誤都需要重新認證。",
+    },
+    {
+      title: "資料讀取操作",
+      description: "對已認證的塊進行讀取，Proxmark3 使用 iso14443a_fast_select_card() 最佳化連續操作",
+      data: `READ: ${bytesToHex(wire.readPlain)} (明文)`,
+      dataDirection: 'reader-to-card',
+      details: `讀取命令由 0x30 + Block Number (1 byte) + CRC-A 組成。卡片回應 16 bytes 資料 + 2 bytes CRC-A，全部經過 Crypto-1 加密。Proxmark3 的 MifareReadBlock() 函數實作此功能，支援 pipeline 模式以提高效率。讀取會檢查存取控制位元 (Access bits)，確認當前密鑰是否有讀取權限。錯誤的權限設定會導致認證失效並需要重新開始。\n\n線上看到的是加密後的位元組：明文 ${bytesToHex(wire.readPlain)} 與卡片回應 ${bytesToHex(wire.blockPlain)} 皆已與 keystream XOR。`,
+      frames: [wire.read, wire.readResponse],
+    },
+    {
+      title: "通訊結束",
+      description: "關閉射頻場域或切換到其他卡片，Proxmark3 使用 FpgaWriteConfWord() 控制",
+      data: "RF Field OFF",
+      dataDirection: 'none',
+      details: "讀卡機關閉 13.56 MHz 載波，所有卡片返回 POWER-OFF 狀態。在 Proxmark3 中，FpgaWriteConfWord(FPGA_MAJOR_MODE_OFF) 關閉 RF 場域。替代方法是發送 HLTA (0x50 0x00 + CRC) 命令讓卡片進入 HALT 狀態，此時卡片只對 WUPA (0x52) 回應，不回應 REQA。場域關閉至少 5ms 後重新開啟，所有卡片會重新進入 IDLE 狀態等待下次選取過程。",
+    }
+  ];
+  return steps.map((step, index) => ({ ...step, id: index + 1 }));
+};
+
+// 逐位元組顯示線上資料與同位位元
+const WireFrameView = ({ frame }: { frame: WireFrame }) => (
+  <div className="flex flex-col items-center gap-1">
+    <div className="text-xs text-slate-400">
+      {frame.source === 'reader' ? '📡 Rdr' : '💳 Tag'} · {frame.annotation}
+      {frame.encrypted && <span className="text-yellow-400 ml-1">🔒</span>}
+    </div>
+    <div className="flex flex-wrap justify-center gap-1">
+      {frame.bytes.map((byte, i) => (
+        <div key={i} className="flex flex-col items-center">
+          <span className={`px-1.5 py-0.5 rounded font-mono text-xs ${
+            frame.encrypted ? 'bg-yellow-600/30 text-yellow-200' : 'bg-blue-600/30 text-blue-200'
+          }`}>
+            {bytesToHex([byte])}
+          </span>
+          {frame.bits === undefined ? (
+            <span className={`font-mono text-[10px] ${parityMismatch(frame, i) ? 'text-red-400' : 'text-slate-500'}`}>
+              P{frame.parity[i]}{parityMismatch(frame, i) ? '!' : ''}
+            </span>
+          ) : (
+            <span className="font-mono text-[10px] text-slate-500">{frame.bits} bits</span>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// 模仿 Proxmark3 `hf 14a list` / `trace list` 的輸出
+const TraceListPanel = ({ steps, uid, currentStep }: { steps: Step[]; uid: number[]; currentStep: number }) => {
+  const rows = steps.flatMap((step, index) =>
+    (step.frames || []).map(frame => ({ frame, index }))
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-4 sm:p-6 mb-4 sm:mb-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 text-cyan-400 flex items-center gap-2">
+        <span>🧾</span>
+        Trace List
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-400 text-left border-b border-slate-700">
+              <th className="py-1 pr-3">Src</th>
+              <th className="py-1 pr-3">Data (! denotes parity error)</th>
+              <th className="py-1 pr-3">CRC</th>
+              <th className="py-1">Annotation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ frame, index }, i) => (
+              <tr
+                key={i}
+                className={`border-b border-slate-800 transition-colors ${
+                  index === currentStep
+                    ? 'bg-blue-600/20 text-white'
+                    : index < currentStep
+                    ? 'text-slate-300'
+                    : 'text-slate-600'
+                }`}
+              >
+                <td className="py-1 pr-3">{frame.source === 'reader' ? 'Rdr' : 'Tag'}</td>
+                <td className="py-1 pr-3 whitespace-nowrap">{formatTraceData(frame)}</td>
+                <td className="py-1 pr-3">
+                  {!frame.encrypted && frame.bytes.length > 2 && checkCrcA(frame.bytes) ? 'ok' : ''}
+                </td>
+                <td className="py-1">{frame.annotation}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-slate-400 mt-3">
+        UID {bytesToHex(uid, '')}、Key A {keyToHex(DEMO_AUTH.key)}；加密框架的同位位元經過 keystream 加密，與密文位元組的奇同位不符處以 ! 標示
+      </div>
+    </motion.div>
+  );
+};
 
 export default function CommunicationPage() {
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [cardType, setCardType] = useState<CardType>('1k');
+  const [uidSize, setUidSize] = useState<UidSize>(4);
+  const communicationSteps = useMemo(() => buildCommunicationSteps(CARD_MODELS[cardType], uidSize), [cardType, uidSize]);
+
+  // 從記憶體頁面帶入的卡型與 UID 長度（?card=4k&uid=7）
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const card = params.get('card');
+    const uid = Number(params.get('uid'));
+    if (card && CARD_TYPES.includes(card as CardType)) setCardType(card as CardType);
+    if (UID_SIZES.includes(uid as UidSize)) setUidSize(uid as UidSize);
+  }, []);
+
+  // 步驟數隨 cascade level 改變，切換時回到第一步
+  const selectCard = (type: CardType, size: UidSize) => {
+    setCardType(type);
+    setUidSize(size);
+    setCurrentStep(0);
+  };
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -129,7 +355,7 @@ export default function CommunicationPage() {
       }, 3000);
     }
     return () => clearInterval(interval);
-  }, [isPlaying, currentStep]);
+  }, [isPlaying, currentStep, communicationSteps]);
 
   const resetAnimation = () => {
     setCurrentStep(0);
@@ -169,6 +395,30 @@ export default function CommunicationPage() {
           </div>
           
           <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
+            <div className="flex bg-slate-800 border border-slate-600 rounded-lg overflow-hidden text-sm">
+              {CARD_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => selectCard(type, uidSize)}
+                  title={CARD_MODELS[type].name}
+                  className={`px-3 py-2 transition-colors ${cardType === type ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                >
+                  {type.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-slate-800 border border-slate-600 rounded-lg overflow-hidden text-sm">
+              {UID_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => selectCard(cardType, size)}
+                  title={`${size}-byte UID`}
+                  className={`px-3 py-2 transition-colors ${uidSize === size ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                >
+                  {size}B
+                </button>
+              ))}
+            </div>
             <motion.button
               onClick={togglePlayPause}
               className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
@@ -329,6 +579,13 @@ export default function CommunicationPage() {
                       </>
                     )}
                   </div>
+                  {communicationSteps[currentStep]?.frames && (
+                    <div className="mt-4 space-y-3">
+                      {communicationSteps[currentStep].frames!.map((frame, i) => (
+                        <WireFrameView key={i} frame={frame} />
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -359,6 +616,9 @@ export default function CommunicationPage() {
               </motion.div>
             </motion.div>
 
+            {/* Proxmark3 trace list */}
+            <TraceListPanel steps={communicationSteps} uid={DEMO_UIDS[uidSize]} currentStep={currentStep} />
+
             {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
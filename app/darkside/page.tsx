@@ -1,516 +1,730 @@
-"use client";
-
-import { useState, useEffect } from "react";
-import { motion, AnimatePresence } from "framer-motion";
-import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Zap, AlertTriangle, Target } from "lucide-react";
-import Link from "next/link";
-
-interface DarksideStep {
-  id: number;
-  title: string;
-  description: string;
-  phase: string;
-  attackerAction: string;
-  cardResponse: string;
-  errorType: string;
-  details: string;
-}
-
-const darksideSteps: DarksideStep[] = [
-  {
-    id: 1,
-    title: "發起認證請求",
-    description: "攻擊者向目標扇區發送認證命令",
-    phase: "初始化階段",
-    attackerAction: "AUTH: 60 04 (目標扇區)",
-    cardResponse: "nT: 1A2B3C4D",
-    errorType: "正常流程",
-    details: "Darkside Attack 不需要任何已知金鑰。攻擊者直接對目標扇區發起認證請求，獲取卡片發送的隨機數 nT。這個 nT 值將作為後續攻擊的基礎。",
-  },
-  {
-    id: 2,
-    title: "發送無效認證",
-    description: "故意發送錯誤的認證數據觸發卡片錯誤",
-    phase: "錯誤注入",
-    attackerAction: "無效 aR: FFFFFFFF",
-    cardResponse: "4-bit 錯誤碼",
-    errorType: "認證失敗",
-    details: "攻擊者故意發送錯誤的認證響應 aR。卡片檢測到錯誤後，會發送一個 4-bit 的錯誤響應。關鍵漏洞：這個錯誤響應包含了關於正確金鑰的部分資訊。",
-  },
-  {
-    id: 3,
-    title: "Parity 錯誤分析",
-    description: "分析錯誤響應中的 parity bit 資訊",
-    phase: "資訊洩露分析",
-    attackerAction: "分析 4-bit 錯誤",
-    cardResponse: "Parity: 1011",
-    errorType: "資訊洩露",
-    details: "卡片的錯誤響應不僅表示認證失敗，還包含了關鍵的 parity 資訊。這些 parity bit 與正確金鑰的某些位元有直接關係，為攻擊者提供了金鑰的部分資訊。",
-  },
-  {
-    id: 4,
-    title: "重複錯誤注入",
-    description: "使用不同錯誤值收集更多 parity 資訊",
-    phase: "資料收集",
-    attackerAction: "系統性錯誤注入",
-    cardResponse: "多組 Parity 數據",
-    errorType: "多重洩露",
-    details: "攻擊者系統性地發送不同的錯誤認證數據，每次都會獲得對應的 parity 錯誤資訊。通過收集大量的 parity 數據，可以建立關於正確金鑰的約束方程組。",
-  },
-  {
-    id: 5,
-    title: "建立金鑰約束",
-    description: "利用 parity 資訊建立金鑰位的約束關係",
-    phase: "數學分析",
-    attackerAction: "建立線性方程組",
-    cardResponse: "金鑰約束: 32 個方程",
-    errorType: "結構化洩露",
-    details: "每個 parity 錯誤提供一個關於金鑰位的線性約束。收集足夠的約束後，可以建立一個線性方程組。這個方程組大幅減少了需要搜索的金鑰空間。",
-  },
-  {
-    id: 6,
-    title: "金鑰空間縮減",
-    description: "解析約束方程，確定大部分金鑰位",
-    phase: "約束求解", 
-    attackerAction: "解線性方程組",
-    cardResponse: "48-bit → ~16-bit 搜索",
-    errorType: "空間縮減",
-    details: "通過解析收集到的約束方程組，可以直接確定大部分金鑰位的值。通常可以將 48-bit 的搜索空間縮減到只有 16-bit 左右，大幅提高破解效率。",
-  },
-  {
-    id: 7,
-    title: "暴力搜索剩餘位",
-    description: "對縮減後的金鑰空間進行快速暴力搜索",
-    phase: "金鑰恢復",
-    attackerAction: "暴力搜索 2^16 空間",
-    cardResponse: "金鑰驗證測試",
-    errorType: "搜索優化",
-    details: "縮減後的搜索空間只有約 65536 個可能的金鑰，即使使用普通硬體也能在幾秒到幾分鐘內完成搜索。每個候選金鑰都可以快速驗證其正確性。",
-  },
-  {
-    id: 8,
-    title: "金鑰驗證成功",
-    description: "找到正確金鑰，完成攻擊",
-    phase: "攻擊完成",
-    attackerAction: "使用恢復的金鑰",
-    cardResponse: "認證成功",
-    errorType: "攻擊成功",
-    details: "攻擊成功後，攻擊者獲得目標扇區的金鑰。整個攻擊過程通常只需要幾分鐘，且成功率接近 100%。這使得 Darkside Attack 成為對 Mifare Classic 最有效的攻擊方法之一。",
-  },
-];
-
-export default function DarksideAttackPage() {
-  const [currentStep, setCurrentStep] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isPlaying) {
-      interval = setInterval(() => {
-        setCurrentStep((prev) => {
-          if (prev >= darksideSteps.length - 1) {
-            return 0;
-          }
-          return prev + 1;
-        });
-      }, 4000);
-    }
-    return () => clearInterval(interval);
-  }, [isPlaying, currentStep]);
-
-  const resetAnimation = () => {
-    setCurrentStep(0);
-    setIsPlaying(false);
-  };
-
-  const togglePlayPause = () => {
-    setIsPlaying(!isPlaying);
-  };
-
-  const goToStep = (stepIndex: number) => {
-    setCurrentStep(stepIndex);
-    setIsPlaying(false);
-  };
-
-  const getErrorTypeColor = (errorType: string) => {
-    switch (errorType) {
-      case "正常流程": return "text-blue-400 border-blue-500/30 bg-blue-900/20";
-      case "認證失敗": return "text-yellow-400 border-yellow-500/30 bg-yellow-900/20";
-      case "資訊洩露": return "text-orange-400 border-orange-500/30 bg-orange-900/20";
-      case "多重洩露": return "text-red-400 border-red-500/30 bg-red-900/20";
-      case "結構化洩露": return "text-purple-400 border-purple-500/30 bg-purple-900/20";
-      case "空間縮減": return "text-pink-400 border-pink-500/30 bg-pink-900/20";
-      case "搜索優化": return "text-green-400 border-green-500/30 bg-green-900/20";
-      case "攻擊成功": return "text-red-400 border-red-500/30 bg-red-900/20";
-      default: return "text-slate-400 border-slate-500/30 bg-slate-900/20";
-    }
-  };
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
-      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
-        {/* Header */}
-        <motion.div
-          initial={{ opacity: 0, y: -30 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
-        >
-          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
-            <motion.div
-              whileHover={{ scale: 1.1 }}
-              transition={{ duration: 0.2 }}
-            >
-              <Link href="/" className="text-orange-400 hover:text-orange-300 transition-colors flex-shrink-0">
-                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
-              </Link>
-            </motion.div>
-            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-orange-400 to-red-400 bg-clip-text text-transparent">
-              Darkside Attack
-            </h1>
-          </div>
-          
-          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
-            <motion.button
-              onClick={togglePlayPause}
-              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
-              {isPlaying ? "暫停" : "播放"}
-            </motion.button>
-            <motion.button
-              onClick={resetAnimation}
-              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <RotateCcw size={20} />
-              重置
-            </motion.button>
-          </div>
-        </motion.div>
-
-        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8">
-          {/* 主要動畫區域 */}
-          <div className="lg:col-span-2 order-2 lg:order-1">
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-6 lg:p-8 mb-4 sm:mb-6"
-            >
-              {/* 當前步驟標題 */}
-              <div className="text-center mb-4 sm:mb-6 lg:mb-8">
-                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-2">
-                  步驟 {currentStep + 1}: {darksideSteps[currentStep]?.title}
-                </h3>
-                <p className="text-slate-300 mb-3 sm:mb-4 text-sm sm:text-base">
-                  {darksideSteps[currentStep]?.description}
-                </p>
-                <div className="flex items-center justify-center gap-2 sm:gap-4 flex-wrap">
-                  <div className="inline-flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 bg-orange-600/20 border border-orange-500/30 rounded-full text-orange-400 text-xs sm:text-sm">
-                    <Zap size={12} className="sm:w-4 sm:h-4" />
-                    {darksideSteps[currentStep]?.phase}
-                  </div>
-                  <div className={`inline-flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm ${getErrorTypeColor(darksideSteps[currentStep]?.errorType)}`}>
-                    <AlertTriangle size={12} className="sm:w-4 sm:h-4" />
-                    {darksideSteps[currentStep]?.errorType}
-                  </div>
-                </div>
-              </div>
-
-              {/* 攻擊動畫區域 */}
-              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-6 lg:p-8 mb-4 sm:mb-6">
-                <div className="flex items-center justify-between mb-4 sm:mb-6 lg:mb-8">
-                  {/* 攻擊者 */}
-                  <div className="text-center">
-                    <motion.div 
-                      animate={{
-                        scale: [1, 1.15, 1],
-                        boxShadow: [
-                          '0 0 0px rgba(251, 146, 60, 0.5)', 
-                          '0 0 25px rgba(251, 146, 60, 0.9)', 
-                          '0 0 0px rgba(251, 146, 60, 0.5)'
-                        ]
-                      }}
-                      transition={{ 
-                        duration: 1.5, 
-                        repeat: Infinity,
-                        repeatType: "reverse"
-                      }}
-                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-orange-500 to-red-600 rounded-lg mb-2 sm:mb-4 mx-auto shadow-lg flex items-center justify-center"
-                    >
-                      <Target size={16} className="sm:w-6 sm:h-6 lg:w-8 lg:h-8 text-white" />
-                    </motion.div>
-                    <p className="text-xs sm:text-sm text-slate-400">Darkside 攻擊者</p>
-                  </div>
-
-                  {/* 錯誤注入動畫 */}
-                  <div className="flex-1 mx-4 sm:mx-6 lg:mx-8 relative h-12 sm:h-16 lg:h-24 flex flex-col items-center justify-center">
-                    {/* 攻擊波形 */}
-                    <motion.div
-                      animate={{
-                        scaleX: [0, 1, 0],
-                        opacity: [0, 1, 0],
-                      }}
-                      transition={{
-                        duration: 2,
-                        repeat: Infinity,
-                        ease: "easeInOut",
-                      }}
-                      className="absolute w-full h-1 sm:h-2 bg-gradient-to-r from-transparent via-red-500 to-transparent rounded-full"
-                    />
-                    
-                    {/* 錯誤注入指示器 */}
-                    <motion.div
-                      animate={{
-                        rotate: [0, 180, 360],
-                        scale: [0.8, 1.2, 0.8],
-                      }}
-                      transition={{
-                        duration: 3,
-                        repeat: Infinity,
-                        ease: "easeInOut",
-                      }}
-                      className="w-5 h-5 sm:w-6 sm:h-6 lg:w-8 lg:h-8 bg-red-500 rounded-full flex items-center justify-center mb-1 sm:mb-2"
-                    >
-                      <Zap size={10} className="sm:w-3 sm:h-3 lg:w-5 lg:h-5 text-white" />
-                    </motion.div>
-                    
-                    {/* 資料流 */}
-                    <div className="text-center">
-                      <div className="mb-0.5 sm:mb-1">
-                        <motion.div
-                          animate={{
-                            opacity: [0.5, 1, 0.5],
-                          }}
-                          transition={{
-                            duration: 2,
-                            repeat: Infinity,
-                          }}
-                          className="text-orange-400 text-xs sm:text-sm font-mono bg-slate-800/70 px-1 sm:px-2 py-1 rounded"
-                        >
-                          {darksideSteps[currentStep]?.attackerAction}
-                        </motion.div>
-                      </div>
-                      <div className="text-blue-400 text-xs sm:text-sm font-mono bg-slate-800/70 px-1 sm:px-2 py-1 rounded">
-                        {darksideSteps[currentStep]?.cardResponse}
-                      </div>
-                    </div>
-
-                    {/* Parity 錯誤可視化 */}
-                    {currentStep >= 2 && (
-                      <motion.div
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="absolute -bottom-2 sm:-bottom-3 lg:-bottom-4 flex gap-1"
-                      >
-                        {[1, 0, 1, 1].map((bit, index) => (
-                          <motion.div
-                            key={index}
-                            animate={{
-                              backgroundColor: bit === 1 ? ['#ef4444', '#f97316', '#ef4444'] : ['#374151', '#4b5563', '#374151'],
-                            }}
-                            transition={{
-                              duration: 1,
-                              repeat: Infinity,
-                              delay: index * 0.2,
-                            }}
-                            className="w-2 h-2 sm:w-3 sm:h-3 rounded-full border border-slate-600"
-                          />
-                        ))}
-                      </motion.div>
-                    )}
-                  </div>
-
-                  {/* 目標卡片 */}
-                  <div className="text-center">
-                    <motion.div 
-                      animate={{
-                        boxShadow: currentStep >= 7 ? 
-                          ['0 0 0px rgba(239, 68, 68, 0.5)', '0 0 20px rgba(239, 68, 68, 0.8)', '0 0 0px rgba(239, 68, 68, 0.5)'] :
-                          currentStep >= 2 ?
-                          ['0 0 0px rgba(251, 146, 60, 0.5)', '0 0 15px rgba(251, 146, 60, 0.7)', '0 0 0px rgba(251, 146, 60, 0.5)'] :
-                          ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
-                      }}
-                      transition={{ duration: 1.5, repeat: Infinity }}
-                      className={`w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b ${
-                        currentStep >= 7 ? 'from-red-500 to-red-700' : 
-                        currentStep >= 2 ? 'from-orange-500 to-red-600' :
-                        'from-blue-500 to-blue-700'
-                      } rounded-lg mb-2 sm:mb-4 mx-auto shadow-lg flex items-center justify-center`}
-                    >
-                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
-                    </motion.div>
-                    <p className="text-xs sm:text-sm text-slate-400">Mifare 卡片</p>
-                  </div>
-                </div>
-
-                {/* 錯誤類型說明 */}
-                <motion.div
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className={`rounded-lg p-4 border ${getErrorTypeColor(darksideSteps[currentStep]?.errorType)}`}
-                >
-                  <div className="flex items-center gap-2 mb-2">
-                    <AlertTriangle size={16} />
-                    <span className="font-semibold text-sm">錯誤注入效果</span>
-                  </div>
-                  <p className="text-sm opacity-90">
-                    {darksideSteps[currentStep]?.errorType}: 此階段的錯誤注入導致特定的卡片響應模式
-                  </p>
-                </motion.div>
-              </div>
-
-              {/* 攻擊原理說明 - 移到主要動畫區域下方 */}
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.3 }}
-                className="bg-slate-900/30 border border-orange-500/20 rounded-lg p-6"
-              >
-                <h3 className="text-lg font-bold mb-4 text-red-400 flex items-center gap-2">
-                  <Zap size={18} />
-                  攻擊原理
-                </h3>
-                <div className="text-sm text-slate-300 leading-relaxed">
-                  <AnimatePresence mode="wait">
-                    <motion.div
-                      key={currentStep}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -20 }}
-                      transition={{ duration: 0.3 }}
-                    >
-                      {darksideSteps[currentStep]?.details}
-                    </motion.div>
-                  </AnimatePresence>
-                </div>
-              </motion.div>
-            </motion.div>
-
-            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
-            >
-              <div className="flex items-center justify-between">
-                <button
-                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
-                  disabled={currentStep === 0}
-                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
-                    currentStep === 0
-                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
-                      : "bg-orange-600 hover:bg-orange-700 text-white"
-                  }`}
-                >
-                  <ArrowLeft size={16} />
-                  上一步
-                </button>
-                
-                <div className="text-center px-4">
-                  <div className="text-sm font-medium text-white">
-                    步驟 {currentStep + 1} / {darksideSteps.length}
-                  </div>
-                  <div className="text-xs text-slate-400 mt-1">
-                    {darksideSteps[currentStep]?.title}
-                  </div>
-                </div>
-                
-                <button
-                  onClick={() => goToStep(Math.min(darksideSteps.length - 1, currentStep + 1))}
-                  disabled={currentStep === darksideSteps.length - 1}
-                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
-                    currentStep === darksideSteps.length - 1
-                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
-                      : "bg-orange-600 hover:bg-orange-700 text-white"
-                  }`}
-                >
-                  下一步
-                  <ArrowRight size={16} />
-                </button>
-              </div>
-            </motion.div>
-          </div>
-
-          {/* 側邊欄 - 只在大螢幕顯示 */}
-          <div className="hidden lg:block space-y-4 sm:space-y-6 lg:max-h-[calc(100vh-12rem)] flex flex-col order-1 lg:order-2">
-            {/* 步驟導航 */}
-            <motion.div
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6 flex-1 flex flex-col min-h-0"
-            >
-              <h3 className="text-base sm:text-lg font-bold mb-3 sm:mb-4 flex items-center gap-2 flex-shrink-0">
-                <Zap size={16} className="sm:w-5 sm:h-5 text-orange-400" />
-                攻擊步驟
-              </h3>
-              <div className="flex lg:flex-col gap-2 lg:gap-2 overflow-x-auto lg:overflow-x-visible lg:overflow-y-auto flex-1 lg:pr-2 pb-2 lg:pb-0 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
-                {darksideSteps.map((step, index) => (
-                  <motion.button
-                    key={step.id}
-                    onClick={() => goToStep(index)}
-                    className={`flex-shrink-0 lg:w-full text-left p-2 sm:p-3 rounded-lg transition-all duration-300 min-w-[200px] lg:min-w-0 min-h-[44px] ${
-                      index === currentStep
-                        ? "bg-orange-600/30 border border-orange-500/50 text-white shadow-lg"
-                        : index < currentStep
-                        ? "bg-amber-900/30 text-amber-400"
-                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
-                    }`}
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                  >
-                    <div className="flex items-center gap-2 sm:gap-3">
-                      <div className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0 ${
-                        index === currentStep
-                          ? "bg-orange-500 text-white"
-                          : index < currentStep
-                          ? "bg-amber-500 text-white"
-                          : "bg-slate-600 text-slate-400"
-                      }`}>
-                        {index + 1}
-                      </div>
-                      <div className="min-w-0">
-                        <p className="font-medium text-xs sm:text-sm truncate">{step.title}</p>
-                        <p className="text-xs opacity-75 truncate hidden sm:block lg:block">{step.phase}</p>
-                      </div>
-                    </div>
-                  </motion.button>
-                ))}
-              </div>
-            </motion.div>
-
-            {/* 攻擊特性 */}
-            <motion.div
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ delay: 0.2 }}
-              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6 flex-shrink-0"
-            >
-              <h3 className="text-base sm:text-lg font-bold mb-3 sm:mb-4 text-orange-400">攻擊特性</h3>
-              <div className="space-y-2 sm:space-y-3 text-xs sm:text-sm">
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
-                  <span>無需已知金鑰</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
-                  <span>攻擊時間短（分鐘級）</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
-                  <span>成功率接近 100%</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-red-500 rounded-full flex-shrink-0"></div>
-                  <span>需要錯誤注入能力</span>
-                </div>
-              </div>
-            </motion.div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Zap, AlertTriangle, Target } from "lucide-react";
+import Link from "next/link";
+import { bruteForceHref } from "@/lib/bruteforce";
+import { keyToHex, toHex32 } from "@/lib/crypto1";
+import { DarksideProgress, DarksideTarget, runDarksideAttack } from "@/lib/darkside";
+import { blockToSector, createVirtualCard, SectorKeys } from "@/lib/virtualCard";
+
+interface DarksideStep {
+  id: number;
+  title: string;
+  description: string;
+  phase: string;
+  attackerAction: string;
+  cardResponse: string;
+  errorType: string;
+  details: string;
+  searchHref?: string | null;   // 暴力搜尋步驟：帶入錄到的驗證，尚未錄到時為 null
+}
+
+// 模擬卡片：Darkside 不需要任何已知金鑰，每個扇區都使用不同的金鑰
+const DARKSIDE_CARD_UID = 0xDEADBEEF;
+const DARKSIDE_SECTOR_KEYS: SectorKeys[] = Array.from({ length: 16 }, (_, sector) => ({
+  keyA: 0x3C5A7E910000 + sector * 0x1111,
+  keyB: 0xC2E4F6180000 + sector * 0x0101,
+}));
+
+const formatBits = (value: number, count: number) =>
+  Array.from({ length: count }, (_, i) => (value >>> i) & 1).join('');
+
+// 步驟中的數值取自實際執行的模擬結果，尚未執行時顯示提示
+const buildDarksideSteps = (progress: DarksideProgress | null, target: DarksideTarget): DarksideStep[] => {
+  const first = progress?.variants[0];
+  const variants = progress?.variants || [];
+  const recovered = progress !== null && progress.phase !== 'sync' && progress.oddCandidates > 0;
+  const targetSector = blockToSector(target.block);
+  const pending = "（執行下方模擬以取得實際數值）";
+
+  return [
+    {
+      id: 1,
+      title: "同步 nT",
+      description: "每次嘗試前讓卡片斷電重開，在固定時間點發起驗證",
+      phase: "初始化階段",
+      attackerAction: `AUTH ${target.keyType} 區塊 ${target.block}（扇區 ${targetSector}）`,
+      cardResponse: progress?.nT != null ? `nT: ${toHex32(progress.nT)}` : "nT: ????????",
+      errorType: "正常流程",
+      details: `Darkside Attack 不需要任何已知金鑰。弱 PRNG 只依開機後經過的時間推進，攻擊者每次都讓卡片斷電重開，並在相同時間點發起驗證，就能反覆拿到同一個 nT；nT 不同的回應直接捨棄。固定 nT 之後，每次驗證的 keystream 只取決於攻擊者送出的 {nR}。${progress?.nT != null ? `本次鎖定 nT = ${toHex32(progress.nT)}，因時序誤差捨棄了 ${progress.skipped} 次回應。` : pending}`,
+    },
+    {
+      id: 2,
+      title: "猜測同位位元",
+      description: "固定 {nR}{aR}，逐一嘗試 256 種同位位元組合",
+      phase: "錯誤注入",
+      attackerAction: progress ? `{nR}: ${toHex32(progress.nRPrefix)} {aR}: ${toHex32(progress.aREnc)}` : "{nR}{aR} + 8 parity",
+      cardResponse: first ? `第 ${first.attempts} 次: 同位 ${first.parity.join('')}` : "（無回應）",
+      errorType: "認證失敗",
+      details: `攻擊者不知道金鑰，只能隨意送出 {nR}{aR}。卡片會先檢查 8 個同位位元：同位位元由明文計算後再與下一個 keystream 位元 XOR，只要有一個不對卡片就完全不回應。因此攻擊者固定 {nR}{aR}，把 256 種同位組合逐一送出，平均 128 次就會遇到全部正確的一組。${first ? `本次在第 ${first.attempts} 次嘗試找到同位 ${first.parity.join('')}。` : pending}`,
+    },
+    {
+      id: 3,
+      title: "收到加密 NACK",
+      description: "同位全對但 aR 錯誤，卡片回應加密的 4 位元 NACK",
+      phase: "資訊洩露分析",
+      attackerAction: first ? `同位: ${first.parity.join('')}` : "正確的同位位元",
+      cardResponse: first ? `{NACK}: ${first.nack.toString(16).toUpperCase()} → ks: ${formatBits(first.ks, 4)}` : "{NACK}: ?",
+      errorType: "資訊洩露",
+      details: `同位位元通過後，卡片才解密 aR 並發現錯誤，此時它回應的 NACK (0x5) 仍以 Crypto-1 加密，而且使用的是 aR 之後的 4 個 keystream 位元。已知明文 0x5 與密文 XOR，就得到 4 個 keystream 位元；同時 8 個正確的同位位元也各自洩漏了一個明文與 keystream 的關係。${first ? `本次 NACK = ${first.nack.toString(16).toUpperCase()}，keystream = ${formatBits(first.ks, 4)}。` : pending}`,
+    },
+    {
+      id: 4,
+      title: "改變 nR 最後 3 位元",
+      description: "固定 {nR} 前 29 位元，對 8 種變化重複收集 NACK",
+      phase: "資料收集",
+      attackerAction: "{nR} = prefix | c << 5 (c = 0..7)",
+      cardResponse: variants.length > 0 ? `已收集 ${variants.length}/8 組 NACK` : "多組 NACK",
+      errorType: "多重洩露",
+      details: `只改變 {nR} 最後 3 個位元時，前 3 個位元組的同位位元不變，只需要重新猜後 5 個同位位元（最多 32 次）。8 種變化在 aR 之後的 LFSR 狀態只差在這 3 個移入的位元，差異可以事先算出，因此 8 組 NACK 都在描述同一個狀態。${variants.length > 0 ? `目前共送出 ${progress?.attempts} 次，收到的 keystream：${variants.map(v => formatBits(v.ks, 4)).join('、')}。` : pending}`,
+    },
+    {
+      id: 5,
+      title: "分開列舉奇偶暫存器",
+      description: "NACK 的第 1、3 位元只取決於奇數位，第 2、4 位元只取決於偶數位",
+      phase: "數學分析",
+      attackerAction: "lfsr_common_prefix()",
+      cardResponse: recovered ? `奇數位 ${progress?.oddCandidates} 個、偶數位 ${progress?.evenCandidates} 個` : "列舉 2 × 2^21 個視窗",
+      errorType: "結構化洩露",
+      details: `過濾函數只讀取奇數位暫存器的 20 個位元，相鄰兩個輸出之間只多移入一個位元。因此每半邊只需列舉 2^21 個視窗，檢查 8 種變化下的 2 個 NACK 位元是否都吻合，16 個條件讓每半邊只剩幾十個候選。${recovered ? `本次剩下奇數位 ${progress?.oddCandidates} 個、偶數位 ${progress?.evenCandidates} 個視窗。` : pending}`,
+    },
+    {
+      id: 6,
+      title: "同位位元過濾",
+      description: "組合奇偶視窗，回捲後以 64 個同位位元檢查",
+      phase: "約束求解",
+      attackerAction: "check_pfx_parity()",
+      cardResponse: recovered ? `剩餘狀態: ${progress?.stateCandidates} 個` : "Filtering...",
+      errorType: "空間縮減",
+      details: `奇偶視窗各補上暫存器最高 3 位元後即為完整的 48 位元狀態。每個候選都套用 8 種變化的差異，回捲 aR 與 {nR} 取得 keystream，再檢查 8 組、共 64 個同位位元。錯誤的候選幾乎不可能全部通過。${recovered ? `本次剩下 ${progress?.stateCandidates} 個狀態。` : pending}`,
+    },
+    {
+      id: 7,
+      title: "回捲出金鑰",
+      description: "由 NACK 前的狀態回捲 aR、{nR} 與 UID ⊕ nT",
+      phase: "金鑰恢復",
+      attackerAction: "lfsr_rollback_word() × 3",
+      cardResponse: progress && progress.candidateKeys.length > 0 ? `候選金鑰: ${progress.candidateKeys.map(keyToHex).join(', ')}` : "候選金鑰",
+      errorType: "搜索優化",
+      details: `剩下的狀態依序回捲 aR（無輸入）、{nR}（密文回饋）與 UID ⊕ nT，回到驗證開始前的 LFSR 就是金鑰。若 8 種變化恰好也改變了 {nR} 最後幾個位元的 keystream，狀態差異的假設不成立，就換一組 {nR} 前綴重新收集。${progress && progress.round > 0 ? `本次使用了 ${progress.round} 組前綴。` : pending}`,
+      searchHref: progress?.key != null && progress.trace ? bruteForceHref(progress.trace, progress.key) : null,
+    },
+    {
+      id: 8,
+      title: "金鑰驗證成功",
+      description: "以候選金鑰實際驗證，完成攻擊",
+      phase: "攻擊完成",
+      attackerAction: "hf mf rdbl",
+      cardResponse: progress?.key != null ? `Found Key ${target.keyType}: ${keyToHex(progress.key)}` : "認證成功",
+      errorType: "攻擊成功",
+      details: "用候選金鑰對卡片做一次真正的驗證即可確認。取得第一把金鑰之後，攻擊者通常改用速度更快的 Nested Attack 取得其餘扇區的金鑰。已修正同位位元漏洞的卡片（如 EV1）不再回應加密 NACK，Darkside Attack 便無法使用。",
+    },
+  ];
+};
+
+const DARKSIDE_STEP_COUNT = buildDarksideSteps(null, { block: 0, keyType: 'A' }).length;
+
+const DarksideSimulator = ({
+  target,
+  progress,
+  isRunning,
+  onTargetChange,
+  onRun
+}: {
+  target: DarksideTarget;
+  progress: DarksideProgress | null;
+  isRunning: boolean;
+  onTargetChange: (target: DarksideTarget) => void;
+  onRun: () => void;
+}) => {
+  const targetSector = blockToSector(target.block);
+  const actualKey = target.keyType === 'A' ? DARKSIDE_SECTOR_KEYS[targetSector].keyA : DARKSIDE_SECTOR_KEYS[targetSector].keyB;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6 mb-4 sm:mb-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 lg:mb-4 text-orange-400 flex items-center gap-2">
+        <Target size={16} className="lg:w-5 lg:h-5" />
+        Darkside Attack 模擬
+      </h3>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs mb-4">
+        <label>
+          <div className="text-slate-400 mb-1">目標扇區</div>
+          <select
+            value={targetSector}
+            disabled={isRunning}
+            onChange={(e) => onTargetChange({ ...target, block: Number(e.target.value) * 4 })}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white"
+          >
+            {DARKSIDE_SECTOR_KEYS.map((_, sector) => (
+              <option key={sector} value={sector}>扇區 {sector}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-1">
+          {(['A', 'B'] as const).map(type => (
+            <button
+              key={type}
+              disabled={isRunning}
+              onClick={() => onTargetChange({ ...target, keyType: type })}
+              className={`px-3 py-1.5 rounded font-mono transition-colors ${
+                target.keyType === type ? 'bg-orange-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              Key {type}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning}
+          className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+            isRunning ? 'bg-slate-700/50 text-slate-500 cursor-not-allowed' : 'bg-orange-600 hover:bg-orange-700 text-white'
+          }`}
+        >
+          {isRunning ? '攻擊中...' : '▶ 執行攻擊'}
+        </button>
+      </div>
+
+      {progress && (
+        <div className="space-y-3 text-xs">
+          <div className="bg-slate-900/50 rounded p-2 font-mono text-orange-300">
+            [{progress.phase}] {progress.message}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">鎖定的 nT</div>
+              <div className="font-mono text-white text-sm">{progress.nT !== null ? toHex32(progress.nT) : '—'}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">{'{nR}'} 前綴（第 {progress.round} 組）</div>
+              <div className="font-mono text-white text-sm">{toHex32(progress.nRPrefix)}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">送出次數</div>
+              <div className="font-mono text-white text-sm">{progress.attempts.toLocaleString()}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">nT 不同步捨棄</div>
+              <div className="font-mono text-white text-sm">{progress.skipped.toLocaleString()}</div>
+            </div>
+          </div>
+
+          {/* 收集到的 8 組同位位元與 NACK */}
+          {progress.variants.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full font-mono">
+                <thead>
+                  <tr className="text-slate-400 text-left border-b border-slate-700">
+                    <th className="py-1 pr-3">c</th>
+                    <th className="py-1 pr-3">{'{nR}'}</th>
+                    <th className="py-1 pr-3">同位位元</th>
+                    <th className="py-1 pr-3">嘗試</th>
+                    <th className="py-1 pr-3">{'{NACK}'}</th>
+                    <th className="py-1">keystream</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {progress.variants.map(variant => (
+                    <tr key={variant.variant} className="border-b border-slate-800 text-slate-200">
+                      <td className="py-1 pr-3">{variant.variant}</td>
+                      <td className="py-1 pr-3">{toHex32(variant.nREnc)}</td>
+                      <td className="py-1 pr-3">
+                        <span className="text-slate-400">{variant.parity.slice(0, 3).join('')}</span>
+                        <span className="text-orange-300">{variant.parity.slice(3).join('')}</span>
+                      </td>
+                      <td className="py-1 pr-3">{variant.attempts}</td>
+                      <td className="py-1 pr-3 text-yellow-300">{variant.nack.toString(16).toUpperCase()}</td>
+                      <td className="py-1 text-green-300">{formatBits(variant.ks, 4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">奇數位視窗</div>
+              <div className="font-mono text-white text-sm">{progress.oddCandidates || '—'}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">偶數位視窗</div>
+              <div className="font-mono text-white text-sm">{progress.evenCandidates || '—'}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">通過同位的狀態</div>
+              <div className="font-mono text-white text-sm">{progress.oddCandidates ? progress.stateCandidates : '—'}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">還原結果</div>
+              <div className={`font-mono text-sm ${progress.key !== null ? 'text-green-300' : 'text-slate-500'}`}>
+                {progress.key !== null ? `${keyToHex(progress.key)} ${progress.key === actualKey ? '✓' : ''}` : '—'}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default function DarksideAttackPage() {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [target, setTarget] = useState<DarksideTarget>({ block: 0, keyType: 'A' });
+  const [progress, setProgress] = useState<DarksideProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const darksideSteps = useMemo(() => buildDarksideSteps(progress, target), [progress, target]);
+  const searchHref = darksideSteps[currentStep]?.searchHref;
+
+  const runAttack = async () => {
+    setIsRunning(true);
+    setProgress(null);
+    const card = createVirtualCard(DARKSIDE_CARD_UID, DARKSIDE_SECTOR_KEYS);
+    await runDarksideAttack(card, target, setProgress);
+    setIsRunning(false);
+  };
+
+  const changeTarget = (next: DarksideTarget) => {
+    setTarget(next);
+    setProgress(null);
+  };
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isPlaying) {
+      interval = setInterval(() => {
+        setCurrentStep((prev) => {
+          if (prev >= DARKSIDE_STEP_COUNT - 1) {
+            return 0;
+          }
+          return prev + 1;
+        });
+      }, 4000);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, currentStep]);
+
+  const resetAnimation = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlayPause = () => {
+    setIsPlaying(!isPlaying);
+  };
+
+  const goToStep = (stepIndex: number) => {
+    setCurrentStep(stepIndex);
+    setIsPlaying(false);
+  };
+
+  const getErrorTypeColor = (errorType: string) => {
+    switch (errorType) {
+      case "正常流程": return "text-blue-400 border-blue-500/30 bg-blue-900/20";
+      case "認證失敗": return "text-yellow-400 border-yellow-500/30 bg-yellow-900/20";
+      case "資訊洩露": return "text-orange-400 border-orange-500/30 bg-orange-900/20";
+      case "多重洩露": return "text-red-400 border-red-500/30 bg-red-900/20";
+      case "結構化洩露": return "text-purple-400 border-purple-500/30 bg-purple-900/20";
+      case "空間縮減": return "text-pink-400 border-pink-500/30 bg-pink-900/20";
+      case "搜索優化": return "text-green-400 border-green-500/30 bg-green-900/20";
+      case "攻擊成功": return "text-red-400 border-red-500/30 bg-red-900/20";
+      default: return "text-slate-400 border-slate-500/30 bg-slate-900/20";
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
+        >
+          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
+            <motion.div
+              whileHover={{ scale: 1.1 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Link href="/" className="text-orange-400 hover:text-orange-300 transition-colors flex-shrink-0">
+                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+              </Link>
+            </motion.div>
+            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-orange-400 to-red-400 bg-clip-text text-transparent">
+              Darkside Attack
+            </h1>
+          </div>
+          
+          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
+            <motion.button
+              onClick={togglePlayPause}
+              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
+              {isPlaying ? "暫停" : "播放"}
+            </motion.button>
+            <motion.button
+              onClick={resetAnimation}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <RotateCcw size={20} />
+              重置
+            </motion.button>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8">
+          {/* 主要動畫區域 */}
+          <div className="lg:col-span-2 order-2 lg:order-1">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-6 lg:p-8 mb-4 sm:mb-6"
+            >
+              {/* 當前步驟標題 */}
+              <div className="text-center mb-4 sm:mb-6 lg:mb-8">
+                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-2">
+                  步驟 {currentStep + 1}: {darksideSteps[currentStep]?.title}
+                </h3>
+                <p className="text-slate-300 mb-3 sm:mb-4 text-sm sm:text-base">
+                  {darksideSteps[currentStep]?.description}
+                </p>
+                <div className="flex items-center justify-center gap-2 sm:gap-4 flex-wrap">
+                  <div className="inline-flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 bg-orange-600/20 border border-orange-500/30 rounded-full text-orange-400 text-xs sm:text-sm">
+                    <Zap size={12} className="sm:w-4 sm:h-4" />
+                    {darksideSteps[currentStep]?.phase}
+                  </div>
+                  <div className={`inline-flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm ${getErrorTypeColor(darksideSteps[currentStep]?.errorType)}`}>
+                    <AlertTriangle size={12} className="sm:w-4 sm:h-4" />
+                    {darksideSteps[currentStep]?.errorType}
+                  </div>
+                </div>
+              </div>
+
+              {/* 攻擊動畫區域 */}
+              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-6 lg:p-8 mb-4 sm:mb-6">
+                <div className="flex items-center justify-between mb-4 sm:mb-6 lg:mb-8">
+                  {/* 攻擊者 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        scale: [1, 1.15, 1],
+                        boxShadow: [
+                          '0 0 0px rgba(251, 146, 60, 0.5)', 
+                          '0 0 25px rgba(251, 146, 60, 0.9)', 
+                          '0 0 0px rgba(251, 146, 60, 0.5)'
+                        ]
+                      }}
+                      transition={{ 
+                        duration: 1.5, 
+                        repeat: Infinity,
+                        repeatType: "reverse"
+                      }}
+                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-orange-500 to-red-600 rounded-lg mb-2 sm:mb-4 mx-auto shadow-lg flex items-center justify-center"
+                    >
+                      <Target size={16} className="sm:w-6 sm:h-6 lg:w-8 lg:h-8 text-white" />
+                    </motion.div>
+                    <p className="text-xs sm:text-sm text-slate-400">Darkside 攻擊者</p>
+                  </div>
+
+                  {/* 錯誤注入動畫 */}
+                  <div className="flex-1 mx-4 sm:mx-6 lg:mx-8 relative h-12 sm:h-16 lg:h-24 flex flex-col items-center justify-center">
+                    {/* 攻擊波形 */}
+                    <motion.div
+                      animate={{
+                        scaleX: [0, 1, 0],
+                        opacity: [0, 1, 0],
+                      }}
+                      transition={{
+                        duration: 2,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                      }}
+                      className="absolute w-full h-1 sm:h-2 bg-gradient-to-r from-transparent via-red-500 to-transparent rounded-full"
+                    />
+                    
+                    {/* 錯誤注入指示器 */}
+                    <motion.div
+                      animate={{
+                        rotate: [0, 180, 360],
+                        scale: [0.8, 1.2, 0.8],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                      }}
+                      className="w-5 h-5 sm:w-6 sm:h-6 lg:w-8 lg:h-8 bg-red-500 rounded-full flex items-center justify-center mb-1 sm:mb-2"
+                    >
+                      <Zap size={10} className="sm:w-3 sm:h-3 lg:w-5 lg:h-5 text-white" />
+                    </motion.div>
+                    
+                    {/* 資料流 */}
+                    <div className="text-center">
+                      <div className="mb-0.5 sm:mb-1">
+                        <motion.div
+                          animate={{
+                            opacity: [0.5, 1, 0.5],
+                          }}
+                          transition={{
+                            duration: 2,
+                            repeat: Infinity,
+                          }}
+                          className="text-orange-400 text-xs sm:text-sm font-mono bg-slate-800/70 px-1 sm:px-2 py-1 rounded"
+                        >
+                          {darksideSteps[currentStep]?.attackerAction}
+                        </motion.div>
+                      </div>
+                      <div className="text-blue-400 text-xs sm:text-sm font-mono bg-slate-800/70 px-1 sm:px-2 py-1 rounded">
+                        {darksideSteps[currentStep]?.cardResponse}
+                      </div>
+                    </div>
+
+                    {/* Parity 錯誤可視化 */}
+                    {currentStep >= 2 && (
+                      <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="absolute -bottom-2 sm:-bottom-3 lg:-bottom-4 flex gap-1"
+                      >
+                        {(progress?.variants[0]?.parity || [0, 0, 0, 0, 0, 0, 0, 0]).map((bit, index) => (
+                          <motion.div
+                            key={index}
+                            animate={{
+                              backgroundColor: bit === 1 ? ['#ef4444', '#f97316', '#ef4444'] : ['#374151', '#4b5563', '#374151'],
+                            }}
+                            transition={{
+                              duration: 1,
+                              repeat: Infinity,
+                              delay: index * 0.2,
+                            }}
+                            className="w-2 h-2 sm:w-3 sm:h-3 rounded-full border border-slate-600"
+                          />
+                        ))}
+                      </motion.div>
+                    )}
+                  </div>
+
+                  {/* 目標卡片 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        boxShadow: currentStep >= 7 ? 
+                          ['0 0 0px rgba(239, 68, 68, 0.5)', '0 0 20px rgba(239, 68, 68, 0.8)', '0 0 0px rgba(239, 68, 68, 0.5)'] :
+                          currentStep >= 2 ?
+                          ['0 0 0px rgba(251, 146, 60, 0.5)', '0 0 15px rgba(251, 146, 60, 0.7)', '0 0 0px rgba(251, 146, 60, 0.5)'] :
+                          ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
+                      }}
+                      transition={{ duration: 1.5, repeat: Infinity }}
+                      className={`w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b ${
+                        currentStep >= 7 ? 'from-red-500 to-red-700' : 
+                        currentStep >= 2 ? 'from-orange-500 to-red-600' :
+                        'from-blue-500 to-blue-700'
+                      } rounded-lg mb-2 sm:mb-4 mx-auto shadow-lg flex items-center justify-center`}
+                    >
+                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
+                    </motion.div>
+                    <p className="text-xs sm:text-sm text-slate-400">Mifare 卡片</p>
+                  </div>
+                </div>
+
+                {/* 錯誤類型說明 */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`rounded-lg p-4 border ${getErrorTypeColor(darksideSteps[currentStep]?.errorType)}`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <AlertTriangle size={16} />
+                    <span className="font-semibold text-sm">錯誤注入效果</span>
+                  </div>
+                  <p className="text-sm opacity-90">
+                    {darksideSteps[currentStep]?.errorType}: 此階段的錯誤注入導致特定的卡片響應模式
+                  </p>
+                </motion.div>
+              </div>
+
+              {/* 攻擊原理說明 - 移到主要動畫區域下方 */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-slate-900/30 border border-orange-500/20 rounded-lg p-6"
+              >
+                <h3 className="text-lg font-bold mb-4 text-red-400 flex items-center gap-2">
+                  <Zap size={18} />
+                  攻擊原理
+                </h3>
+                <div className="text-sm text-slate-300 leading-relaxed">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={currentStep}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      {darksideSteps[currentStep]?.details}
+                      {searchHref !== undefined && (
+                        searchHref ? (
+                          <Link href={searchHref} className="inline-block mt-3 text-orange-300 hover:text-orange-200 underline">
+                            以這次錄到的驗證在 Web Worker 中實際跑暴力搜尋 →
+                          </Link>
+                        ) : (
+                          <div className="mt-3 text-slate-500">執行下方模擬錄到目標扇區的驗證後，可帶到暴力搜尋頁實際搜尋</div>
+                        )
+                      )}
+                    </motion.div>
+                  </AnimatePresence>
+                </div>
+              </motion.div>
+            </motion.div>
+
+            {/* 實際攻擊模擬 */}
+            <DarksideSimulator
+              target={target}
+              progress={progress}
+              isRunning={isRunning}
+              onTargetChange={changeTarget}
+              onRun={runAttack}
+            />
+
+            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
+                  disabled={currentStep === 0}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === 0
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-orange-600 hover:bg-orange-700 text-white"
+                  }`}
+                >
+                  <ArrowLeft size={16} />
+                  上一步
+                </button>
+                
+                <div className="text-center px-4">
+                  <div className="text-sm font-medium text-white">
+                    步驟 {currentStep + 1} / {darksideSteps.length}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {darksideSteps[currentStep]?.title}
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => goToStep(Math.min(darksideSteps.length - 1, currentStep + 1))}
+                  disabled={currentStep === darksideSteps.length - 1}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === darksideSteps.length - 1
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-orange-600 hover:bg-orange-700 text-white"
+                  }`}
+                >
+                  下一步
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* 側邊欄 - 只在大螢幕顯示 */}
+          <div className="hidden lg:block space-y-4 sm:space-y-6 lg:max-h-[calc(100vh-12rem)] flex flex-col order-1 lg:order-2">
+            {/* 步驟導航 */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6 flex-1 flex flex-col min-h-0"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-3 sm:mb-4 flex items-center gap-2 flex-shrink-0">
+                <Zap size={16} className="sm:w-5 sm:h-5 text-orange-400" />
+                攻擊步驟
+              </h3>
+              <div className="flex lg:flex-col gap-2 lg:gap-2 overflow-x-auto lg:overflow-x-visible lg:overflow-y-auto flex-1 lg:pr-2 pb-2 lg:pb-0 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
+                {darksideSteps.map((step, index) => (
+                  <motion.button
+                    key={step.id}
+                    onClick={() => goToStep(index)}
+                    className={`flex-shrink-0 lg:w-full text-left p-2 sm:p-3 rounded-lg transition-all duration-300 min-w-[200px] lg:min-w-0 min-h-[44px] ${
+                      index === currentStep
+                        ? "bg-orange-600/30 border border-orange-500/50 text-white shadow-lg"
+                        : index < currentStep
+                        ? "bg-amber-900/30 text-amber-400"
+                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
+                    }`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <div className="flex items-center gap-2 sm:gap-3">
+                      <div className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0 ${
+                        index === currentStep
+                          ? "bg-orange-500 text-white"
+                          : index < currentStep
+                          ? "bg-amber-500 text-white"
+                          : "bg-slate-600 text-slate-400"
+                      }`}>
+                        {index + 1}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium text-xs sm:text-sm truncate">{step.title}</p>
+                        <p className="text-xs opacity-75 truncate hidden sm:block lg:block">{step.phase}</p>
+                      </div>
+                    </div>
+                  </motion.button>
+                ))}
+              </div>
+            </motion.div>
+
+            {/* 攻擊特性 */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.2 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl lg:rounded-2xl p-3 sm:p-4 lg:p-6 flex-shrink-0"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-3 sm:mb-4 text-orange-400">攻擊特性</h3>
+              <div className="space-y-2 sm:space-y-3 text-xs sm:text-sm">
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
+                  <span>無需已知金鑰</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
+                  <span>攻擊時間短（分鐘級）</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
+                  <span>成功率接近 100%</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-red-500 rounded-full flex-shrink-0"></div>
+                  <span>需要能自訂同位位元的讀卡機</span>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,644 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Shield, Target } from "lucide-react";
+import Link from "next/link";
+import { keyToHex } from "@/lib/crypto1";
+import { HARDNESTED_HIDDEN_BITS, HardnestedProgress, runHardnestedAttack } from "@/lib/hardnested";
+import { KnownKey, NestedTarget } from "@/lib/nested";
+import { blockToSector, createVirtualCard, SectorKeys } from "@/lib/virtualCard";
+
+interface HardnestedStep {
+  id: number;
+  title: string;
+  description: string;
+  phase: string;
+  attackerAction: string;
+  cardResponse: string;
+  vulnerability: string;
+  details: string;
+}
+
+// 模擬的強化 PRNG 卡片（如 Mifare Classic EV1）：扇區 0 仍使用預設金鑰
+const HARDNESTED_CARD_UID = 0x4E8F21A7;
+const HARDNESTED_SECTOR_KEYS: SectorKeys[] = Array.from({ length: 16 }, (_, sector) => ({
+  keyA: sector === 0 ? 0xFFFFFFFFFFFF : 0x7D3B5E920000 + sector * 0x1111,
+  keyB: sector === 0 ? 0xFFFFFFFFFFFF : 0xE91C4A660000 + sector * 0x0101,
+}));
+const KNOWN_KEY: KnownKey = { block: 0, keyType: 'A', key: 0xFFFFFFFFFFFF };
+
+const formatLog2 = (size: number) => size <= 1 ? `${size}` : `2^${Math.log2(size).toFixed(1)}`;
+
+// 步驟中的數值取自實際執行的模擬結果，尚未執行時顯示提示
+const buildHardnestedSteps = (progress: HardnestedProgress | null, target: NestedTarget): HardnestedStep[] => {
+  const targetSector = blockToSector(target.block);
+  const stage = (index: number) => progress?.keySpace[index];
+  const pending = "（執行下方模擬以取得實際數值）";
+
+  return [
+    {
+      id: 1,
+      title: "偵測強化 PRNG",
+      description: "以已知金鑰驗證，檢查明文 nT 是否落在 16-bit PRNG 序列上",
+      phase: "初始化",
+      attackerAction: "hf mf info",
+      cardResponse: progress?.prngValid != null ? (progress.prngValid ? "Prng detection: weak" : "Prng detection: hard") : "Prng detection...",
+      vulnerability: "卡片仍使用 48 位元 Crypto-1 與同位位元",
+      details: `弱 PRNG 產生的 nT 後 16 位元一定是前 16 位元往後推進 16 步的結果，這個關係可以直接驗證。強化 PRNG 的卡片（如 EV1、Plus SL1）產生的 nT 不再符合這個關係，也無法由時序預測，因此 nested attack 失效；Darkside 用到的加密 NACK 也已修正。${progress?.prngValid != null ? `本次驗證的 nT ${progress.prngValid ? '符合' : '不符合'}弱 PRNG。` : pending}`,
+    },
+    {
+      id: 2,
+      title: "為什麼 Nested 失敗",
+      description: "無法預測 nT，就無法由 {nT} 取得 keystream",
+      phase: "分析",
+      attackerAction: "nT = suc^d(nT₀) ?",
+      cardResponse: "距離無規律",
+      vulnerability: "同位位元仍以明文計算後才加密",
+      details: "Nested attack 依賴「nT 可以預測」：猜中 nT 後 {nT} ⊕ nT 就是 32 位元 keystream。強化 PRNG 讓每次的 nT 都無法預測，攻擊者手上只剩加密的 nT 與加密的同位位元。Hardnested 改用統計方法：收集大量 {nT}，從同位位元的分布推論金鑰本身的性質。",
+    },
+    {
+      id: 3,
+      title: "收集加密 nonce",
+      description: "反覆巢狀驗證目標扇區，記錄 {nT} 的第一個位元組與同位位元",
+      phase: "數據採集",
+      attackerAction: `hf mf hardnested --blk ${KNOWN_KEY.block} -a -k ${keyToHex(KNOWN_KEY.key)} --tblk ${target.block} --t${target.keyType.toLowerCase()}`,
+      cardResponse: progress && progress.nonces > 0 ? `${progress.nonces} 個 nonce，第一位元組 ${progress.coverage}/256 種` : "Collecting nonces...",
+      vulnerability: "第一個同位位元洩漏 ks0 ⊕ … ⊕ ks8",
+      details: `巢狀驗證開始時 LFSR 就是目標金鑰。第一個位元組的同位位元 p0 = oddparity(nT0) ⊕ ks8，因此 p0 ⊕ oddparity({nT}0) = ks0 ⊕ ks1 ⊕ … ⊕ ks8，只取決於金鑰與 nT 的第一個位元組。收集到全部 256 種 {nT}0 就能完整計算這個函數。${progress && progress.nonces > 0 ? `扇區 ${targetSector} 收集了 ${progress.nonces} 個 nonce。` : pending}`,
+    },
+    {
+      id: 4,
+      title: "Sum property",
+      description: "對 256 種第一個位元組加總同位值",
+      phase: "統計分析",
+      attackerAction: "S1 = Σ p0 ⊕ oddparity({nT}0)",
+      cardResponse: progress?.sum != null ? `S1 = ${progress.sum}` : "S1 = ?",
+      vulnerability: "同位和只取決於金鑰的奇偶兩半",
+      details: `ks0、ks2、ks4、ks6、ks8 只由奇數位暫存器產生，ks1、ks3、ks5、ks7 只由偶數位暫存器產生。兩半各自對 16 種移入位元加總得到 p、q，整個位元組的和就是 S1 = p(16 − q) + (16 − p)q。S1 只有少數幾種可能的值，每一種都對應一小群 (p, q) 組合，兩半可以分開篩選。${progress?.sum != null ? `本次 S1 = ${progress.sum}。` : pending}`,
+    },
+    {
+      id: 5,
+      title: "First byte bitflip",
+      description: "比較 {nT}0 與 {nT}0 ⊕ 0x80 的同位值",
+      phase: "統計分析",
+      attackerAction: "f(b) ⊕ f(b ⊕ 0x80)",
+      cardResponse: progress?.sum != null ? (progress.bitflip === null ? "不恆定" : `恆為 ${progress.bitflip}`) : "Checking bitflip...",
+      vulnerability: "部分奇數位狀態讓 ks8 與最後一個明文位元無關",
+      details: `第一個位元組的最後一個位元不影響 ks0–ks7，翻轉它只會改變密文的同一個位元與 ks8。若奇數位暫存器讓過濾函數對這個位元不敏感，所有 b 與 b ⊕ 0x80 的同位值差都相同，這是少數狀態才有的性質，可再刪去大量奇數位候選。${progress?.sum != null ? `本次 bitflip 差值${progress.bitflip === null ? '不恆定' : `恆為 ${progress.bitflip}`}。` : pending}`,
+    },
+    {
+      id: 6,
+      title: "金鑰空間縮減",
+      description: "統計性質逐步刪去不可能的奇偶組合",
+      phase: "空間縮減",
+      attackerAction: "p(16 − q) + (16 − p)q = S1",
+      cardResponse: stage(3) ? `${formatLog2(stage(1)?.size || 0)} → ${formatLog2(stage(3)?.size || 0)}` : "Reducing key space...",
+      vulnerability: "統計性質大幅縮小搜尋範圍",
+      details: `完整的 hardnested 會再加入第二個位元組的同位和等性質，並把 2^48 縮減到可以暴力搜尋的範圍。瀏覽器版本以縮小規模示範：每半暫存器只保留最低 ${HARDNESTED_HIDDEN_BITS} 個位元未知，共 2^${HARDNESTED_HIDDEN_BITS * 2} 個候選。${stage(3) ? `S1 篩選後剩 ${stage(2)?.size.toLocaleString()} 個，bitflip 篩選後剩 ${stage(3)?.size.toLocaleString()} 個。` : pending}`,
+    },
+    {
+      id: 7,
+      title: "暴力搜尋",
+      description: "以收集到的 nonce 同位位元驗證剩下的候選",
+      phase: "金鑰推導",
+      attackerAction: "brute force + parity check",
+      cardResponse: progress && progress.checked > 0 ? `已檢查 ${progress.checked.toLocaleString()} 個候選` : "Brute forcing...",
+      vulnerability: "每個 nonce 的 3 個同位位元都能過濾候選",
+      details: `有了候選金鑰就能解密 {nT}（密文回饋），再檢查前三個同位位元是否吻合。錯誤的金鑰每個 nonce 只有 1/8 的機率通過，16 個 nonce 足以只留下正確的金鑰。${stage(4) ? `本次剩下 ${stage(4)?.size} 把金鑰。` : pending}`,
+    },
+    {
+      id: 8,
+      title: "取得金鑰",
+      description: "實際驗證後輸出目標扇區金鑰",
+      phase: "結果輸出",
+      attackerAction: "hf mf rdbl",
+      cardResponse: progress?.key != null ? `Found Key ${target.keyType}: ${keyToHex(progress.key)}` : "Key found",
+      vulnerability: "強化 PRNG 只延長了攻擊時間",
+      details: "強化 PRNG 並沒有修正同位位元的設計缺陷，攻擊者只需要多收集幾千個 nonce。實際的 hardnested 在一般電腦上數分鐘內即可完成，之後每個扇區都能以同樣方式取得金鑰。",
+    },
+  ];
+};
+
+const HARDNESTED_STEP_COUNT = buildHardnestedSteps(null, { block: 16, keyType: 'A' }).length;
+
+const HardnestedSimulator = ({
+  target,
+  progress,
+  isRunning,
+  onTargetChange,
+  onRun
+}: {
+  target: NestedTarget;
+  progress: HardnestedProgress | null;
+  isRunning: boolean;
+  onTargetChange: (target: NestedTarget) => void;
+  onRun: () => void;
+}) => {
+  const targetSector = blockToSector(target.block);
+  const actualKey = target.keyType === 'A' ? HARDNESTED_SECTOR_KEYS[targetSector].keyA : HARDNESTED_SECTOR_KEYS[targetSector].keyB;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 mb-3 lg:mb-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 lg:mb-4 text-fuchsia-400 flex items-center gap-2">
+        <Target size={16} className="lg:w-5 lg:h-5" />
+        Hardnested Attack 模擬
+      </h3>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs mb-4">
+        <div>
+          <div className="text-slate-400 mb-1">已知金鑰</div>
+          <div className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 font-mono">
+            扇區 0 Key A {keyToHex(KNOWN_KEY.key)}
+          </div>
+        </div>
+        <label>
+          <div className="text-slate-400 mb-1">目標扇區</div>
+          <select
+            value={targetSector}
+            disabled={isRunning}
+            onChange={(e) => onTargetChange({ ...target, block: Number(e.target.value) * 4 })}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white"
+          >
+            {HARDNESTED_SECTOR_KEYS.map((_, sector) => sector > 0 && (
+              <option key={sector} value={sector}>扇區 {sector}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-1">
+          {(['A', 'B'] as const).map(type => (
+            <button
+              key={type}
+              disabled={isRunning}
+              onClick={() => onTargetChange({ ...target, keyType: type })}
+              className={`px-3 py-1.5 rounded font-mono transition-colors ${
+                target.keyType === type ? 'bg-fuchsia-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              Key {type}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning}
+          className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+            isRunning ? 'bg-slate-700/50 text-slate-500 cursor-not-allowed' : 'bg-fuchsia-600 hover:bg-fuchsia-700 text-white'
+          }`}
+        >
+          {isRunning ? '攻擊中...' : '▶ 執行攻擊'}
+        </button>
+      </div>
+
+      {progress && (
+        <div className="space-y-3 text-xs">
+          <div className="bg-slate-900/50 rounded p-2 font-mono text-rose-300">
+            [{progress.phase}] {progress.message}
+          </div>
+
+          {/* 第一個位元組的同位值：16 × 16，亮色為 1、暗色為 0、空白為尚未出現 */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div>
+              <div className="text-slate-400 mb-1">
+                p0 ⊕ oddparity({'{nT}'}0)（{progress.coverage}/256）
+              </div>
+              <div className="grid gap-px w-fit" style={{ gridTemplateColumns: 'repeat(16, 1fr)' }}>
+                {progress.firstByteParity.map((f, b) => (
+                  <div
+                    key={b}
+                    title={`${b.toString(16).toUpperCase().padStart(2, '0')}: ${f === -1 ? '?' : f}`}
+                    className={`w-2.5 h-2.5 sm:w-3 sm:h-3 ${
+                      f === -1 ? 'bg-slate-800' : f === 1 ? 'bg-fuchsia-400' : 'bg-fuchsia-900'
+                    }`}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 flex-1 content-start">
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">明文 nT</div>
+                <div className="font-mono text-white text-sm">
+                  {progress.prngValid === null ? '—' : progress.prngValid ? '弱 PRNG' : '強化 PRNG'}
+                </div>
+              </div>
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">加密 nonce</div>
+                <div className="font-mono text-white text-sm">{progress.nonces.toLocaleString()}</div>
+              </div>
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">同位和 S1</div>
+                <div className="font-mono text-white text-sm">{progress.sum ?? '—'}</div>
+              </div>
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">bitflip 0x80</div>
+                <div className="font-mono text-white text-sm">
+                  {progress.sum === null ? '—' : progress.bitflip === null ? '不恆定' : `恆為 ${progress.bitflip}`}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* 金鑰空間縮減 */}
+          <div className="space-y-1">
+            <div className="text-slate-400">金鑰空間</div>
+            {progress.keySpace.map((stage, i) => (
+              <motion.div
+                key={i}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="flex items-center gap-2"
+              >
+                <div className="w-40 sm:w-48 text-slate-300 truncate">{stage.label}</div>
+                <div className="flex-1 bg-slate-900/50 rounded h-3 overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-fuchsia-600 to-rose-500"
+                    style={{ width: `${Math.max(1, (Math.log2(Math.max(stage.size, 1)) / 48) * 100)}%` }}
+                  />
+                </div>
+                <div className="w-16 text-right font-mono text-white">{formatLog2(stage.size)}</div>
+              </motion.div>
+            ))}
+            <Link href="/bruteforce" className="inline-block text-fuchsia-300 hover:text-fuchsia-200 underline">
+              實際跑一次 2^16 / 2^32 / 2^48 的暴力搜尋 →
+            </Link>
+          </div>
+
+          <div className="bg-slate-900/50 rounded p-2">
+            <div className="text-slate-400">還原結果</div>
+            <div className={`font-mono text-sm ${progress.key !== null ? 'text-green-300' : 'text-slate-500'}`}>
+              {progress.key !== null ? `${keyToHex(progress.key)} ${progress.key === actualKey ? '✓' : ''}` : '—'}
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default function HardnestedAttackPage() {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [target, setTarget] = useState<NestedTarget>({ block: 16, keyType: 'A' });
+  const [progress, setProgress] = useState<HardnestedProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const hardnestedSteps = useMemo(() => buildHardnestedSteps(progress, target), [progress, target]);
+
+  const runAttack = async () => {
+    setIsRunning(true);
+    setProgress(null);
+    const card = createVirtualCard(HARDNESTED_CARD_UID, HARDNESTED_SECTOR_KEYS, { hardened: true });
+    await runHardnestedAttack(card, KNOWN_KEY, target, setProgress);
+    setIsRunning(false);
+  };
+
+  const changeTarget = (next: NestedTarget) => {
+    setTarget(next);
+    setProgress(null);
+  };
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isPlaying) {
+      interval = setInterval(() => {
+        setCurrentStep((prev) => {
+          if (prev >= HARDNESTED_STEP_COUNT - 1) {
+            return 0;
+          }
+          return prev + 1;
+        });
+      }, 4000);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, currentStep]);
+
+  const resetAnimation = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlayPause = () => {
+    setIsPlaying(!isPlaying);
+  };
+
+  const goToStep = (stepIndex: number) => {
+    setCurrentStep(stepIndex);
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
+        >
+          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
+            <motion.div
+              whileHover={{ scale: 1.1 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Link href="/" className="text-fuchsia-400 hover:text-fuchsia-300 transition-colors flex-shrink-0">
+                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+              </Link>
+            </motion.div>
+            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-fuchsia-400 to-rose-400 bg-clip-text text-transparent">
+              Hardnested Attack
+            </h1>
+          </div>
+          
+          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
+            <motion.button
+              onClick={togglePlayPause}
+              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-fuchsia-600 hover:bg-fuchsia-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
+              {isPlaying ? "暫停" : "播放"}
+            </motion.button>
+            <motion.button
+              onClick={resetAnimation}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <RotateCcw size={20} />
+              重置
+            </motion.button>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 lg:gap-8">
+          {/* 主要動畫區域 */}
+          <div className="lg:col-span-2">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6"
+            >
+              {/* 當前步驟標題 */}
+              <div className="text-center mb-4 lg:mb-8">
+                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1 lg:mb-2">
+                  步驟 {currentStep + 1}: {hardnestedSteps[currentStep]?.title}
+                </h3>
+                <p className="text-slate-300 mb-2 lg:mb-4 text-sm lg:text-base">
+                  {hardnestedSteps[currentStep]?.description}
+                </p>
+                <div className="inline-flex items-center gap-1 lg:gap-2 px-2 lg:px-3 py-1 bg-fuchsia-600/20 border border-fuchsia-500/30 rounded-full text-fuchsia-400 text-xs lg:text-sm">
+                  <Shield size={12} className="lg:w-4 lg:h-4" />
+                  {hardnestedSteps[currentStep]?.phase}
+                </div>
+              </div>
+
+              {/* 攻擊動畫區域 */}
+              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6">
+                <div className="flex items-center justify-between mb-4 lg:mb-8">
+                  {/* 攻擊者 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        scale: [1, 1.1, 1],
+                        boxShadow: [
+                          '0 0 0px rgba(217, 70, 239, 0.5)', 
+                          '0 0 20px rgba(217, 70, 239, 0.8)', 
+                          '0 0 0px rgba(217, 70, 239, 0.5)'
+                        ]
+                      }}
+                      transition={{ 
+                        duration: 2, 
+                        repeat: Infinity,
+                        repeatType: "reverse"
+                      }}
+                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-fuchsia-500 to-fuchsia-700 rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center"
+                    >
+                      <Target size={20} className="sm:w-6 sm:h-6 lg:w-8 lg:h-8 text-white" />
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">攻擊者 (Proxmark3)</p>
+                  </div>
+
+                  {/* 攻擊流程動畫 */}
+                  <div className="flex-1 mx-4 lg:mx-8 relative h-12 lg:h-20 flex items-center">
+                    {/* 攻擊向量 */}
+                    <motion.div
+                      animate={{
+                        x: [0, 50, 0],
+                        opacity: [0.3, 1, 0.3],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                      }}
+                      className="absolute left-0 w-6 h-1 bg-gradient-to-r from-fuchsia-500 to-rose-500 rounded-full"
+                    />
+                    
+                    {/* 資料流 */}
+                    <div className="w-full text-center">
+                      <div className="mb-1 lg:mb-2">
+                        <motion.div
+                          animate={{
+                            opacity: [0.5, 1, 0.5],
+                          }}
+                          transition={{
+                            duration: 2,
+                            repeat: Infinity,
+                          }}
+                          className="text-rose-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded"
+                        >
+                          {hardnestedSteps[currentStep]?.attackerAction}
+                        </motion.div>
+                      </div>
+                      <div className="text-blue-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded">
+                        {hardnestedSteps[currentStep]?.cardResponse}
+                      </div>
+                    </div>
+
+                    {/* 反向數據流 */}
+                    <motion.div
+                      animate={{
+                        x: [0, -50, 0],
+                        opacity: [0.3, 1, 0.3],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                        delay: 1.5,
+                      }}
+                      className="absolute right-0 w-6 h-1 bg-gradient-to-l from-blue-500 to-cyan-500 rounded-full"
+                    />
+                  </div>
+
+                  {/* 目標卡片 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        boxShadow: currentStep >= 7 ? 
+                          ['0 0 0px rgba(217, 70, 239, 0.5)', '0 0 20px rgba(217, 70, 239, 0.8)', '0 0 0px rgba(217, 70, 239, 0.5)'] :
+                          ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
+                      }}
+                      transition={{ duration: 2, repeat: Infinity }}
+                      className={`w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b ${currentStep >= 7 ? 'from-fuchsia-500 to-fuchsia-700' : 'from-blue-500 to-blue-700'} rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center`}
+                    >
+                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">Mifare 卡片</p>
+                  </div>
+                </div>
+
+                {/* 漏洞說明 */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-fuchsia-900/20 border border-fuchsia-500/30 rounded-lg p-2 lg:p-4"
+                >
+                  <div className="flex items-center gap-1 lg:gap-2 mb-1 lg:mb-2">
+                    <Shield size={14} className="lg:w-4 lg:h-4 text-fuchsia-400" />
+                    <span className="text-fuchsia-400 font-semibold text-xs lg:text-sm">安全漏洞</span>
+                  </div>
+                  <p className="text-slate-300 text-xs lg:text-sm">
+                    {hardnestedSteps[currentStep]?.vulnerability}
+                  </p>
+                </motion.div>
+              </div>
+
+              {/* 攻擊原理說明 - 移到主要動畫區域下方 */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-slate-900/30 border border-fuchsia-500/20 rounded-lg p-3 sm:p-4 lg:p-6"
+              >
+                <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 text-rose-400 flex items-center gap-2">
+                  <Shield size={16} className="lg:w-5 lg:h-5" />
+                  攻擊原理
+                </h3>
+                <div className="text-xs sm:text-sm text-slate-300 leading-relaxed">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={currentStep}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      {hardnestedSteps[currentStep]?.details}
+                    </motion.div>
+                  </AnimatePresence>
+                </div>
+              </motion.div>
+            </motion.div>
+
+            {/* 實際攻擊模擬 */}
+            <HardnestedSimulator
+              target={target}
+              progress={progress}
+              isRunning={isRunning}
+              onTargetChange={changeTarget}
+              onRun={runAttack}
+            />
+
+            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
+                  disabled={currentStep === 0}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === 0
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-fuchsia-600 hover:bg-fuchsia-700 text-white"
+                  }`}
+                >
+                  <ArrowLeft size={16} />
+                  上一步
+                </button>
+                
+                <div className="text-center px-4">
+                  <div className="text-sm font-medium text-white">
+                    步驟 {currentStep + 1} / {hardnestedSteps.length}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {hardnestedSteps[currentStep]?.title}
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => goToStep(Math.min(hardnestedSteps.length - 1, currentStep + 1))}
+                  disabled={currentStep === hardnestedSteps.length - 1}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === hardnestedSteps.length - 1
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-fuchsia-600 hover:bg-fuchsia-700 text-white"
+                  }`}
+                >
+                  下一步
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* 側邊欄 - 只在大螢幕顯示 */}
+          <div className="hidden lg:block space-y-3 lg:space-y-6">
+            {/* 步驟導航 */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 max-h-[calc(100vh-12rem)] flex flex-col"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 flex items-center gap-2 flex-shrink-0">
+                <Shield size={16} className="lg:w-5 lg:h-5 text-fuchsia-400" />
+                攻擊步驟
+              </h3>
+              <div className="space-y-1 lg:space-y-2 overflow-y-auto flex-1 pr-2 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
+                {hardnestedSteps.map((step, index) => (
+                  <motion.button
+                    key={step.id}
+                    onClick={() => goToStep(index)}
+                    className={`w-full text-left p-2 lg:p-3 rounded-lg transition-all duration-300 touch-manipulation min-h-[44px] ${
+                      index === currentStep
+                        ? "bg-fuchsia-600/30 border border-fuchsia-500/50 text-white shadow-lg"
+                        : index < currentStep
+                        ? "bg-purple-900/30 text-purple-400"
+                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
+                    }`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <div className="flex items-center gap-2 lg:gap-3">
+                      <div className={`w-5 h-5 lg:w-6 lg:h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                        index === currentStep
+                          ? "bg-fuchsia-500 text-white"
+                          : index < currentStep
+                          ? "bg-purple-500 text-white"
+                          : "bg-slate-600 text-slate-400"
+                      }`}>
+                        {index + 1}
+                      </div>
+                      <div>
+                        <p className="font-medium text-xs sm:text-sm">{step.title}</p>
+                        <p className="text-xs opacity-75">{step.phase}</p>
+                      </div>
+                    </div>
+                  </motion.button>
+                ))}
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
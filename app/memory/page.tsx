@@ -3,7 +3,13 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, Calculator, Check, FileDown, FileUp, KeyRound, ShieldCheck, SlidersHorizontal, TriangleAlert, Upload, X } from 'lucide-react';
+import { accessGroup, accessGroupBlocks, blockToSector, ByteRange, CARD_MODELS, CARD_TYPES, CardType, cardTypeForBlocks, cryptoUid, DEMO_UIDS, detectUidSize, isTrailerBlock, manufacturerLayout, sectorBlockCount, sectorCount, sectorFirstBlock, sectorTrailerBlock, UID_SIZES, uidAtqa, UidSize } from '@/lib/cardLayout';
+import { keyFromHex, keyToHex } from '@/lib/crypto1';
+import { bytesToHex, CardDump, detectDumpFormat, DUMP_MIME_TYPES, DumpCardInfo, DumpFormat, hexToBytes, parseDump, serializeDump } from '@/lib/dump';
+import { computeBcc } from '@/lib/iso14443a';
+import { DEFAULT_DICTIONARY, FoundKey, KeyCheckProgress, KeyDictionary, parseDictionary, runKeyCheck } from '@/lib/keyCheck';
+import { createVirtualCard, KeyType } from '@/lib/virtualCard';
 
 interface MemoryBlock {
   block: number;
@@ -15,6 +21,7 @@ interface MemoryBlock {
   keyA?: string;
   keyB?: string;
   accessBits?: string;
+  unknownBytes?: number[];    // 未讀到的位元組位置，data 中以 00 佔位
   valueInfo?: {
     value: number;
     valueInverted: number;
@@ -236,7 +243,7 @@ const memoryData: MemoryBlock[] = [
   // 扇區 0 - 尾塊 (混合權限：資料只讀，尾塊預設)
   {
     block: 3, sector: 0, address: 0x03,
-    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(4, 4, 4, 0)}FFFFFFFFFFFF`,
+    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(4, 4, 4, 0)}69FFFFFFFFFFFF`,
     type: 'trailer',
     description: "扇區尾塊：混合模式 - 資料區塊只讀，尾塊預設權限",
     keyA: "FFFFFFFFFFFF",
@@ -268,7 +275,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 7, sector: 1, address: 0x07,
-    data: `A0A1A2A3A4A5${generateAccessBitsByBlocks(0, 1, 2, 3)}B0B1B2B3B4B5`,
+    data: `A0A1A2A3A4A5${generateAccessBitsByBlocks(0, 1, 2, 3)}69B0B1B2B3B4B5`,
     type: 'trailer',
     description: "扇區尾塊：漸進式權限 - Block0(000)→Block1(001)→Block2(010)→Trailer(011)",
     keyA: "A0A1A2A3A4A5",
@@ -296,7 +303,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 11, sector: 2, address: 0x0B,
-    data: `C1C2C3C4C5C6${generateAccessBitsByBlocks(4, 5, 6, 7)}C6C7C8C9CACB`,
+    data: `C1C2C3C4C5C6${generateAccessBitsByBlocks(4, 5, 6, 7)}69C6C7C8C9CACB`,
     type: 'trailer',
     description: "扇區尾塊：高安全性配置 - 從只讀到完全禁止",
     keyA: "C1C2C3C4C5C6",
@@ -336,7 +343,7 @@ const memoryData: MemoryBlock[] = [
   })(),
   {
     block: 15, sector: 3, address: 0x0F,
-    data: `D1D2D3D4D5D6${generateAccessBitsByBlocks(0, 1, 2, 1)}D6D7D8D9DADB`,
+    data: `D1D2D3D4D5D6${generateAccessBitsByBlocks(0, 1, 2, 1)}69D6D7D8D9DADB`,
     type: 'trailer',
     description: "扇區尾塊：值區塊優化配置",
     keyA: "D1D2D3D4D5D6",
@@ -364,7 +371,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 19, sector: 4, address: 0x13,
-    data: `E1E2E3E4E5E6${generateAccessBitsByBlocks(2, 6, 4, 2)}E6E7E8E9EAEB`,
+    data: `E1E2E3E4E5E6${generateAccessBitsByBlocks(2, 6, 4, 2)}69E6E7E8E9EAEB`,
     type: 'trailer',
     description: "扇區尾塊：數據保護配置 - 分級權限管理",
     keyA: "E1E2E3E4E5E6",
@@ -396,7 +403,7 @@ const memoryData: MemoryBlock[] = [
   })(),
   {
     block: 23, sector: 5, address: 0x17,
-    data: `F1F2F3F4F5F6${generateAccessBitsByBlocks(0, 0, 0, 0)}F6F7F8F9FAFB`,
+    data: `F1F2F3F4F5F6${generateAccessBitsByBlocks(0, 0, 0, 0)}69F6F7F8F9FAFB`,
     type: 'trailer',
     description: "扇區尾塊：應用程式配置 - 全開放模式",
     keyA: "F1F2F3F4F5F6",
@@ -424,7 +431,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 27, sector: 6, address: 0x1B,
-    data: `010203040506${generateAccessBitsByBlocks(6, 6, 6, 6)}060708090A0B`,
+    data: `010203040506${generateAccessBitsByBlocks(6, 6, 6, 6)}69060708090A0B`,
     type: 'trailer',
     description: "扇區尾塊：安全存取配置 - 全部金鑰 B 嚴格控制",
     keyA: "010203040506",
@@ -452,7 +459,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 31, sector: 7, address: 0x1F,
-    data: `111213141516${generateAccessBitsByBlocks(7, 7, 7, 7)}161718191A1B`,
+    data: `111213141516${generateAccessBitsByBlocks(7, 7, 7, 7)}69161718191A1B`,
     type: 'trailer',
     description: "扇區尾塊：最高安全性 - 完全鎖定所有區塊",
     keyA: "111213141516",
@@ -489,7 +496,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 35, sector: 8, address: 0x23,
-    data: `212223242526${generateAccessBitsByBlocks(2, 1, 4, 2)}262728292A2B`,
+    data: `212223242526${generateAccessBitsByBlocks(2, 1, 4, 2)}69262728292A2B`,
     type: 'trailer',
     description: "扇區尾塊：混合值區塊配置",
     keyA: "212223242526",
@@ -517,7 +524,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 39, sector: 9, address: 0x27,
-    data: `313233343536${generateAccessBitsByBlocks(0, 1, 6, 3)}363738393A3B`,
+    data: `313233343536${generateAccessBitsByBlocks(0, 1, 6, 3)}69363738393A3B`,
     type: 'trailer',
     description: "扇區尾塊：分層安全配置",
     keyA: "313233343536",
@@ -547,7 +554,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 43, sector: 10, address: 0x2B,
-    data: `414243444546${generateAccessBitsByBlocks(0, 0, 0, 0)}464748494A4B`,
+    data: `414243444546${generateAccessBitsByBlocks(0, 0, 0, 0)}69464748494A4B`,
     type: 'trailer',
     description: "扇區尾塊：全公開配置",
     keyA: "414243444546",
@@ -576,7 +583,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 47, sector: 11, address: 0x2F,
-    data: `515253545556${generateAccessBitsByBlocks(2, 4, 5, 4)}565758595A5B`,
+    data: `515253545556${generateAccessBitsByBlocks(2, 4, 5, 4)}69565758595A5B`,
     type: 'trailer',
     description: "扇區尾塊：漸進式只讀配置",
     keyA: "515253545556",
@@ -605,7 +612,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 51, sector: 12, address: 0x33,
-    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(0, 0, 0, 0)}FFFFFFFFFFFF`,
+    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(0, 0, 0, 0)}69FFFFFFFFFFFF`,
     type: 'trailer',
     description: "扇區尾塊：預設配置",
     keyA: "FFFFFFFFFFFF",
@@ -634,7 +641,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 55, sector: 13, address: 0x37,
-    data: `717273747576${generateAccessBitsByBlocks(7, 7, 7, 7)}767778797A7B`,
+    data: `717273747576${generateAccessBitsByBlocks(7, 7, 7, 7)}69767778797A7B`,
     type: 'trailer',
     description: "扇區尾塊：完全鎖定配置",
     keyA: "717273747576",
@@ -663,7 +670,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 59, sector: 14, address: 0x3B,
-    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(1, 2, 3, 1)}FFFFFFFFFFFF`,
+    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(1, 2, 3, 1)}69FFFFFFFFFFFF`,
     type: 'trailer',
     description: "扇區尾塊：漸進式配置範例",
     keyA: "FFFFFFFFFFFF",
@@ -690,7 +697,7 @@ const memoryData: MemoryBlock[] = [
   },
   {
     block: 63, sector: 15, address: 0x3F,
-    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(0, 0, 0, 0)}FFFFFFFFFFFF`,
+    data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(0, 0, 0, 0)}69FFFFFFFFFFFF`,
     type: 'trailer',
     description: "扇區尾塊：預設配置",
     keyA: "FFFFFFFFFFFF",
@@ -699,6 +706,39 @@ const memoryData: MemoryBlock[] = [
   }
 ];
 
+// 出廠狀態的區塊：資料全為 0，尾塊使用預設金鑰與出廠存取位元 FF0780
+const factoryBlock = (block: number): MemoryBlock => {
+  const base = { block, sector: blockToSector(block), address: block };
+  if (isTrailerBlock(block)) {
+    return {
+      ...base,
+      data: `FFFFFFFFFFFF${generateAccessBitsByBlocks(0, 0, 0, 1)}69FFFFFFFFFFFF`,
+      type: 'trailer',
+      description: "扇區尾塊：出廠狀態",
+      keyA: "FFFFFFFFFFFF",
+      keyB: "FFFFFFFFFFFF",
+      accessBits: generateAccessBitsByBlocks(0, 0, 0, 1)
+    };
+  }
+  return { ...base, data: "00000000000000000000000000000000", type: 'data', description: "資料區塊：出廠狀態" };
+};
+
+// 各卡型的範例：前 16 個扇區沿用 1K 範例，超出的扇區為出廠狀態，區塊 0 換上該卡型與 UID 長度的 UID / SAK / ATQA
+const createExampleMemory = (type: CardType, uidSize: UidSize): MemoryBlock[] => {
+  const model = CARD_MODELS[type];
+  const { blocks } = model;
+  const uid = DEMO_UIDS[uidSize];
+  const atqa = uidAtqa(model, uidSize);
+  const cardBytes = [...uid, ...(uidSize === 4 ? [computeBcc(uid)] : []), model.sak, atqa & 0xFF, atqa >> 8];
+  // 製造商資料沿用 1K 範例的位元組
+  const block0 = [...cardBytes, ...hexToBytes(memoryData[0].data).slice(cardBytes.length)];
+  return [
+    { ...memoryData[0], data: bytesToHex(block0).toLowerCase() },
+    ...memoryData.slice(1, blocks),
+    ...Array.from({ length: Math.max(0, blocks - memoryData.length) }, (_, i) => factoryBlock(memoryData.length + i))
+  ];
+};
+
 type HighlightType = 'uid' | 'bcc' | 'sak' | 'atqa' | 'manufacturer_data' | 'key_a' | 'access_bits' | 'key_b' | 'value' | 'value_inverted' | 'address_backup' | 'normal';
 
 const getHighlightColor = (type: HighlightType): string => {
@@ -737,13 +777,9 @@ const getHighlightDescription = (type: HighlightType): string => {
   }
 };
 
-const getByteHighlight = (block: MemoryBlock, byteIndex: number): HighlightType => {
+const getByteHighlight = (block: MemoryBlock, byteIndex: number, uidSize: UidSize): HighlightType => {
   if (block.type === 'manufacturer' && block.block === 0) {
-    if (byteIndex >= 0 && byteIndex <= 3) return 'uid';
-    if (byteIndex === 4) return 'bcc';
-    if (byteIndex === 5) return 'sak';
-    if (byteIndex >= 6 && byteIndex <= 7) return 'atqa';
-    return 'manufacturer_data';
+    return getDataGroupRange(block, byteIndex, uidSize).type;
   }
 
   if (block.type === 'trailer') {
@@ -763,13 +799,15 @@ const getByteHighlight = (block: MemoryBlock, byteIndex: number): HighlightType
   return 'normal';
 };
 
-const getDataGroupRange = (block: MemoryBlock, byteIndex: number): { start: number; end: number; type: HighlightType } => {
+const getDataGroupRange = (block: MemoryBlock, byteIndex: number, uidSize: UidSize): { start: number; end: number; type: HighlightType } => {
   if (block.type === 'manufacturer' && block.block === 0) {
-    if (byteIndex >= 0 && byteIndex <= 3) return { start: 0, end: 3, type: 'uid' };
-    if (byteIndex === 4) return { start: 4, end: 4, type: 'bcc' };
-    if (byteIndex === 5) return { start: 5, end: 5, type: 'sak' };
-    if (byteIndex >= 6 && byteIndex <= 7) return { start: 6, end: 7, type: 'atqa' };
-    return { start: 8, end: 15, type: 'manufacturer_data' };
+    // 7 / 10-byte UID 的區塊 0 沒有 BCC，SAK 與 ATQA 往後移
+    const layout = manufacturerLayout(uidSize);
+    if (byteIndex <= layout.uid.end) return { ...layout.uid, type: 'uid' };
+    if (byteIndex === layout.bcc) return { start: layout.bcc, end: layout.bcc, type: 'bcc' };
+    if (byteIndex === layout.sak) return { start: layout.sak, end: layout.sak, type: 'sak' };
+    if (byteIndex >= layout.atqa.start && byteIndex <= layout.atqa.end) return { ...layout.atqa, type: 'atqa' };
+    return { ...layout.manufacturerData, type: 'manufacturer_data' };
   }
 
   if (block.type === 'trailer') {
@@ -971,8 +1009,7 @@ const generateMixedAccessBitsExample = () => {
   return generateAccessBitsByBlocks(2, 2, 2, 1); // "3F0BC4"
 };
 
-// 從C1C2C3位元創建有效的存取位元（保留供未來使用）
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
+// 從C1C2C3位元創建有效的存取位元
 const createAccessBitsFromPermissions = (
   block0: { c1: number, c2: number, c3: number },
   block1: { c1: number, c2: number, c3: number },
@@ -1245,8 +1282,8 @@ const parseAccessBits = (accessBits: string) => {
   return getAccessModeDescription(accessBits);
 };
 
-// 解析特定區塊的存取模式
-const parseBlockAccessMode = (accessBits: string, blockInSector: number) => {
+// 解析特定區塊的存取模式（group 為存取位元組別，3 為尾塊）
+const parseBlockAccessMode = (accessBits: string, group: number) => {
   // 首先驗證格式
   const validation = validateAccessBits(accessBits);
   if (!validation.valid) {
@@ -1256,11 +1293,11 @@ const parseBlockAccessMode = (accessBits: string, blockInSector: number) => {
   const bitAnalysis = parseAccessBitsByBlock(accessBits);
   let currentBlockData;
   
-  if (blockInSector === 0) {
+  if (group === 0) {
     currentBlockData = bitAnalysis.block0;
-  } else if (blockInSector === 1) {
+  } else if (group === 1) {
     currentBlockData = bitAnalysis.block1;
-  } else if (blockInSector === 2) {
+  } else if (group === 2) {
     currentBlockData = bitAnalysis.block2;
   } else {
     // 扇區尾塊
@@ -1279,7 +1316,7 @@ const parseBlockAccessMode = (accessBits: string, blockInSector: number) => {
   const c1c2c3 = `${currentBlockData.bits.c1}${currentBlockData.bits.c2}${currentBlockData.bits.c3}`;
   
   // 根據區塊類型和 C1C2C3 值決定模式名稱和顏色
-  const isTrailer = blockInSector === 3;
+  const isTrailer = group === 3;
   
   if (isTrailer) {
     // 尾塊模式
@@ -1433,20 +1470,166 @@ const getSectorTrailerInfo = (sectorNumber: number, memoryData: MemoryBlock[]) =
   };
 };
 
+// 區塊結構檢查：回傳格式錯誤的位元組與說明，編輯後立即在 HexEditor 中標示
+interface StructureIssue {
+  bytes: number[];
+  message: string;
+}
+
+const checkBlockStructure = (block: MemoryBlock, uidSize: UidSize): StructureIssue[] => {
+  // 含未讀位元組的區塊無法判斷
+  if (block.unknownBytes) return [];
+  const issues: StructureIssue[] = [];
+
+  if (block.type === 'value') {
+    const errors = parseValueBlock(block.data)?.validationErrors;
+    if (errors?.valueInverted) issues.push({ bytes: [4, 5, 6, 7], message: '值反碼不符：位元組 4-7 應為 0-3 的反相' });
+    if (errors?.valueBackup) issues.push({ bytes: [8, 9, 10, 11], message: '值備份不符：位元組 8-11 應與 0-3 相同' });
+    if (errors?.addrInverted) issues.push({ bytes: [13], message: '地址反碼不符：位元組 13 應為 12 的反相' });
+    if (errors?.addrBackup) issues.push({ bytes: [14, 15], message: '地址備份不符：位元組 14-15 應與 12-13 相同' });
+  }
+
+  if (block.type === 'trailer') {
+    const validation = validateAccessBits(block.data.substring(12, 18));
+    if (!validation.valid) issues.push({ bytes: [6, 7, 8], message: `存取位元反相不符：${validation.error}` });
+  }
+
+  if (block.type === 'manufacturer' && uidSize === 4) {
+    const bytes = hexToBytes(block.data);
+    const bcc = computeBcc(bytes.slice(0, 4));
+    if (bytes[4] !== bcc) {
+      issues.push({ bytes: [4], message: `BCC 錯誤：應為 ${bcc.toString(16).padStart(2, '0').toUpperCase()}` });
+    }
+  }
+
+  return issues;
+};
+
+// 覆寫一個位元組後重新解讀區塊：值區塊被破壞時保留類型以便標示錯誤，資料區塊寫成有效格式時視為值區塊
+const editBlockByte = (block: MemoryBlock, byteIndex: number, value: number): MemoryBlock => {
+  const bytes = hexToBytes(block.data);
+  bytes[byteIndex] = value;
+  const data = bytesToHex(bytes);
+  const unknownBytes = block.unknownBytes?.filter(index => index !== byteIndex);
+  const edited: MemoryBlock = { ...block, data, unknownBytes: unknownBytes?.length ? unknownBytes : undefined };
+
+  // 尾塊只更新被寫入的欄位，其餘沿用已知的金鑰
+  if (block.type === 'trailer') {
+    if (byteIndex <= 5) return { ...edited, keyA: data.substring(0, 12) };
+    if (byteIndex <= 8) return { ...edited, accessBits: data.substring(12, 18) };
+    if (byteIndex >= 10) return { ...edited, keyB: data.substring(20, 32) };
+    return edited;
+  }
+  if (block.type === 'manufacturer' || edited.unknownBytes) return edited;
+
+  const valueInfo = parseValueBlock(data);
+  if (valueInfo && (block.type === 'value' || valueInfo.isValid)) {
+    return {
+      ...edited,
+      type: 'value',
+      description: valueInfo.isValid ? `值區塊：${valueInfo.value}` : '值區塊：格式錯誤',
+      valueInfo
+    };
+  }
+  return edited;
+};
+
+interface EditCursor {
+  block: number;
+  byte: number;
+  nibble: 0 | 1;
+}
+
 const HexEditor = ({
   data,
+  uidSize,
   selectedBlock,
   onBlockSelect,
-  selectedSector
+  onByteChange,
+  onTrailerWrite,
+  selectedSector,
+  transferDiff
 }: {
   data: MemoryBlock[];
+  uidSize: UidSize;
   selectedBlock: number | null;
   onBlockSelect: (block: number) => void;
+  onByteChange: (block: number, byte: number, value: number) => void;
+  onTrailerWrite: (block: number, changes: [number, number][]) => void;
   selectedSector: number | null;
+  transferDiff: { block: number; before: string } | null;
 }) => {
   const [hoveredGroup, setHoveredGroup] = useState<{ blockIndex: number, start: number, end: number } | null>(null);
+  const [cursor, setCursor] = useState<EditCursor | null>(null);
+  // 尾塊的改動先暫存，像真實卡片一樣整塊寫入，寫入前會做安全檢查
+  const [draft, setDraft] = useState<{ block: number; bytes: Map<number, number> } | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+  const commitDraft = () => {
+    if (draft) onTrailerWrite(draft.block, Array.from(draft.bytes.entries()));
+    setDraft(null);
+  };
+
+  // 游標離開暫存中的尾塊時送出寫入
+  const leaveDraft = (block: number) => {
+    if (draft && draft.block !== block) commitDraft();
+  };
+
+  // 游標移到其他區塊時一併選取並捲動到可見範圍
+  const moveCursor = (next: EditCursor) => {
+    leaveDraft(next.block);
+    setCursor(next);
+    if (next.block !== cursor?.block) {
+      onBlockSelect(next.block);
+      scrollContainerRef.current?.querySelector(`[data-block="${next.block}"]`)?.scrollIntoView({ block: 'nearest' });
+    }
+  };
+
+  // 以位元組為單位移動，跨越區塊邊界時換到上一個或下一個區塊
+  const moveBytes = (from: EditCursor, offset: number) => {
+    const position = Math.min(Math.max(from.block * 16 + from.byte + offset, 0), data.length * 16 - 1);
+    moveCursor({ block: Math.floor(position / 16), byte: position % 16, nibble: 0 });
+  };
+
+  // 覆寫模式：每個十六進位字元取代游標所在的半位元組，輸入兩個字元後前進到下一個位元組
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // 換卡後游標可能超出範圍
+    if (!cursor || cursor.block >= data.length) return;
+    const { key } = event;
+    if (/^[0-9a-fA-F]$/.test(key)) {
+      const digit = parseInt(key, 16);
+      const block = data[cursor.block];
+      const staged = draft?.block === cursor.block ? draft.bytes.get(cursor.byte) : undefined;
+      const current = staged ?? (block.unknownBytes?.includes(cursor.byte) ? 0 : parseInt(block.data.substring(cursor.byte * 2, cursor.byte * 2 + 2), 16));
+      const value = cursor.nibble === 0 ? (digit << 4) | (current & 0x0F) : (current & 0xF0) | digit;
+      if (isTrailerBlock(cursor.block)) {
+        const bytes = new Map(draft?.block === cursor.block ? draft.bytes : []);
+        setDraft({ block: cursor.block, bytes: bytes.set(cursor.byte, value) });
+      } else {
+        onByteChange(cursor.block, cursor.byte, value);
+      }
+      if (cursor.nibble === 0) setCursor({ ...cursor, nibble: 1 });
+      else moveBytes(cursor, 1);
+    } else if (key === 'ArrowLeft' || key === 'Backspace') {
+      moveBytes(cursor, -1);
+    } else if (key === 'ArrowRight') {
+      moveBytes(cursor, 1);
+    } else if (key === 'ArrowUp') {
+      moveBytes(cursor, -16);
+    } else if (key === 'ArrowDown') {
+      moveBytes(cursor, 16);
+    } else if (key === 'Enter') {
+      commitDraft();
+    } else if (key === 'Escape') {
+      // 放棄尚未寫入的尾塊改動
+      setDraft(null);
+      setCursor(null);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
   // 當選擇的扇區改變時，自動滾動到該扇區
   useEffect(() => {
     if (selectedSector !== null && scrollContainerRef.current) {
@@ -1475,11 +1658,23 @@ const HexEditor = ({
       </div>
 
       {/* 滾動容器 - 只有這個區域會滾動 */}
-      <div ref={scrollContainerRef} className="flex-1 overflow-y-auto overflow-x-hidden scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-800 min-h-0">
-        {data.map((block, blockIndex) => {
+      <div
+        ref={scrollContainerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="flex-1 overflow-y-auto overflow-x-hidden scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-800 min-h-0 outline-none"
+      >
+        {data.map((stored, blockIndex) => {
+          const draftBytes = draft?.block === blockIndex ? draft.bytes : null;
+          // 暫存中的尾塊以改動後的內容顯示與檢查
+          const block = draftBytes
+            ? Array.from(draftBytes).reduce((edited, [index, value]) => editBlockByte(edited, index, value), stored)
+            : stored;
           const isSelected = selectedBlock === blockIndex;
           const isTrailer = block.type === 'trailer';
-          const isSectorStart = block.block % 4 === 0; // 每個扇區的第一個區塊
+          const issues = checkBlockStructure(block, uidSize);
+          const isSectorStart = block.block === sectorFirstBlock(block.sector); // 每個扇區的第一個區塊
+          const before = transferDiff?.block === blockIndex ? transferDiff.before : null;
 
           // 顯示完整資料，包括 trailer block 的金鑰
           const displayBytes = block.data.match(/.{2}/g) || [];
@@ -1510,10 +1705,17 @@ const HexEditor = ({
                 {/* Data bytes with group-level borders */}
                 <div className="grid gap-0" style={{ gridTemplateColumns: 'repeat(16, 1fr)' }}>
                   {[...Array(16)].map((_, byteIndex) => {
-                    const byte = displayBytes[byteIndex] || '00';
-                    const highlightType = getByteHighlight(block, byteIndex);
-                    const highlightColor = getHighlightColor(highlightType);
-                    const groupRange = getDataGroupRange(block, byteIndex);
+                    const isUnknown = block.unknownBytes?.includes(byteIndex) ?? false;
+                    const byte = isUnknown ? '??' : (displayBytes[byteIndex] || '00').toUpperCase();
+                    const isCursor = cursor?.block === blockIndex && cursor.byte === byteIndex;
+                    const byteIssue = issues.find(issue => issue.bytes.includes(byteIndex));
+                    const beforeByte = before?.substring(byteIndex * 2, byteIndex * 2 + 2).toUpperCase();
+                    const isChanged = beforeByte !== undefined && beforeByte !== byte;
+                    const isStaged = draftBytes?.has(byteIndex) ?? false;
+                    const highlightType = getByteHighlight(block, byteIndex, uidSize);
+                    // 未讀到的位元組不套用資料類型顏色
+                    const highlightColor = isUnknown ? 'bg-slate-900 border border-dashed border-slate-600' : getHighlightColor(highlightType);
+                    const groupRange = getDataGroupRange(block, byteIndex, uidSize);
 
                     const isInHoveredGroup = hoveredGroup &&
                       hoveredGroup.blockIndex === blockIndex &&
@@ -1523,7 +1725,11 @@ const HexEditor = ({
                     return (
                       <motion.button
                         key={byteIndex}
-                        onClick={() => onBlockSelect(blockIndex)}
+                        onClick={() => {
+                          leaveDraft(blockIndex);
+                          onBlockSelect(blockIndex);
+                          setCursor({ block: blockIndex, byte: byteIndex, nibble: 0 });
+                        }}
                         onMouseEnter={() => setHoveredGroup({
                           blockIndex,
                           start: groupRange.start,
@@ -1532,25 +1738,65 @@ const HexEditor = ({
                         onMouseLeave={() => setHoveredGroup(null)}
                         style={{ minHeight: 0 }}
                         className={`
-                          h-5 text-xs flex items-center justify-center transition-all font-bold text-white
+                          h-5 text-xs flex items-center justify-center transition-all font-bold ${isUnknown ? 'text-slate-500' : 'text-white'}
                           ${isSelected
                             ? `${highlightColor}`
                             : `${highlightColor}`
                           }
                           ${isInHoveredGroup ? 'z-10 shadow-lg scale-110' : ''}
+                          ${isCursor ? 'z-20 ring-2 ring-inset ring-white' : byteIssue ? 'ring-2 ring-inset ring-red-500' : isStaged ? 'ring-2 ring-inset ring-purple-300' : isChanged ? 'ring-2 ring-inset ring-yellow-300' : ''}
                         `}
-                        title={`位元組 ${byteIndex}: ${byte} - ${getHighlightDescription(highlightType)}`}
+                        title={`位元組 ${byteIndex}: ${isUnknown ? '未讀取' : `${byte} - ${getHighlightDescription(highlightType)}`}${isChanged ? `\nTRANSFER 前: ${beforeByte}` : ''}${byteIssue ? `\n⚠ ${byteIssue.message}` : ''}`}
                       >
-                        {byte}
+                        {isCursor ? (
+                          <>
+                            <span className={cursor.nibble === 0 ? 'underline' : ''}>{byte[0]}</span>
+                            <span className={cursor.nibble === 1 ? 'underline' : ''}>{byte[1]}</span>
+                          </>
+                        ) : byte}
                       </motion.button>
                     );
                   })}
                 </div>
               </motion.div>
+
+              {/* TRANSFER 前後對照 */}
+              {before && (
+                <div className={`ml-16 px-2 py-0.5 text-[10px] text-yellow-300 bg-yellow-950/40 ${isTrailer ? 'mb-2' : ''}`}>
+                  TRANSFER 前：{before.toUpperCase().match(/.{2}/g)?.join(' ')}
+                  {parseValueBlock(before)?.isValid && parseValueBlock(block.data)?.isValid && (
+                    <span className="ml-2">值 {parseValueBlock(before)?.value} → {parseValueBlock(block.data)?.value}</span>
+                  )}
+                </div>
+              )}
+
+              {/* 結構錯誤就地標示 */}
+              {issues.length > 0 && (
+                <div className={`ml-16 px-2 py-0.5 text-[10px] text-red-400 bg-red-950/40 ${isTrailer ? 'mb-2' : ''}`}>
+                  {issues.map(issue => `⚠ ${issue.message}`).join('　')}
+                </div>
+              )}
             </div>
           );
         })}
       </div>
+
+      {/* 編輯狀態列 */}
+      <div className="mt-2 pt-2 border-t border-slate-700 text-xs text-slate-400 flex-shrink-0">
+        {draft ? (
+          <span>
+            <span className="px-1.5 py-0.5 mr-2 bg-amber-600 text-white rounded">暫存</span>
+            尾塊 {draft.block} 有 {draft.bytes.size} 個位元組尚未寫入 — Enter 或移到其他區塊即寫入（會先做安全檢查），Esc 放棄
+          </span>
+        ) : cursor ? (
+          <span>
+            <span className="px-1.5 py-0.5 mr-2 bg-purple-600 text-white rounded">OVR</span>
+            區塊 {cursor.block} · 位元組 {cursor.byte} — 輸入十六進位覆寫，方向鍵移動，Esc 結束編輯
+          </span>
+        ) : (
+          <span>點選任一位元組即可直接編輯</span>
+        )}
+      </div>
     </div>
   );
 };
@@ -1604,7 +1850,7 @@ const BlockBasicInfo = ({
         <div>
           <h4 className="font-bold text-slate-300 mb-1">原始資料</h4>
           <div className="bg-slate-900 p-2 rounded font-mono text-xs break-all">
-            {block.data}
+            {(block.data.match(/.{2}/g) || []).map((byte, index) => block.unknownBytes?.includes(index) ? '??' : byte).join('')}
           </div>
         </div>
       </div>
@@ -1614,11 +1860,13 @@ const BlockBasicInfo = ({
 
 const BlockStructureDetails = ({
   block,
+  uidSize,
   selectedSector,
   memoryData,
   onBlockSelect
 }: {
   block: MemoryBlock | null;
+  uidSize: UidSize;
   selectedSector: number | null;
   memoryData: MemoryBlock[];
   onBlockSelect: (blockIndex: number) => void;
@@ -1664,10 +1912,10 @@ const BlockStructureDetails = ({
               <span className="font-mono">{selectedTrailerInfo.keyB}</span>
             </div>
             {(() => {
-              const blockInSector = block.block % 4;
+              const group = accessGroup(block.block);
               // 使用當前區塊所在扇區的存取位元，而不是選中扇區的
               const accessBitsToUse = currentSectorTrailerInfo?.accessBits || selectedTrailerInfo?.accessBits || '';
-              const currentBlockAccessInfo = parseBlockAccessMode(accessBitsToUse, blockInSector);
+              const currentBlockAccessInfo = parseBlockAccessMode(accessBitsToUse, group);
               return (
                 <div className="mt-2 space-y-2">
                   {/* 精確的位元級分析 */}
@@ -1684,8 +1932,10 @@ const BlockStructureDetails = ({
                             {[0, 1, 2, 3].map(blockNum => {
                               const blockKey = blockNum === 3 ? 'trailer' : `block${blockNum}` as 'block0' | 'block1' | 'block2';
                               const blockData = bitAnalysis[blockKey];
-                              const isCurrentBlock = blockNum === blockInSector;
-                              const targetBlockIndex = currentBlockSector! * 4 + blockNum;
+                              const isCurrentBlock = blockNum === group;
+                              // 4K 的大扇區中一組存取位元對應 5 個區塊，點擊時跳到該組第一個
+                              const groupBlocks = accessGroupBlocks(currentBlockSector!, blockNum);
+                              const targetBlockIndex = groupBlocks[0];
                               
                               const handleBlockClick = () => {
                                 onBlockSelect(targetBlockIndex);
@@ -1702,7 +1952,11 @@ const BlockStructureDetails = ({
                                   }`}
                                 >
                                   <div className={`font-semibold text-xs mb-0.5 ${isCurrentBlock ? 'text-purple-200' : 'text-slate-300'}`}>
-                                    {blockNum === 3 ? `尾塊${targetBlockIndex}` : `區塊${targetBlockIndex}`}
+                                    {blockNum === 3
+                                      ? `尾塊${targetBlockIndex}`
+                                      : groupBlocks.length > 1
+                                        ? `區塊${targetBlockIndex}-${groupBlocks[groupBlocks.length - 1]}`
+                                        : `區塊${targetBlockIndex}`}
                                   </div>
                                   <div className={`font-mono text-sm font-bold ${isCurrentBlock ? 'text-purple-100' : currentBlockAccessInfo.color}`}>
                                     {blockData.bits.c1}{blockData.bits.c2}{blockData.bits.c3}
@@ -1729,23 +1983,21 @@ const BlockStructureDetails = ({
                     </div>
                     {(() => {
                       const bitAnalysis = parseAccessBitsByBlock(accessBitsToUse);
-                      const blockInSector = block.block % 4;
+                      const groupBlocks = accessGroupBlocks(block.sector, group);
                       let currentBlockData;
-                      let blockLabel = "";
+                      const blockLabel = groupBlocks.length > 1
+                        ? `區塊 ${block.block} (與區塊 ${groupBlocks[0]}-${groupBlocks[groupBlocks.length - 1]} 共用存取位元)`
+                        : `區塊 ${block.block}`;
 
-                      if (blockInSector === 0) {
+                      if (group === 0) {
                         currentBlockData = bitAnalysis.block0;
-                        blockLabel = `區塊 ${block.block}`;
-                      } else if (blockInSector === 1) {
+                      } else if (group === 1) {
                         currentBlockData = bitAnalysis.block1;
-                        blockLabel = `區塊 ${block.block}`;
-                      } else if (blockInSector === 2) {
+                      } else if (group === 2) {
                         currentBlockData = bitAnalysis.block2;
-                        blockLabel = `區塊 ${block.block}`;
                       } else {
                         // 扇區尾塊
                         currentBlockData = bitAnalysis.trailer;
-                        blockLabel = `區塊 ${block.block}`;
                         return (
                           <div className="mt-1 border border-slate-600 rounded p-1.5">
                             <div className="font-semibold text-slate-300 mb-1 text-xs">{blockLabel} (扇區尾塊)</div>
@@ -1971,43 +2223,54 @@ const BlockStructureDetails = ({
         </div>
       )}
 
-      {block.type === 'manufacturer' && (
-        <div>
-          <h4 className="font-bold text-slate-300 mb-1 text-xs">製造商資料結構</h4>
-          <div className="grid grid-cols-1 gap-1 text-xs">
-            <div className="bg-blue-900/30 p-2 rounded">
-              <div className="font-bold text-blue-400 mb-1">UID (0-3 位元組)</div>
-              <div className="font-mono text-xs">
-                {block.data.substring(0, 8).match(/.{2}/g)?.join(' ').toUpperCase()}
-              </div>
-            </div>
-            <div className="bg-cyan-900/30 p-2 rounded">
-              <div className="font-bold text-cyan-400 mb-1">BCC (4 位元組)</div>
-              <div className="font-mono text-xs">
-                {block.data.substring(8, 10).toUpperCase()}
+      {block.type === 'manufacturer' && (() => {
+        const layout = manufacturerLayout(uidSize);
+        const bytesOf = (range: ByteRange) => block.data.substring(range.start * 2, (range.end + 1) * 2).match(/.{2}/g)?.join(' ').toUpperCase();
+        const rangeLabel = (range: ByteRange) => range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`;
+        return (
+          <div>
+            <h4 className="font-bold text-slate-300 mb-1 text-xs">製造商資料結構（{uidSize}-byte UID）</h4>
+            <div className="grid grid-cols-1 gap-1 text-xs">
+              <div className="bg-blue-900/30 p-2 rounded">
+                <div className="font-bold text-blue-400 mb-1">UID ({rangeLabel(layout.uid)} 位元組)</div>
+                <div className="font-mono text-xs">
+                  {bytesOf(layout.uid)}
+                </div>
               </div>
-            </div>
-            <div className="bg-indigo-900/30 p-2 rounded">
-              <div className="font-bold text-indigo-400 mb-1">SAK (5 位元組)</div>
-              <div className="font-mono text-xs">
-                {block.data.substring(10, 12).toUpperCase()}
+              {layout.bcc !== null ? (
+                <div className="bg-cyan-900/30 p-2 rounded">
+                  <div className="font-bold text-cyan-400 mb-1">BCC ({layout.bcc} 位元組)</div>
+                  <div className="font-mono text-xs">
+                    {bytesOf({ start: layout.bcc, end: layout.bcc })}
+                  </div>
+                </div>
+              ) : (
+                <div className="bg-slate-900/30 p-2 rounded text-slate-400">
+                  {uidSize}-byte UID 的區塊 0 不存 BCC；BCC 只在選卡時依每個 cascade level 計算
+                </div>
+              )}
+              <div className="bg-indigo-900/30 p-2 rounded">
+                <div className="font-bold text-indigo-400 mb-1">SAK ({layout.sak} 位元組)</div>
+                <div className="font-mono text-xs">
+                  {bytesOf({ start: layout.sak, end: layout.sak })}
+                </div>
               </div>
-            </div>
-            <div className="bg-purple-900/30 p-2 rounded">
-              <div className="font-bold text-purple-400 mb-1">ATQA (6-7 位元組)</div>
-              <div className="font-mono text-xs">
-                {block.data.substring(12, 16).match(/.{2}/g)?.join(' ').toUpperCase()}
+              <div className="bg-purple-900/30 p-2 rounded">
+                <div className="font-bold text-purple-400 mb-1">ATQA ({rangeLabel(layout.atqa)} 位元組)</div>
+                <div className="font-mono text-xs">
+                  {bytesOf(layout.atqa)}
+                </div>
               </div>
-            </div>
-            <div className="bg-slate-900/30 p-2 rounded">
-              <div className="font-bold text-slate-400 mb-1">製造商資料 (8-15 位元組)</div>
-              <div className="font-mono text-xs">
-                {block.data.substring(16, 32).match(/.{2}/g)?.join(' ').toUpperCase()}
+              <div className="bg-slate-900/30 p-2 rounded">
+                <div className="font-bold text-slate-400 mb-1">製造商資料 ({rangeLabel(layout.manufacturerData)} 位元組)</div>
+                <div className="font-mono text-xs">
+                  {bytesOf(layout.manufacturerData)}
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      )}
+        );
+      })()}
 
       {block.type === 'data' && (
         <div>
@@ -2021,30 +2284,1246 @@ const BlockStructureDetails = ({
   );
 };
 
+// 由記憶體內容建立模擬卡片：UID 取自區塊 0，金鑰 A / B 優先使用已知金鑰，否則取自尾塊的位元組 0-5 與 10-15
+const createCardFromMemory = (blocks: MemoryBlock[], uidSize: UidSize) => createVirtualCard(
+  cryptoUid(hexToBytes(blocks[0].data).slice(0, uidSize)),
+  blocks
+    .filter(block => block.type === 'trailer')
+    .map(block => ({
+      keyA: keyFromHex(block.keyA || block.data.substring(0, 12)),
+      keyB: keyFromHex(block.keyB || block.data.substring(20, 32))
+    }))
+);
+
+// 由傾印檔建立記憶體內容：尾塊依位置判斷，其餘區塊以 Value Block 格式是否有效區分
+const dumpToMemory = (dump: CardDump): MemoryBlock[] => dump.blocks.map((bytes, block): MemoryBlock => {
+  const sector = blockToSector(block);
+  const data = bytesToHex(bytes);
+  const unknownBytes = bytes.flatMap((byte, index) => byte === null ? [index] : []);
+  const base = { block, sector, address: block, data, ...(unknownBytes.length > 0 && { unknownBytes }) };
+
+  if (isTrailerBlock(block)) {
+    // JSON 的 SectorKeys 記錄實際使用的金鑰；讀不到的 Key A 在尾塊中通常是 00
+    const keys = dump.keys?.[sector];
+    return {
+      ...base,
+      type: 'trailer',
+      description: `扇區尾塊：存取位元 ${data.substring(12, 18)}`,
+      keyA: keys?.keyA != null ? keyToHex(keys.keyA) : data.substring(0, 12),
+      keyB: keys?.keyB != null ? keyToHex(keys.keyB) : data.substring(20, 32),
+      accessBits: data.substring(12, 18)
+    };
+  }
+  if (block === 0) {
+    return { ...base, type: 'manufacturer', description: '製造商區塊：包含 UID、BCC、SAK 等製造商資訊' };
+  }
+  const valueInfo = unknownBytes.length === 0 ? parseValueBlock(data) : null;
+  if (valueInfo?.isValid) {
+    return { ...base, type: 'value', description: `值區塊：${valueInfo.value}`, valueInfo };
+  }
+  return { ...base, type: 'data', description: '資料區塊' };
+});
+
+// 匯出目前的記憶體內容：已知金鑰寫入 SectorKeys，區塊資料原樣輸出，未讀到的位元組還原為未知
+const memoryToDump = (blocks: MemoryBlock[], card: DumpCardInfo): CardDump => ({
+  blocks: blocks.map(block => hexToBytes(block.data).map((byte, index) => block.unknownBytes?.includes(index) ? null : byte)),
+  keys: blocks
+    .filter(block => block.type === 'trailer')
+    .map(block => ({
+      keyA: keyFromHex(block.keyA || block.data.substring(0, 12)),
+      keyB: keyFromHex(block.keyB || block.data.substring(20, 32))
+    })),
+  card
+});
+
+const EXPORT_FORMATS: { format: DumpFormat; label: string }[] = [
+  { format: 'bin', label: 'Proxmark3 .bin' },
+  { format: 'eml', label: 'Proxmark3 .eml' },
+  { format: 'json', label: 'Proxmark3 .json' },
+  { format: 'mfd', label: 'libnfc .mfd' },
+  { format: 'nfc', label: 'Flipper Zero .nfc' },
+  { format: 'mct', label: 'MIFARE Classic Tool .mct' },
+];
+
+// 區塊 0 依 UID 長度取出卡片資訊，匯出沒有附帶卡片資訊的記憶體時使用
+const cardInfoFromMemory = (blocks: MemoryBlock[], uidSize: UidSize): DumpCardInfo => {
+  const bytes = hexToBytes(blocks[0].data);
+  const layout = manufacturerLayout(uidSize);
+  return {
+    uid: bytes.slice(0, uidSize),
+    atqa: bytes[layout.atqa.start] | bytes[layout.atqa.end] << 8,
+    sak: bytes[layout.sak]
+  };
+};
+
+const downloadDump = (blocks: MemoryBlock[], card: DumpCardInfo, format: DumpFormat) => {
+  const content = serializeDump(format, memoryToDump(blocks, card));
+  const url = URL.createObjectURL(new Blob([content], { type: DUMP_MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hf-mf-${bytesToHex(card.uid)}-dump.${format}`;
+  link.click();
+  // 立即釋放可能讓瀏覽器還沒開始下載就失效，稍後再釋放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// hf mf chk：以字典對每個扇區的 Key A / Key B 做驗證
+const KeyCheckPanel = ({
+  memoryData,
+  uidSize,
+  onClose
+}: {
+  memoryData: MemoryBlock[];
+  uidSize: UidSize;
+  onClose: () => void;
+}) => {
+  const [dictionaries, setDictionaries] = useState<KeyDictionary[]>([DEFAULT_DICTIONARY]);
+  const [loadMessages, setLoadMessages] = useState<string[]>([]);
+  const [progress, setProgress] = useState<KeyCheckProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const sectorCount = memoryData.filter(block => block.type === 'trailer').length;
+
+  const loadFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const loaded: KeyDictionary[] = [];
+    const messages: string[] = [];
+    for (const file of Array.from(files)) {
+      const { dictionary, invalidLines } = parseDictionary(file.name, await file.text());
+      loaded.push(dictionary);
+      messages.push(invalidLines.length > 0
+        ? `${file.name}：${dictionary.keys.length} 把金鑰，忽略第 ${invalidLines.slice(0, 5).join('、')}${invalidLines.length > 5 ? ' 等' : ''} 行`
+        : `${file.name}：${dictionary.keys.length} 把金鑰`);
+    }
+    setDictionaries(prev => [...prev.filter(d => !loaded.some(l => l.name === d.name)), ...loaded]);
+    setLoadMessages(messages);
+    setProgress(null);
+  };
+
+  const removeDictionary = (name: string) => {
+    setDictionaries(prev => prev.filter(d => d.name !== name));
+    setProgress(null);
+  };
+
+  const runCheck = async () => {
+    setIsRunning(true);
+    setProgress(null);
+    await runKeyCheck(createCardFromMemory(memoryData, uidSize), dictionaries, setProgress);
+    setIsRunning(false);
+  };
+
+  const resultCell = (found: FoundKey | null) => (
+    <>
+      <td className={`px-2 py-0.5 ${found ? 'text-green-300' : 'text-slate-500'}`}>
+        {found ? keyToHex(found.key) : '------------'}
+      </td>
+      <td className={`px-2 py-0.5 text-center ${found ? 'text-green-300' : 'text-red-400'}`}>
+        {found ? 'D' : '0'}
+      </td>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-slate-800 border border-slate-700 rounded-xl p-4 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <KeyRound size={18} className="text-purple-400" />
+            字典金鑰檢查 (hf mf chk)
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-400 mb-3">
+          以目前記憶體內容建立模擬卡片（{sectorCount} 個扇區），對每個扇區的 Key A / Key B 逐一嘗試字典中的金鑰。
+        </p>
+
+        {/* 字典清單與命中率 */}
+        <div className="bg-slate-900/50 rounded-lg p-3 mb-3 text-xs">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-bold">字典</span>
+            <label className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded cursor-pointer transition-colors">
+              <Upload size={12} />
+              載入 .dic / .keys
+              <input
+                type="file"
+                accept=".dic,.keys,.txt"
+                multiple
+                className="hidden"
+                disabled={isRunning}
+                onChange={(e) => {
+                  loadFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+          <table className="w-full font-mono">
+            <thead>
+              <tr className="text-slate-400 text-left border-b border-slate-700">
+                <th className="py-1 pr-2">名稱</th>
+                <th className="py-1 pr-2 text-right">金鑰數</th>
+                <th className="py-1 pr-2 text-right">命中</th>
+                <th className="py-1 pr-2 text-right">命中率</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {dictionaries.map(dictionary => {
+                const stat = progress?.done ? progress.stats.find(s => s.name === dictionary.name) : undefined;
+                return (
+                  <tr key={dictionary.name} className="border-b border-slate-800">
+                    <td className="py-1 pr-2 text-slate-200 truncate max-w-[12rem]">{dictionary.name}</td>
+                    <td className="py-1 pr-2 text-right">{dictionary.keys.length.toLocaleString()}</td>
+                    <td className="py-1 pr-2 text-right">{stat ? `${stat.hits}/${sectorCount * 2}` : '—'}</td>
+                    <td className="py-1 pr-2 text-right text-purple-300">
+                      {stat ? `${((stat.hits / (sectorCount * 2)) * 100).toFixed(1)}%` : '—'}
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => removeDictionary(dictionary.name)}
+                        disabled={isRunning}
+                        className="text-slate-500 hover:text-red-400 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {loadMessages.map(message => (
+            <div key={message} className="text-slate-400 mt-1">{message}</div>
+          ))}
+        </div>
+
+        <button
+          onClick={runCheck}
+          disabled={isRunning || dictionaries.length === 0}
+          className={`w-full mb-3 px-4 py-2 rounded-lg text-sm transition-colors ${
+            isRunning || dictionaries.length === 0
+              ? 'bg-slate-700/50 text-slate-500 cursor-not-allowed'
+              : 'bg-purple-600 hover:bg-purple-700 text-white'
+          }`}
+        >
+          {isRunning ? `檢查扇區 ${progress?.sector ?? 0}...` : '▶ 開始檢查'}
+        </button>
+
+        {/* Proxmark3 風格的結果表 */}
+        {progress && (
+          <div className="bg-slate-950 rounded-lg p-3 font-mono text-xs overflow-x-auto">
+            <div className="text-slate-400 mb-1">
+              [+] {progress.done ? 'found keys' : 'checking'}：已送出 {progress.tried.toLocaleString()} 次驗證
+            </div>
+            <table>
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700">
+                  <th className="px-2 py-0.5 text-left">Sec</th>
+                  <th className="px-2 py-0.5 text-left">Blk</th>
+                  <th className="px-2 py-0.5 text-left">key A</th>
+                  <th className="px-2 py-0.5">res</th>
+                  <th className="px-2 py-0.5 text-left">key B</th>
+                  <th className="px-2 py-0.5">res</th>
+                </tr>
+              </thead>
+              <tbody>
+                {progress.sectors.map(result => (
+                  <tr key={result.sector}>
+                    <td className="px-2 py-0.5">{result.sector.toString().padStart(3, '0')}</td>
+                    <td className="px-2 py-0.5">{sectorTrailerBlock(result.sector).toString().padStart(3, '0')}</td>
+                    {resultCell(result.keyA)}
+                    {resultCell(result.keyB)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-slate-500 mt-1">( 0:Failed / D:Dictionary )</div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+// 存取條件設計：依每組區塊想要的權限找出 C1C2C3，再編碼成尾塊的位元組 6-8
+const C1C2C3_VALUES = ['000', '001', '010', '011', '100', '101', '110', '111'] as const;
+
+type C1C2C3 = typeof C1C2C3_VALUES[number];
+
+const DATA_OPERATIONS = [
+  { field: 'read', label: '讀取' },
+  { field: 'write', label: '寫入' },
+  { field: 'increment', label: '增值' },
+  { field: 'decrement', label: '減值' }
+] as const;
+
+// Key A 永遠無法讀出，不列入選項
+const TRAILER_OPERATIONS = [
+  { field: 'keyA', op: 'write', label: '寫 Key A' },
+  { field: 'accessBits', op: 'read', label: '讀存取位元' },
+  { field: 'accessBits', op: 'write', label: '寫存取位元' },
+  { field: 'keyB', op: 'read', label: '讀 Key B' },
+  { field: 'keyB', op: 'write', label: '寫 Key B' }
+] as const;
+
+// 每個操作依序放 Key A、Key B 是否允許
+const permissionKeys = (permission: string) => [permission.includes('Key A'), permission.includes('Key B')];
+
+const dataConditionVector = (bits: C1C2C3) =>
+  DATA_OPERATIONS.flatMap(({ field }) => permissionKeys(DATA_BLOCK_ACCESS_CONDITIONS[bits][field]));
+
+const trailerConditionVector = (bits: C1C2C3) =>
+  TRAILER_OPERATIONS.flatMap(({ field, op }) => permissionKeys(SECTOR_TRAILER_ACCESS_CONDITIONS[bits][field][op]));
+
+// 找出與想要的權限差異最少的 C1C2C3，差異為 0 即完全符合
+const findAccessCondition = (desired: boolean[], vectorOf: (bits: C1C2C3) => boolean[]) =>
+  C1C2C3_VALUES
+    .map(bits => ({ bits, mismatches: vectorOf(bits).filter((allowed, i) => allowed !== desired[i]).length }))
+    .reduce((best, candidate) => candidate.mismatches < best.mismatches ? candidate : best);
+
+const conditionBits = (bits: string) => ({ c1: Number(bits[0]), c2: Number(bits[1]), c3: Number(bits[2]) });
+
+// 由尾塊目前的存取位元取得四組 C1C2C3 對應的權限，作為設計的起點
+const currentAccessVectors = (accessBits: string): boolean[][] => {
+  const analysis = parseAccessBitsByBlock(accessBits);
+  const bitsOf = (data: { bits: { c1: number; c2: number; c3: number } }) =>
+    `${data.bits.c1}${data.bits.c2}${data.bits.c3}` as C1C2C3;
+  return [
+    dataConditionVector(bitsOf(analysis.block0)),
+    dataConditionVector(bitsOf(analysis.block1)),
+    dataConditionVector(bitsOf(analysis.block2)),
+    trailerConditionVector(bitsOf(analysis.trailer))
+  ];
+};
+
+// 權限查詢：依區塊所屬扇區的尾塊，判斷某把金鑰能否執行某個操作，並引用對應的條件表列
+type DataOperation = typeof DATA_OPERATIONS[number]['field'];
+type TrailerField = 'keyA' | 'accessBits' | 'keyB';
+type AccessOperation = DataOperation | `${TrailerField}.${'read' | 'write'}`;
+
+const ACCESS_OPERATION_LABELS: Record<AccessOperation, string> = {
+  read: '讀取',
+  write: '寫入',
+  increment: '增值',
+  decrement: '減值',
+  'keyA.read': '讀 Key A',
+  'keyA.write': '寫 Key A',
+  'accessBits.read': '讀存取位元',
+  'accessBits.write': '寫存取位元',
+  'keyB.read': '讀 Key B',
+  'keyB.write': '寫 Key B'
+};
+
+const DATA_QUERY_OPERATIONS: AccessOperation[] = ['read', 'write', 'increment', 'decrement'];
+const TRAILER_QUERY_OPERATIONS: AccessOperation[] = ['keyA.read', 'keyA.write', 'accessBits.read', 'accessBits.write', 'keyB.read', 'keyB.write'];
+
+const ACCESS_KEYS: KeyType[] = ['A', 'B'];
+
+// 判斷結果的依據：條件表、Key B 可讀、存取位元無效、製造商區塊唯讀、操作不適用於此區塊
+type AccessRule = 'condition' | 'keyBReadable' | 'invalidAccessBits' | 'manufacturerBlock' | 'unsupported';
+
+interface AccessDecision {
+  allowed: boolean;
+  rule: AccessRule;
+  sector: number;
+  bits: C1C2C3 | null;    // 區塊所屬組的 C1C2C3，存取位元無效時為 null
+  citation: string;
+  reason: string;
+}
+
+// 尾塊條件 000、001、010 讓 Key B 可被讀出，此時 Key B 只是資料，無法用來驗證
+const isKeyBReadable = (trailerBits: C1C2C3) => SECTOR_TRAILER_ACCESS_CONDITIONS[trailerBits].keyB.read !== '禁止';
+
+const evaluateAccess = (memoryData: MemoryBlock[], block: number, key: KeyType, operation: AccessOperation): AccessDecision => {
+  const sector = blockToSector(block);
+  const group = accessGroup(block);
+  const accessBits = memoryData[sectorTrailerBlock(sector)].data.substring(12, 18).toUpperCase();
+  const action = `Key ${key} ${ACCESS_OPERATION_LABELS[operation]}（區塊 ${block}）`;
+
+  if (!validateAccessBits(accessBits).valid) {
+    return {
+      allowed: false, rule: 'invalidAccessBits', sector, bits: null,
+      citation: `尾塊 ${sectorTrailerBlock(sector)} 位元組 6-8 = ${accessBits}`,
+      reason: '存取位元的反轉位元不一致，卡片會拒絕存取整個扇區'
+    };
+  }
+
+  const analysis = parseAccessBitsByBlock(accessBits);
+  const groups = [analysis.block0, analysis.block1, analysis.block2, analysis.trailer];
+  const bitsOf = (data: { bits: { c1: number; c2: number; c3: number } }) =>
+    `${data.bits.c1}${data.bits.c2}${data.bits.c3}` as C1C2C3;
+  const bits = bitsOf(groups[group]);
+  const trailerBits = bitsOf(analysis.trailer);
+
+  const isTrailer = group === 3;
+  if (isTrailer !== operation.includes('.')) {
+    return {
+      allowed: false, rule: 'unsupported', sector, bits, citation: '',
+      reason: isTrailer ? '尾塊只能查詢金鑰與存取位元的讀寫' : '資料區塊沒有這個操作'
+    };
+  }
+
+  let permission: string;
+  let citation: string;
+  if (isTrailer) {
+    const [field, op] = operation.split('.') as [TrailerField, 'read' | 'write'];
+    permission = SECTOR_TRAILER_ACCESS_CONDITIONS[bits][field][op];
+    citation = `SECTOR_TRAILER_ACCESS_CONDITIONS['${bits}'].${operation} = ${permission}`;
+  } else {
+    permission = DATA_BLOCK_ACCESS_CONDITIONS[bits][operation as DataOperation];
+    citation = `DATA_BLOCK_ACCESS_CONDITIONS['${bits}'].${operation} = ${permission}`;
+  }
+
+  if (key === 'B' && isKeyBReadable(trailerBits)) {
+    return {
+      allowed: false, rule: 'keyBReadable', sector, bits,
+      citation: `SECTOR_TRAILER_ACCESS_CONDITIONS['${trailerBits}'].keyB.read = ${SECTOR_TRAILER_ACCESS_CONDITIONS[trailerBits].keyB.read}`,
+      reason: `尾塊條件 ${trailerBits} 讓 Key B 可被讀出，Key B 無法驗證，以它驗證後卡片會拒絕所有存取`
+    };
+  }
+
+  if (block === 0 && operation !== 'read') {
+    return {
+      allowed: false, rule: 'manufacturerBlock', sector, bits, citation,
+      reason: '區塊 0 是製造商區塊，出廠後即唯讀，不受存取條件影響'
+    };
+  }
+
+  const allowed = permissionKeys(permission)[key === 'A' ? 0 : 1];
+  return {
+    allowed, rule: 'condition', sector, bits, citation,
+    reason: `條件 ${bits} ${allowed ? '允許' : '不允許'} ${action}`
+  };
+};
+
+// 寫入尾塊前的安全檢查：找出會讓扇區無法復原或無法使用的結果
+type TrailerRiskKind = 'invalidAccessBits' | 'accessBitsLocked' | 'keysLocked' | 'keyBReadable';
+
+interface TrailerRisk {
+  kind: TrailerRiskKind;
+  irreversible: boolean;
+  message: string;
+}
+
+const trailerRisks = (trailer: MemoryBlock): TrailerRisk[] => {
+  const accessBits = trailer.data.substring(12, 18).toUpperCase();
+  const validation = validateAccessBits(accessBits);
+  if (!validation.valid) {
+    return [{
+      kind: 'invalidAccessBits', irreversible: true,
+      message: `存取位元 ${accessBits} 無效（${validation.error}），卡片會拒絕存取整個扇區，也無法再寫入尾塊修正`
+    }];
+  }
+
+  const { bits } = parseAccessBitsByBlock(accessBits).trailer;
+  const trailerBits = `${bits.c1}${bits.c2}${bits.c3}` as C1C2C3;
+  const condition = SECTOR_TRAILER_ACCESS_CONDITIONS[trailerBits];
+  const accessBitsLocked = condition.accessBits.write === '禁止';
+  const risks: TrailerRisk[] = [];
+  if (accessBitsLocked) {
+    risks.push({
+      kind: 'accessBitsLocked', irreversible: true,
+      message: `尾塊條件 ${trailerBits} 下沒有任何金鑰能再修改存取位元，這個扇區的存取條件將永久固定`
+    });
+  }
+  if (condition.keyA.write === '禁止' && condition.keyB.write === '禁止') {
+    risks.push({
+      kind: 'keysLocked', irreversible: accessBitsLocked,
+      message: accessBitsLocked
+        ? `尾塊條件 ${trailerBits} 下 Key A 與 Key B 都無法再修改`
+        : `尾塊條件 ${trailerBits} 下 Key A 與 Key B 都無法修改，需先以 Key B 改回存取位元`
+    });
+  }
+  if (isKeyBReadable(trailerBits)) {
+    risks.push({
+      kind: 'keyBReadable', irreversible: accessBitsLocked,
+      message: `尾塊條件 ${trailerBits} 讓 Key B 可被讀出，Key B 無法再用來驗證，只剩 Key A 能存取扇區`
+    });
+  }
+  return risks;
+};
+
+// 只回報這次寫入新造成的風險，扇區原本就有的狀態不重複警告
+const analyzeTrailerWrite = (before: MemoryBlock, after: MemoryBlock): TrailerRisk[] => {
+  const existing = trailerRisks(before);
+  return trailerRisks(after).filter(risk =>
+    !existing.some(current => current.kind === risk.kind && current.irreversible === risk.irreversible));
+};
+
+const PermissionToggle = ({ allowed, onToggle }: { allowed: boolean; onToggle: () => void }) => (
+  <button
+    onClick={onToggle}
+    className={`w-full py-0.5 rounded font-mono transition-colors ${allowed ? 'bg-green-600/70 text-white' : 'bg-slate-700 text-slate-500 hover:bg-slate-600'}`}
+  >
+    {allowed ? '允許' : '—'}
+  </button>
+);
+
+const AccessDesignerPanel = ({
+  memoryData,
+  initialSector,
+  onApply,
+  onClose
+}: {
+  memoryData: MemoryBlock[];
+  initialSector: number;
+  onApply: (sector: number, accessBits: string) => void;
+  onClose: () => void;
+}) => {
+  const sectors = sectorCount(memoryData.length);
+  const [sector, setSector] = useState(initialSector);
+  const trailer = memoryData[sectorTrailerBlock(sector)];
+  const currentBits = trailer.data.substring(12, 18).toUpperCase();
+  const [desired, setDesired] = useState<boolean[][]>(() => currentAccessVectors(currentBits));
+
+  const selectSector = (next: number) => {
+    setSector(next);
+    setDesired(currentAccessVectors(memoryData[sectorTrailerBlock(next)].data.substring(12, 18)));
+  };
+
+  const toggle = (group: number, index: number) => {
+    setDesired(prev => prev.map((vector, g) => g === group ? vector.map((allowed, i) => i === index ? !allowed : allowed) : vector));
+  };
+
+  const matches = desired.map((vector, group) =>
+    findAccessCondition(vector, group === 3 ? trailerConditionVector : dataConditionVector));
+  const newBits = createAccessBitsFromPermissions(
+    conditionBits(matches[0].bits),
+    conditionBits(matches[1].bits),
+    conditionBits(matches[2].bits),
+    conditionBits(matches[3].bits)
+  );
+
+  const groupLabel = (group: number) => {
+    const blocks = accessGroupBlocks(sector, group);
+    if (group === 3) return `尾塊 ${blocks[0]}`;
+    return blocks.length > 1 ? `區塊 ${blocks[0]}-${blocks[blocks.length - 1]}` : `區塊 ${blocks[0]}`;
+  };
+
+  const matchBadge = (mismatches: number) => mismatches === 0
+    ? <span className="px-1.5 py-0.5 rounded bg-green-900/50 text-green-300">完全符合</span>
+    : <span className="px-1.5 py-0.5 rounded bg-amber-900/50 text-amber-300">最接近（{mismatches} 項不同）</span>;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-slate-800 border border-slate-700 rounded-xl p-4 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <SlidersHorizontal size={18} className="text-purple-400" />
+            存取條件設計
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-3 text-xs">
+          <span className="text-slate-400">扇區</span>
+          <select
+            value={sector}
+            onChange={(e) => selectSector(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1"
+          >
+            {[...Array(sectors)].map((_, s) => (
+              <option key={s} value={s}>扇區 {s}</option>
+            ))}
+          </select>
+          <span className="text-slate-400">勾選每組區塊想要的權限，系統會找出對應的 C1C2C3 並編碼成位元組 6-8</span>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 text-xs">
+          {matches.map((match, group) => {
+            const isTrailer = group === 3;
+            const operations = isTrailer ? TRAILER_OPERATIONS : DATA_OPERATIONS;
+            const trailerRow = SECTOR_TRAILER_ACCESS_CONDITIONS[match.bits];
+            const dataRow = DATA_BLOCK_ACCESS_CONDITIONS[match.bits];
+            return (
+              <div key={group} className="bg-slate-900/50 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold">{groupLabel(group)}</span>
+                  {matchBadge(match.mismatches)}
+                </div>
+                <table className="w-full mb-2">
+                  <thead>
+                    <tr className="text-slate-400">
+                      <th className="text-left font-normal py-0.5">操作</th>
+                      <th className="font-normal py-0.5 w-16">Key A</th>
+                      <th className="font-normal py-0.5 w-16">Key B</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {operations.map((operation, op) => (
+                      <tr key={operation.label}>
+                        <td className="py-0.5 text-slate-300">{operation.label}</td>
+                        <td className="py-0.5 px-1"><PermissionToggle allowed={desired[group][op * 2]} onToggle={() => toggle(group, op * 2)} /></td>
+                        <td className="py-0.5 px-1"><PermissionToggle allowed={desired[group][op * 2 + 1]} onToggle={() => toggle(group, op * 2 + 1)} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {/* 選中的條件表列 */}
+                <div className="border border-slate-700 rounded p-2">
+                  <div className="mb-1">
+                    <span className="text-slate-400">{isTrailer ? 'SECTOR_TRAILER_ACCESS_CONDITIONS' : 'DATA_BLOCK_ACCESS_CONDITIONS'}</span>
+                    <span className="font-mono text-yellow-300 ml-2">[{match.bits}]</span>
+                  </div>
+                  {isTrailer ? (
+                    <div className="grid grid-cols-3 gap-1 font-mono">
+                      <span>Key A 寫: {trailerRow.keyA.write}</span>
+                      <span>AC 讀: {trailerRow.accessBits.read}</span>
+                      <span>AC 寫: {trailerRow.accessBits.write}</span>
+                      <span>Key B 讀: {trailerRow.keyB.read}</span>
+                      <span>Key B 寫: {trailerRow.keyB.write}</span>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-1 font-mono">
+                      <span>讀: {dataRow.read}</span>
+                      <span>寫: {dataRow.write}</span>
+                      <span>增值: {dataRow.increment}</span>
+                      <span>減值: {dataRow.decrement}</span>
+                    </div>
+                  )}
+                  <div className="text-slate-400 mt-1">{isTrailer ? trailerRow.description : dataRow.description}</div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-3 bg-slate-900/50 rounded-lg p-3 text-xs flex flex-wrap items-center gap-3">
+          <div className="font-mono">
+            <span className="text-slate-400">尾塊 {sectorTrailerBlock(sector)}：</span>
+            <span className="text-red-300">{trailer.data.substring(0, 12).toUpperCase()}</span>
+            <span className={newBits === currentBits ? 'text-yellow-300' : 'text-yellow-300 bg-yellow-900/50 rounded px-0.5'}>{newBits}</span>
+            <span className="text-slate-400">{trailer.data.substring(18, 20).toUpperCase()}</span>
+            <span className="text-orange-300">{trailer.data.substring(20, 32).toUpperCase()}</span>
+          </div>
+          <div className="text-slate-400">
+            位元組 6-8：<span className="font-mono">{currentBits}</span> → <span className="font-mono text-yellow-300">{newBits}</span>
+          </div>
+          <button
+            onClick={() => onApply(sector, newBits)}
+            disabled={newBits === currentBits}
+            className="ml-auto px-3 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 disabled:text-slate-500 rounded-lg transition-colors"
+          >
+            寫入尾塊
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+// 單一操作的 Key A / Key B 判斷結果，點擊後帶入查詢
+const DecisionCell = ({
+  decisions,
+  onSelect
+}: {
+  decisions: AccessDecision[];
+  onSelect: (key: KeyType) => void;
+}) => (
+  <td className="px-1 py-0.5">
+    <div className="flex gap-0.5 justify-center">
+      {decisions.map((decision, index) => (
+        <button
+          key={ACCESS_KEYS[index]}
+          onClick={() => onSelect(ACCESS_KEYS[index])}
+          title={decision.reason}
+          className={`w-5 rounded font-mono transition-colors ${decision.allowed
+            ? 'bg-green-600/70 text-white'
+            : decision.rule === 'keyBReadable'
+              ? 'bg-amber-900/40 text-amber-400 line-through'
+              : decision.rule === 'invalidAccessBits'
+                ? 'bg-red-900/40 text-red-400'
+                : 'bg-slate-700 text-slate-500'
+            } hover:ring-1 hover:ring-white`}
+        >
+          {ACCESS_KEYS[index]}
+        </button>
+      ))}
+    </div>
+  </td>
+);
+
+const AccessMatrixPanel = ({
+  memoryData,
+  initialSector,
+  onClose
+}: {
+  memoryData: MemoryBlock[];
+  initialSector: number;
+  onClose: () => void;
+}) => {
+  const sectors = sectorCount(memoryData.length);
+  const [query, setQuery] = useState<{ block: number; key: KeyType; operation: AccessOperation }>({
+    block: sectorFirstBlock(initialSector),
+    key: 'A',
+    operation: 'read'
+  });
+
+  const querySector = blockToSector(query.block);
+  const queryOperations = isTrailerBlock(query.block) ? TRAILER_QUERY_OPERATIONS : DATA_QUERY_OPERATIONS;
+  const decision = evaluateAccess(memoryData, query.block, query.key, query.operation);
+
+  // 換區塊時若操作不適用，改用該區塊類型的第一個操作
+  const selectBlock = (block: number) => {
+    const operations = isTrailerBlock(block) ? TRAILER_QUERY_OPERATIONS : DATA_QUERY_OPERATIONS;
+    setQuery(prev => ({ ...prev, block, operation: operations.includes(prev.operation) ? prev.operation : operations[0] }));
+  };
+
+  // 每個扇區依存取位元分組：三組資料區塊與尾塊
+  const rows = [...Array(sectors)].map((_, sector) => ({
+    sector,
+    groups: [0, 1, 2, 3].map(group => {
+      const blocks = accessGroupBlocks(sector, group);
+      const operations = group === 3 ? TRAILER_QUERY_OPERATIONS : DATA_QUERY_OPERATIONS;
+      return {
+        blocks,
+        decisions: operations.map(operation => ({
+          operation,
+          byKey: ACCESS_KEYS.map(key => evaluateAccess(memoryData, blocks[0], key, operation))
+        }))
+      };
+    })
+  }));
+
+  const blockLabel = (blocks: number[]) => blocks.length > 1 ? `${blocks[0]}-${blocks[blocks.length - 1]}` : `${blocks[0]}`;
+
+  const sectorNote = (trailerDecision: AccessDecision) => {
+    if (trailerDecision.rule === 'invalidAccessBits') return <span className="text-red-400">存取位元無效</span>;
+    const trailerBits = trailerDecision.bits as C1C2C3;
+    return isKeyBReadable(trailerBits) ? <span className="text-amber-400">Key B 可讀</span> : null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-slate-800 border border-slate-700 rounded-xl p-4 w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <ShieldCheck size={18} className="text-purple-400" />
+            權限查詢
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* 查詢 */}
+        <div className="bg-slate-900/50 rounded-lg p-3 mb-3 text-xs">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span className="text-slate-400">以扇區</span>
+            <select
+              value={querySector}
+              onChange={(e) => selectBlock(sectorFirstBlock(Number(e.target.value)))}
+              className="bg-slate-900 border border-slate-600 rounded px-2 py-1"
+            >
+              {[...Array(sectors)].map((_, s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <span className="text-slate-400">的</span>
+            <div className="flex bg-slate-900 border border-slate-600 rounded overflow-hidden">
+              {ACCESS_KEYS.map(key => (
+                <button
+                  key={key}
+                  onClick={() => setQuery(prev => ({ ...prev, key }))}
+                  className={`px-2 py-1 transition-colors ${query.key === key ? 'bg-purple-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+                >
+                  Key {key}
+                </button>
+              ))}
+            </div>
+            <span className="text-slate-400">能否對區塊</span>
+            <select
+              value={query.block}
+              onChange={(e) => selectBlock(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-600 rounded px-2 py-1"
+            >
+              {[...Array(sectorBlockCount(querySector))].map((_, offset) => {
+                const block = sectorFirstBlock(querySector) + offset;
+                return <option key={block} value={block}>{block}{isTrailerBlock(block) ? '（尾塊）' : ''}</option>;
+              })}
+            </select>
+            <select
+              value={query.operation}
+              onChange={(e) => setQuery(prev => ({ ...prev, operation: e.target.value as AccessOperation }))}
+              className="bg-slate-900 border border-slate-600 rounded px-2 py-1"
+            >
+              {queryOperations.map(operation => (
+                <option key={operation} value={operation}>{ACCESS_OPERATION_LABELS[operation]}</option>
+              ))}
+            </select>
+            <span className="text-slate-400">？</span>
+          </div>
+          <div className={`rounded p-2 border ${decision.allowed ? 'border-green-700 bg-green-900/20' : 'border-red-700 bg-red-900/20'}`}>
+            <div className={`font-bold flex items-center gap-1 ${decision.allowed ? 'text-green-300' : 'text-red-300'}`}>
+              {decision.allowed ? <Check size={14} /> : <X size={14} />}
+              {decision.allowed ? '可以' : '不行'}
+            </div>
+            <div className="text-slate-300 mt-1">{decision.reason}</div>
+            {decision.citation && <div className="font-mono text-yellow-300 mt-1">{decision.citation}</div>}
+          </div>
+        </div>
+
+        {/* 整張卡的權限矩陣 */}
+        <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-slate-400">
+          <span>整張卡的有效權限，點擊格子帶入查詢</span>
+          <span className="flex items-center gap-1"><span className="w-4 h-3 rounded bg-green-600/70" />允許</span>
+          <span className="flex items-center gap-1"><span className="w-4 h-3 rounded bg-slate-700" />禁止</span>
+          <span className="flex items-center gap-1"><span className="w-4 h-3 rounded bg-amber-900/40" />Key B 可讀而無法驗證</span>
+          <span className="flex items-center gap-1"><span className="w-4 h-3 rounded bg-red-900/40" />存取位元無效</span>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-3 text-xs">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700">
+                  <th className="text-left font-normal py-1">扇區</th>
+                  <th className="text-left font-normal py-1">資料區塊</th>
+                  <th className="font-normal py-1">C1C2C3</th>
+                  {DATA_QUERY_OPERATIONS.map(operation => (
+                    <th key={operation} className="font-normal py-1">{ACCESS_OPERATION_LABELS[operation]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.flatMap(({ sector, groups }) => groups.slice(0, 3).map(({ blocks, decisions }, group) => (
+                  <tr key={`${sector}-${group}`} className={group === 0 ? 'border-t border-slate-700/60' : ''}>
+                    <td className="py-0.5">{group === 0 ? sector : ''}</td>
+                    <td className="py-0.5 font-mono">{blockLabel(blocks)}</td>
+                    <td className="py-0.5 font-mono text-center text-yellow-300">{decisions[0].byKey[0].bits ?? '---'}</td>
+                    {decisions.map(({ operation, byKey }) => (
+                      <DecisionCell
+                        key={operation}
+                        decisions={byKey}
+                        onSelect={(key) => setQuery({ block: blocks[0], key, operation })}
+                      />
+                    ))}
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700">
+                  <th className="text-left font-normal py-1">扇區</th>
+                  <th className="text-left font-normal py-1">尾塊</th>
+                  <th className="font-normal py-1">C1C2C3</th>
+                  {TRAILER_QUERY_OPERATIONS.map(operation => (
+                    <th key={operation} className="font-normal py-1">{ACCESS_OPERATION_LABELS[operation]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ sector, groups }) => {
+                  const { blocks, decisions } = groups[3];
+                  return (
+                    <tr key={sector} className="border-t border-slate-700/60">
+                      <td className="py-0.5">
+                        <div>{sector}</div>
+                        <div>{sectorNote(decisions[0].byKey[0])}</div>
+                      </td>
+                      <td className="py-0.5 font-mono">{blocks[0]}</td>
+                      <td className="py-0.5 font-mono text-center text-yellow-300">{decisions[0].byKey[0].bits ?? '---'}</td>
+                      {decisions.map(({ operation, byKey }) => (
+                        <DecisionCell
+                          key={operation}
+                          decisions={byKey}
+                          onSelect={(key) => setQuery({ block: blocks[0], key, operation })}
+                        />
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+// 值區塊操作：INCREMENT / DECREMENT / RESTORE 把結果放進卡片內部的傳輸緩衝區，TRANSFER 才寫回區塊
+type ValueCommand = 'increment' | 'decrement' | 'restore' | 'transfer';
+
+// 存取條件表中 decrement 欄同時管 DECREMENT、TRANSFER、RESTORE
+const VALUE_COMMANDS: Record<ValueCommand, { code: number; name: string; operation: AccessOperation }> = {
+  increment: { code: 0xC1, name: 'INCREMENT', operation: 'increment' },
+  decrement: { code: 0xC0, name: 'DECREMENT', operation: 'decrement' },
+  restore: { code: 0xC2, name: 'RESTORE', operation: 'decrement' },
+  transfer: { code: 0xB0, name: 'TRANSFER', operation: 'decrement' }
+};
+
+const frameHex = (bytes: number[]) => bytes.map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+
+interface TransferBuffer {
+  value: number;
+  addr: number;       // 沿用來源區塊的地址位元組
+  source: number;
+}
+
+interface ValueSession {
+  sector: number;
+  key: KeyType;
+}
+
+interface ValueCommandResult {
+  ok: boolean;
+  frame: string;
+  message: string;
+  citation: string;
+  buffer: TransferBuffer | null;
+  written: string | null;     // TRANSFER 寫回的區塊資料
+}
+
+const runValueCommand = (
+  memoryData: MemoryBlock[],
+  session: ValueSession,
+  command: ValueCommand,
+  block: number,
+  operand: number,
+  buffer: TransferBuffer | null
+): ValueCommandResult => {
+  const { code, name, operation } = VALUE_COMMANDS[command];
+  const operandBytes = [operand & 0xFF, (operand >> 8) & 0xFF, (operand >> 16) & 0xFF, (operand >>> 24) & 0xFF];
+  const frame = frameHex([code, block, ...(command === 'increment' || command === 'decrement' ? operandBytes : [])]);
+  const reject = (message: string, citation: string = '') => ({ ok: false, frame, message, citation, buffer, written: null });
+
+  if (blockToSector(block) !== session.sector) {
+    return reject(`區塊 ${block} 不在已驗證的扇區 ${session.sector}，需重新驗證`);
+  }
+  const decision = evaluateAccess(memoryData, block, session.key, operation);
+  if (!decision.allowed) return reject(`${name} 被拒絕：${decision.reason}`, decision.citation);
+
+  if (command === 'transfer') {
+    if (!buffer) return reject('傳輸緩衝區是空的，需先執行 INCREMENT、DECREMENT 或 RESTORE');
+    return {
+      ok: true, frame, citation: decision.citation, buffer: null,
+      message: `緩衝區的 ${buffer.value} 寫入區塊 ${block}`,
+      written: createValueBlock(buffer.value, buffer.addr)
+    };
+  }
+
+  const target = memoryData[block];
+  const valueInfo = target.unknownBytes ? null : parseValueBlock(target.data);
+  if (!valueInfo?.isValid) return reject(`區塊 ${block} 不是有效的值區塊格式，卡片拒絕執行 ${name}`);
+
+  const value = command === 'increment'
+    ? (valueInfo.value + operand) >>> 0
+    : command === 'decrement' ? (valueInfo.value - operand) >>> 0 : valueInfo.value;
+  return {
+    ok: true, frame, citation: decision.citation, written: null,
+    buffer: { value, addr: valueInfo.addr, source: block },
+    message: command === 'restore'
+      ? `區塊 ${block} 的 ${valueInfo.value} 載入緩衝區`
+      : `${valueInfo.value} ${command === 'increment' ? '+' : '-'} ${operand} = ${value} 放入緩衝區，區塊本身尚未改變`
+  };
+};
+
+const ValueBlockSimulator = ({
+  memoryData,
+  initialSector,
+  onTransfer,
+  onClose
+}: {
+  memoryData: MemoryBlock[];
+  initialSector: number;
+  onTransfer: (block: number, data: string) => void;
+  onClose: () => void;
+}) => {
+  const sectors = sectorCount(memoryData.length);
+  const [sector, setSector] = useState(initialSector);
+  const [key, setKey] = useState<KeyType>('A');
+  const [session, setSession] = useState<ValueSession | null>(null);
+  const [block, setBlock] = useState(sectorFirstBlock(initialSector));
+  const [operand, setOperand] = useState('1');
+  const [buffer, setBuffer] = useState<TransferBuffer | null>(null);
+  const [log, setLog] = useState<{ ok: boolean; frame: string; message: string; citation: string }[]>([]);
+
+  const trailer = memoryData[sectorTrailerBlock(sector)];
+  const dataBlocks = [...Array(sectorBlockCount(sector) - 1)].map((_, offset) => sectorFirstBlock(sector) + offset);
+  const operandValue = Number(operand);
+  const operandValid = /^\d+$/.test(operand) && operandValue <= 0x7FFFFFFF;
+
+  const selectSector = (next: number) => {
+    setSector(next);
+    setBlock(sectorFirstBlock(next));
+  };
+
+  // 驗證使用尾塊中記錄的金鑰；新的驗證會清空傳輸緩衝區
+  const authenticate = () => {
+    const keyBytes = key === 'A' ? [0, 1, 2, 3, 4, 5] : [10, 11, 12, 13, 14, 15];
+    const keyHex = key === 'A' ? trailer.data.substring(0, 12) : trailer.data.substring(20, 32);
+    const frame = frameHex([key === 'A' ? 0x60 : 0x61, sectorTrailerBlock(sector)]);
+    if (keyBytes.some(index => trailer.unknownBytes?.includes(index))) {
+      setLog(prev => [{ ok: false, frame, message: `扇區 ${sector} 的 Key ${key} 未知，無法驗證`, citation: '' }, ...prev]);
+      return;
+    }
+    setSession({ sector, key });
+    setBuffer(null);
+    setLog(prev => [{ ok: true, frame, message: `以 Key ${key} ${keyHex.toUpperCase()} 驗證扇區 ${sector}`, citation: '' }, ...prev]);
+  };
+
+  const execute = (command: ValueCommand) => {
+    if (!session) return;
+    const result = runValueCommand(memoryData, session, command, block, operandValue, buffer);
+    setBuffer(result.buffer);
+    if (result.written) onTransfer(block, result.written);
+    setLog(prev => [{ ok: result.ok, frame: result.frame, message: result.message, citation: result.citation }, ...prev]);
+  };
+
+  const targetInfo = memoryData[block].unknownBytes ? null : parseValueBlock(memoryData[block].data);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-3 flex-shrink-0 text-xs"
+      style={{ width: '100%', maxWidth: '700px', margin: '12px auto 0' }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold flex items-center gap-2">
+          <Calculator size={16} className="text-purple-400" />
+          值區塊模擬
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* 驗證 */}
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={sector}
+          onChange={(e) => selectSector(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-600 rounded px-2 py-1"
+        >
+          {[...Array(sectors)].map((_, s) => (
+            <option key={s} value={s}>扇區 {s}</option>
+          ))}
+        </select>
+        <div className="flex bg-slate-900 border border-slate-600 rounded overflow-hidden">
+          {ACCESS_KEYS.map(k => (
+            <button
+              key={k}
+              onClick={() => setKey(k)}
+              className={`px-2 py-1 transition-colors ${key === k ? 'bg-purple-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+            >
+              Key {k}
+            </button>
+          ))}
+        </div>
+        <button onClick={authenticate} className="px-3 py-1 bg-purple-600 hover:bg-purple-700 rounded transition-colors">
+          驗證
+        </button>
+        <span className="text-slate-400">
+          {session ? `已以 Key ${session.key} 驗證扇區 ${session.sector}` : '尚未驗證'}
+        </span>
+      </div>
+
+      {/* 操作 */}
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className="text-slate-400">區塊</span>
+        <select
+          value={block}
+          onChange={(e) => setBlock(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-600 rounded px-2 py-1"
+        >
+          {dataBlocks.map(b => (
+            <option key={b} value={b}>{b}{memoryData[b].type === 'value' ? '（值區塊）' : ''}</option>
+          ))}
+        </select>
+        <span className="text-slate-400">運算元</span>
+        <input
+          value={operand}
+          onChange={(e) => setOperand(e.target.value.trim())}
+          className={`w-24 bg-slate-900 border rounded px-2 py-1 font-mono ${operandValid ? 'border-slate-600' : 'border-red-500'}`}
+        />
+        {(Object.keys(VALUE_COMMANDS) as ValueCommand[]).map(command => (
+          <button
+            key={command}
+            onClick={() => execute(command)}
+            disabled={!session || session.sector !== sector || ((command === 'increment' || command === 'decrement') && !operandValid)}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700 rounded font-mono transition-colors"
+          >
+            {VALUE_COMMANDS[command].name} <span className="text-slate-400">{VALUE_COMMANDS[command].code.toString(16).toUpperCase()}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <div className="bg-slate-900/50 rounded p-2">
+          <div className="text-slate-400">區塊 {block} 目前的值</div>
+          <div className="font-mono">
+            {targetInfo?.isValid ? `${targetInfo.value}（地址 0x${targetInfo.addr.toString(16).toUpperCase().padStart(2, '0')}）` : <span className="text-red-400">不是有效的值區塊</span>}
+          </div>
+        </div>
+        <div className="bg-slate-900/50 rounded p-2">
+          <div className="text-slate-400">傳輸緩衝區</div>
+          <div className="font-mono">
+            {buffer ? `${buffer.value}（來自區塊 ${buffer.source}）` : <span className="text-slate-500">空</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* 指令紀錄 */}
+      <div className="max-h-32 overflow-y-auto space-y-1">
+        {log.map((entry, index) => (
+          <div key={log.length - index} className={`rounded px-2 py-1 ${entry.ok ? 'bg-slate-900/50' : 'bg-red-900/20'}`}>
+            <span className="font-mono text-slate-400 mr-2">{entry.frame}</span>
+            <span className={entry.ok ? 'text-green-300' : 'text-red-300'}>{entry.ok ? 'ACK' : 'NAK'}</span>
+            <span className="ml-2 text-slate-300">{entry.message}</span>
+            {entry.citation && <div className="font-mono text-yellow-300/80">{entry.citation}</div>}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+// 尾塊寫入確認：列出安全檢查找到的風險，不可復原的結果需勾選確認
+const TrailerWriteConfirm = ({
+  before,
+  after,
+  risks,
+  onConfirm,
+  onCancel
+}: {
+  before: MemoryBlock;
+  after: MemoryBlock;
+  risks: TrailerRisk[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const irreversible = risks.some(risk => risk.irreversible);
+
+  const trailerHex = (block: MemoryBlock) => (
+    <span className="font-mono">
+      <span className="text-red-300">{block.data.substring(0, 12).toUpperCase()}</span>
+      <span className="text-yellow-300">{block.data.substring(12, 18).toUpperCase()}</span>
+      <span className="text-slate-400">{block.data.substring(18, 20).toUpperCase()}</span>
+      <span className="text-orange-300">{block.data.substring(20, 32).toUpperCase()}</span>
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onCancel}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-slate-800 border border-slate-700 rounded-xl p-4 w-full max-w-xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <TriangleAlert size={18} className={irreversible ? 'text-red-400' : 'text-amber-400'} />
+            寫入尾塊 {after.block} 前的安全檢查
+          </h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="bg-slate-900/50 rounded-lg p-3 mb-3 text-xs space-y-1">
+          <div><span className="text-slate-400 inline-block w-12">目前</span>{trailerHex(before)}</div>
+          <div><span className="text-slate-400 inline-block w-12">寫入後</span>{trailerHex(after)}</div>
+        </div>
+
+        <div className="space-y-2 mb-3 text-sm">
+          {risks.map(risk => (
+            <div
+              key={risk.kind}
+              className={`rounded-lg p-2 border ${risk.irreversible ? 'border-red-700 bg-red-900/20 text-red-300' : 'border-amber-700 bg-amber-900/20 text-amber-300'}`}
+            >
+              <span className="text-xs font-bold mr-2">{risk.irreversible ? '無法復原' : '注意'}</span>
+              {risk.message}
+            </div>
+          ))}
+        </div>
+
+        {irreversible && (
+          <label className="flex items-center gap-2 mb-3 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+            我了解寫入後這個扇區無法復原
+          </label>
+        )}
+
+        <div className="flex justify-end gap-2 text-sm">
+          <button onClick={onCancel} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors">
+            取消
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={irreversible && !acknowledged}
+            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:bg-slate-700 disabled:text-slate-500 rounded-lg transition-colors"
+          >
+            仍要寫入
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
 const MemoryMap = ({
+  blockCount,
+  uidSize,
   onSectorSelect,
   selectedSector
 }: {
+  blockCount: number;
+  uidSize: UidSize;
   onSectorSelect: (sector: number) => void;
   selectedSector: number | null;
 }) => {
+  const sectors = sectorCount(blockCount);
+  const model = CARD_MODELS[cardTypeForBlocks(blockCount) ?? '1k'];
+  // 扇區多時（4K）改用緊湊排列，區塊範圍移到提示文字
+  const compact = sectors > 16;
+  const hasLargeSectors = sectors > 32;
+
   const getSectorColor = (sector: number) => {
     // 簡化顏色，只區分特殊扇區
     if (sector === 0) return 'bg-blue-600'; // 製造商區塊
     if (sector === selectedSector) return 'bg-purple-600'; // 選中的扇區
+    if (sectorBlockCount(sector) === 16) return 'bg-slate-500'; // 4K 的 16 區塊扇區
     return 'bg-slate-600'; // 一般扇區
   };
 
   const getSectorDescription = (sector: number) => {
     if (sector === 0) return 'UID';
-    return `區塊 ${sector * 4}-${sector * 4 + 3}`;
+    return `區塊 ${sectorFirstBlock(sector)}-${sectorTrailerBlock(sector)}`;
   };
 
   return (
     <div className="bg-slate-800/50 rounded-lg p-3">
       <h4 className="font-bold mb-2 text-sm">記憶體配置圖</h4>
-      <div className="grid grid-cols-4 gap-1">
-        {[...Array(16)].map((_, sector) => (
+      <div className={`grid ${compact ? 'grid-cols-8' : 'grid-cols-4'} gap-1`}>
+        {[...Array(sectors)].map((_, sector) => (
           <motion.button
             key={sector}
             onClick={() => onSectorSelect(sector)}
@@ -2059,17 +3538,29 @@ const MemoryMap = ({
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
           >
-            <div>扇區{sector}</div>
-            <div className="text-xs opacity-90">
-              {getSectorDescription(sector)}
-            </div>
+            {compact ? (
+              <div title={`扇區 ${sector}：${getSectorDescription(sector)}`}>{sector}</div>
+            ) : (
+              <>
+                <div>扇區{sector}</div>
+                <div className="text-xs opacity-90">
+                  {getSectorDescription(sector)}
+                </div>
+              </>
+            )}
           </motion.button>
         ))}
       </div>
 
       <div className="mt-3 space-y-1">
         <div className="text-xs text-slate-400">
-          總容量: 1024 bytes (64 區塊 × 16 位元組)
+          總容量: {blockCount * 16} bytes ({sectors} 扇區、{blockCount} 區塊 × 16 位元組)
+        </div>
+        <div className="text-xs text-slate-400">
+          {model.name} · {uidSize}-byte UID · SAK {model.sak.toString(16).padStart(2, '0').toUpperCase()}
+          <Link href={`/communication?card=${model.type}&uid=${uidSize}`} className="ml-2 text-purple-400 hover:text-purple-300">
+            選卡流程 →
+          </Link>
         </div>
         <div className="flex flex-wrap gap-1 text-xs">
           <div className="flex items-center gap-1">
@@ -2084,6 +3575,12 @@ const MemoryMap = ({
             <div className="w-2 h-2 bg-slate-600 rounded-sm"></div>
             <span className="text-slate-400">一般扇區</span>
           </div>
+          {hasLargeSectors && (
+            <div className="flex items-center gap-1">
+              <div className="w-2 h-2 bg-slate-500 rounded-sm"></div>
+              <span className="text-slate-400">16 區塊扇區</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -2091,19 +3588,108 @@ const MemoryMap = ({
 };
 
 export default function MemoryPage() {
+  const [memory, setMemory] = useState<MemoryBlock[]>(memoryData);
+  const [dumpName, setDumpName] = useState<string | null>(null);
+  const [cardInfo, setCardInfo] = useState<DumpCardInfo | null>(null);
+  const [uidSize, setUidSize] = useState<UidSize>(4);
+  const [fileError, setFileError] = useState<string | null>(null);
   const [selectedBlock, setSelectedBlock] = useState<number | null>(0);
   const [selectedSector, setSelectedSector] = useState<number | null>(0);
+  const [showKeyCheck, setShowKeyCheck] = useState(false);
+  const [showDesigner, setShowDesigner] = useState(false);
+  const [showMatrix, setShowMatrix] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [transferDiff, setTransferDiff] = useState<{ block: number; before: string } | null>(null);
+  const [pendingTrailer, setPendingTrailer] = useState<{ before: MemoryBlock; after: MemoryBlock; risks: TrailerRisk[] } | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   const handleSectorSelect = (sector: number) => {
     setSelectedSector(sector);
     // 自動選擇該扇區的第一個區塊
-    const firstBlockInSector = memoryData.findIndex(block => block.sector === sector);
+    const firstBlockInSector = memory.findIndex(block => block.sector === sector);
     if (firstBlockInSector !== -1) {
       setSelectedBlock(firstBlockInSector);
     }
   };
 
-  const selectedBlockData = selectedBlock !== null ? memoryData[selectedBlock] : null;
+  const loadMemory = (blocks: MemoryBlock[], name: string | null, card: DumpCardInfo | null, size: UidSize) => {
+    setMemory(blocks);
+    setUidSize(size);
+    setDumpName(name);
+    setCardInfo(card);
+    setFileError(null);
+    setSelectedBlock(0);
+    setSelectedSector(0);
+    setTransferDiff(null);
+  };
+
+  const importDump = async (file: File) => {
+    const format = detectDumpFormat(file.name);
+    if (!format) {
+      setFileError(`匯入失敗：不支援的檔案格式 ${file.name}`);
+      return;
+    }
+    try {
+      const dump = parseDump(format, await file.arrayBuffer());
+      // .json / .nfc 記錄了完整 UID，其他格式只能由區塊 0 判斷
+      const size = UID_SIZES.find(size => size === dump.card?.uid.length)
+        ?? detectUidSize(dump.blocks[0].map(byte => byte ?? 0));
+      loadMemory(dumpToMemory(dump), file.name, dump.card, size);
+    } catch (error) {
+      setFileError(`匯入失敗：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const editBytes = (blockIndex: number, start: number, values: number[]) => {
+    setMemory(prev => prev.map((block, index) => index === blockIndex
+      ? values.reduce((edited, value, i) => editBlockByte(edited, start + i, value), block)
+      : block));
+  };
+
+  const editByte = (blockIndex: number, byteIndex: number, value: number) => editBytes(blockIndex, byteIndex, [value]);
+
+  const replaceBlock = (edited: MemoryBlock) => {
+    setMemory(prev => prev.map((block, index) => index === edited.block ? edited : block));
+  };
+
+  // 所有尾塊寫入都經過安全檢查，有風險時等使用者確認後才寫入
+  const writeTrailer = (blockIndex: number, changes: [number, number][]) => {
+    const before = memory[blockIndex];
+    if (!before) return;
+    const after = changes.reduce((edited, [index, value]) => editBlockByte(edited, index, value), before);
+    if (after.data === before.data && after.unknownBytes?.length === before.unknownBytes?.length) return;
+    const risks = analyzeTrailerWrite(before, after);
+    if (risks.length > 0) setPendingTrailer({ before, after, risks });
+    else replaceBlock(after);
+  };
+
+  // 把設計好的存取位元寫入尾塊的位元組 6-8
+  const writeAccessBits = (sector: number, accessBits: string) => {
+    const trailer = sectorTrailerBlock(sector);
+    writeTrailer(trailer, hexToBytes(accessBits).map((value, i): [number, number] => [6 + i, value]));
+    setSelectedSector(sector);
+    setSelectedBlock(trailer);
+    setShowDesigner(false);
+  };
+
+  // TRANSFER 寫回值區塊，保留寫入前的資料供十六進位視圖對照
+  const transferValue = (blockIndex: number, data: string) => {
+    setTransferDiff({ block: blockIndex, before: memory[blockIndex].data });
+    editBytes(blockIndex, 0, hexToBytes(data));
+    setSelectedBlock(blockIndex);
+  };
+
+  const exportDump = (format: DumpFormat) => {
+    setShowExport(false);
+    try {
+      downloadDump(memory, cardInfo ?? cardInfoFromMemory(memory, uidSize), format);
+    } catch (error) {
+      setFileError(`匯出失敗：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const selectedBlockData = selectedBlock !== null ? memory[selectedBlock] : null;
+  const cardType = cardTypeForBlocks(memory.length) ?? '1k';
 
   return (
     <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white flex flex-col overflow-hidden">
@@ -2127,8 +3713,153 @@ export default function MemoryPage() {
               Mifare Classic 記憶體結構
             </h1>
           </div>
+          <div className="ml-auto flex items-center gap-2 text-sm">
+            {dumpName && (
+              <span className="flex items-center gap-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded-lg text-xs font-mono text-slate-300">
+                {dumpName}
+                <button
+                  onClick={() => loadMemory(createExampleMemory(cardType, uidSize), null, null, uidSize)}
+                  title="還原範例卡片"
+                  className="text-slate-400 hover:text-white transition-colors"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            )}
+            <div className="flex bg-slate-800 border border-slate-600 rounded-lg overflow-hidden">
+              {CARD_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => loadMemory(createExampleMemory(type, uidSize), null, null, uidSize)}
+                  title={`載入 ${CARD_MODELS[type].name} 範例卡片`}
+                  className={`px-3 py-2 transition-colors ${cardType === type ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                >
+                  {type.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-slate-800 border border-slate-600 rounded-lg overflow-hidden">
+              {UID_SIZES.map(size => (
+                <button
+                  key={size}
+                  // 範例卡片換上對應長度的 UID；匯入的傾印只改變區塊 0 的解讀方式
+                  onClick={() => dumpName ? setUidSize(size) : loadMemory(createExampleMemory(cardType, size), null, null, size)}
+                  title={`${size}-byte UID`}
+                  className={`px-3 py-2 transition-colors ${uidSize === size ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                >
+                  {size}B
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg cursor-pointer transition-colors">
+              <FileUp size={16} />
+              匯入傾印
+              <input
+                type="file"
+                accept=".bin,.dump,.eml,.json,.mfd,.nfc,.mct"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files?.[0]) importDump(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <div className="relative">
+              <button
+                onClick={() => setShowExport(!showExport)}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+              >
+                <FileDown size={16} />
+                匯出
+              </button>
+              {showExport && (
+                <div className="absolute right-0 mt-1 w-52 bg-slate-800 border border-slate-600 rounded-lg shadow-lg z-40 py-1">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => exportDump(format)}
+                      className="block w-full text-left px-3 py-1.5 text-xs font-mono text-slate-200 hover:bg-slate-700 transition-colors"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={() => setShowSimulator(!showSimulator)}
+            className={`ml-2 flex items-center gap-2 px-3 py-2 rounded-lg transition-colors text-sm ${showSimulator ? 'bg-purple-600 hover:bg-purple-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+          >
+            <Calculator size={16} />
+            值區塊模擬
+          </button>
+          <button
+            onClick={() => setShowMatrix(true)}
+            className="ml-2 flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+            <ShieldCheck size={16} />
+            權限查詢
+          </button>
+          <button
+            onClick={() => setShowDesigner(true)}
+            className="ml-2 flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors text-sm"
+          >
+            <SlidersHorizontal size={16} />
+            存取設計
+          </button>
+          <button
+            onClick={() => setShowKeyCheck(true)}
+            className="ml-2 flex items-center gap-2 px-3 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors text-sm"
+          >
+            <KeyRound size={16} />
+            金鑰檢查
+          </button>
         </motion.div>
 
+        {fileError && (
+          <div className="mb-3 flex items-center justify-between px-3 py-2 bg-red-900/30 border border-red-500/30 rounded-lg text-sm text-red-300">
+            {fileError}
+            <button onClick={() => setFileError(null)} className="text-red-300 hover:text-white transition-colors">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {showKeyCheck && (
+          <KeyCheckPanel memoryData={memory} uidSize={uidSize} onClose={() => setShowKeyCheck(false)} />
+        )}
+
+        {showDesigner && (
+          <AccessDesignerPanel
+            memoryData={memory}
+            initialSector={selectedSector ?? 0}
+            onApply={writeAccessBits}
+            onClose={() => setShowDesigner(false)}
+          />
+        )}
+
+        {pendingTrailer && (
+          <TrailerWriteConfirm
+            before={pendingTrailer.before}
+            after={pendingTrailer.after}
+            risks={pendingTrailer.risks}
+            onConfirm={() => {
+              replaceBlock(pendingTrailer.after);
+              setPendingTrailer(null);
+            }}
+            onCancel={() => setPendingTrailer(null)}
+          />
+        )}
+
+        {showMatrix && (
+          <AccessMatrixPanel
+            memoryData={memory}
+            initialSector={selectedSector ?? 0}
+            onClose={() => setShowMatrix(false)}
+          />
+        )}
+
         <div className="flex flex-col xl:flex-row gap-4 flex-1 min-h-0">
           {/* Hex Editor */}
           <div className="w-full lg:w-auto lg:flex-shrink-0 flex flex-col min-h-0">
@@ -2149,7 +3880,7 @@ export default function MemoryPage() {
               {/* 詳細圖例 - 固定不滾動 */}
               <div className="mb-3 p-2 bg-slate-900/50 rounded-lg flex-shrink-0">
                 <h4 className="text-xs font-bold mb-1">資料類型圖例</h4>
-                <div className="grid grid-cols-5 lg:grid-cols-10 gap-1 text-xs">
+                <div className="grid grid-cols-4 lg:grid-cols-6 gap-1 text-xs">
                   <div className="flex items-center gap-1">
                     <div className="w-2 h-2 bg-blue-500 rounded-sm"></div>
                     <span>UID</span>
@@ -2190,19 +3921,36 @@ export default function MemoryPage() {
                     <div className="w-2 h-2 bg-slate-700 rounded-sm"></div>
                     <span>一般</span>
                   </div>
+                  <div className="flex items-center gap-1">
+                    <div className="w-2 h-2 bg-slate-900 border border-dashed border-slate-500 rounded-sm"></div>
+                    <span>未讀取</span>
+                  </div>
                 </div>
               </div>
 
               {/* HexEditor 容器 - 可滾動 */}
               <div className="flex-1 min-h-0 overflow-hidden">
                 <HexEditor
-                  data={memoryData}
+                  data={memory}
+                  uidSize={uidSize}
                   selectedBlock={selectedBlock}
                   onBlockSelect={setSelectedBlock}
+                  onByteChange={editByte}
+                  onTrailerWrite={writeTrailer}
                   selectedSector={selectedSector}
+                  transferDiff={transferDiff}
                 />
               </div>
             </motion.div>
+
+            {showSimulator && (
+              <ValueBlockSimulator
+                memoryData={memory}
+                initialSector={selectedSector ?? 0}
+                onTransfer={transferValue}
+                onClose={() => setShowSimulator(false)}
+              />
+            )}
           </div>
 
           {/* 側邊欄 - 左右分欄，只在大螢幕顯示 */}
@@ -2212,6 +3960,8 @@ export default function MemoryPage() {
               <div className="space-y-3 flex flex-col min-h-0">
                 {/* 記憶體配置圖 */}
                 <MemoryMap
+                  blockCount={memory.length}
+                  uidSize={uidSize}
                   onSectorSelect={handleSectorSelect}
                   selectedSector={selectedSector}
                 />
@@ -2230,8 +3980,9 @@ export default function MemoryPage() {
                 <div className="flex-1 min-h-0">
                   <BlockStructureDetails
                     block={selectedBlockData}
+                    uidSize={uidSize}
                     selectedSector={selectedSector}
-                    memoryData={memoryData}
+                    memoryData={memory}
                     onBlockSelect={setSelectedBlock}
                   />
                 </div>
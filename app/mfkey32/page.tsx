@@ -0,0 +1,609 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Radio, KeyRound } from "lucide-react";
+import Link from "next/link";
+import { keyFromHex, keyToHex, mifareAuthenticate, toHex32 } from "@/lib/crypto1";
+import { mfkey32v2, Mfkey32Result, ReaderAuthAttempt } from "@/lib/mfkey";
+import { nonceAtPosition, PRNG_PERIOD } from "@/lib/prng";
+
+interface ReaderAttackStep {
+  id: number;
+  title: string;
+  description: string;
+  phase: string;
+  attackerAction: string;
+  readerResponse: string;
+  details: string;
+}
+
+const readerAttackSteps: ReaderAttackStep[] = [
+  {
+    id: 1,
+    title: "模擬目標卡片",
+    description: "Proxmark3 以合法卡片的 UID 模擬一張 Mifare Classic",
+    phase: "準備",
+    attackerAction: "hf mf sim --1k -u <UID> -i",
+    readerResponse: "讀卡機偵測到卡片",
+    details: "攻擊者不需要接觸真正的卡片，只需要知道卡片 UID（UID 以明文傳送，隨時可讀取）。Proxmark3 在讀卡機前模擬這張卡片，完成 REQA、防碰撞與 SELECT 後，讀卡機會以為真正的卡片就在場域內。",
+  },
+  {
+    id: 2,
+    title: "第一次驗證",
+    description: "讀卡機送出 AUTH，模擬卡片回應 nT，讀卡機回覆 {nR}{aR}",
+    phase: "收集",
+    attackerAction: "nT₀（模擬卡片產生）",
+    readerResponse: "{nR₀} {aR₀}",
+    details: "模擬卡片不知道金鑰，因此無法驗證 {aR} 也無法送出正確的 {aT}。但這不重要：讀卡機在送出 {nR}{aR} 時已經用正確的金鑰加密，攻擊者只需要把這組數值記錄下來。",
+  },
+  {
+    id: 3,
+    title: "第二次驗證",
+    description: "驗證失敗後讀卡機重試，攻擊者再收集一組資料",
+    phase: "收集",
+    attackerAction: "nT₁（不同的 nonce）",
+    readerResponse: "{nR₁} {aR₁}",
+    details: "mfkey32v2 需要兩次針對同一扇區、同一把金鑰的驗證。第一次用來還原候選狀態，第二次用來過濾出唯一的正確金鑰。v2 版本允許兩次的 nT 不同，因此對模擬卡片的 nonce 沒有任何要求。",
+  },
+  {
+    id: 4,
+    title: "計算 ks2",
+    description: "aR = suc2(nT) 可由公開的 nT 計算，與 {aR} XOR 得到 keystream",
+    phase: "分析",
+    attackerAction: "ks2 = {aR₀} ⊕ suc2(nT₀)",
+    readerResponse: "32 位元 keystream",
+    details: "aR 不是秘密：它只是 nT 經 PRNG 推進 64 步的結果。因此 {aR} ⊕ suc2(nT) 直接洩漏 32 個 keystream 位元 ks2。產生 ks2 時 LFSR 沒有任何輸入，這讓狀態還原變得單純。",
+  },
+  {
+    id: 5,
+    title: "LFSR 狀態還原",
+    description: "由 32 個 keystream 位元反推產生它們之前的 48-bit LFSR 狀態",
+    phase: "分析",
+    attackerAction: "lfsr_recovery32(ks2, 0)",
+    readerResponse: "約數萬個候選狀態",
+    details: "過濾函數只讀取奇數位置的位元，因此 keystream 的奇偶位元可以分別由 LFSR 的兩半推算。演算法先列出所有與第一個 keystream 位元相符的 20-bit 片段，每讀一個位元就向左擴展一位，最後以回饋位元的貢獻將奇偶兩半配對。32 位元不足以唯一決定 48-bit 狀態，因此會留下約 2^16 個候選。",
+  },
+  {
+    id: 6,
+    title: "LFSR 回捲",
+    description: "對每個候選狀態依序回捲 aR、{nR}、UID ⊕ nT",
+    phase: "回捲",
+    attackerAction: "lfsr_rollback_word(s, {nR₀}, 1)",
+    readerResponse: "候選金鑰",
+    details: "LFSR 的每一步都可逆：已知輸入即可由新狀態算回舊狀態。回捲 {nR} 時輸入是密文，必須邊回捲邊用 keystream 解密（fb = 1），這正是 Crypto-1 把 nR 明文移入 LFSR 的設計所造成的結果。回捲完 UID ⊕ nT 後，LFSR 回到初始狀態，也就是 48-bit 金鑰。",
+  },
+  {
+    id: 7,
+    title: "以第二次驗證過濾",
+    description: "用候選金鑰重播第二次驗證，{aR₁} 吻合即為正確金鑰",
+    phase: "驗證",
+    attackerAction: "crypto1_word(s, {nR₁}, 1)",
+    readerResponse: "{aR₁} == ks ⊕ suc2(nT₁)",
+    details: "對每個候選金鑰重新初始化 Crypto-1，移入 UID ⊕ nT₁ 與 {nR₁}，再產生 32 個 keystream 位元與 suc2(nT₁) XOR。只有正確的金鑰會產生與實際收集到的 {aR₁} 完全相同的值，錯誤候選的誤判機率約為 2^-32。",
+  },
+  {
+    id: 8,
+    title: "取得金鑰",
+    description: "攻擊者取得讀卡機使用的扇區金鑰",
+    phase: "完成",
+    attackerAction: "mfkey32v2 <uid> <nt0> <nr0> <ar0> <nt1> <nr1> <ar1>",
+    readerResponse: "Found Key: [............]",
+    details: "整個攻擊只需要讀卡機驗證兩次，計算在一般電腦上不到一秒。取得金鑰後即可讀取真正的卡片，或製作可被讀卡機接受的複製卡。這也是為什麼門禁讀卡機本身就是金鑰洩漏的來源。",
+  },
+];
+
+// 讀卡機內部使用的金鑰：攻擊者看不到，只能從收集到的資料還原
+const DEFAULT_READER_KEY = "A0A1A2A3A4A5";
+const DEFAULT_UID = "12345678";
+
+interface CollectedAttempt extends ReaderAuthAttempt {
+  nR: number;
+}
+
+// 模擬卡片的 nonce 由弱 PRNG 產生，讀卡機的 nR 則是真正的隨機數
+const randomNonce = () => nonceAtPosition(Math.floor(Math.random() * PRNG_PERIOD));
+const randomWord = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+const Mfkey32Simulator = () => {
+  const [uidInput, setUidInput] = useState(DEFAULT_UID);
+  const [readerKey, setReaderKey] = useState(DEFAULT_READER_KEY);
+  const [revealKey, setRevealKey] = useState(false);
+  const [attempts, setAttempts] = useState<CollectedAttempt[]>([]);
+  const [result, setResult] = useState<Mfkey32Result | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const uidValid = /^[0-9A-Fa-f]{8}$/.test(uidInput);
+  const uid = parseInt(uidInput, 16) >>> 0;
+
+  // 讀卡機以自己的金鑰完成前半段驗證，模擬卡片只負責記錄
+  const collectAttempt = () => {
+    const nT = randomNonce();
+    const nR = randomWord();
+    const ex = mifareAuthenticate({ uid, key: keyFromHex(readerKey), nT, nR });
+    setAttempts(prev => [...prev.slice(-1), { nT, nR, nREnc: ex.nREnc, aREnc: ex.aREnc }]);
+    setResult(null);
+  };
+
+  const runRecovery = () => {
+    if (attempts.length < 2) return;
+    setIsRunning(true);
+    setResult(null);
+    // 先讓畫面更新成「計算中」，再開始同步計算
+    setTimeout(() => {
+      const start = performance.now();
+      const recovered = mfkey32v2(uid, attempts[0], attempts[1]);
+      setElapsed(performance.now() - start);
+      setResult(recovered);
+      setIsRunning(false);
+    }, 50);
+  };
+
+  const changeReaderKey = () => {
+    const key = Math.floor(Math.random() * 0x1000000) * 0x1000000 + Math.floor(Math.random() * 0x1000000);
+    setReaderKey(keyToHex(key));
+    setAttempts([]);
+    setResult(null);
+    setRevealKey(false);
+  };
+
+  const reset = () => {
+    setAttempts([]);
+    setResult(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 mb-3 lg:mb-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 lg:mb-4 text-amber-400 flex items-center gap-2">
+        <KeyRound size={16} className="lg:w-5 lg:h-5" />
+        mfkey32v2 模擬器
+      </h3>
+
+      {/* 模擬設定 */}
+      <div className="grid sm:grid-cols-2 gap-3 text-xs mb-4">
+        <label className="block">
+          <div className="text-slate-400 mb-1">模擬卡片 UID</div>
+          <input
+            value={uidInput}
+            maxLength={8}
+            spellCheck={false}
+            onChange={(e) => { setUidInput(e.target.value.toUpperCase()); reset(); }}
+            className={`w-full bg-slate-900 border rounded px-2 py-1.5 font-mono text-white focus:outline-none ${
+              uidValid ? 'border-slate-600 focus:border-amber-500' : 'border-red-500'
+            }`}
+          />
+        </label>
+        <div>
+          <div className="text-slate-400 mb-1">讀卡機內部金鑰（攻擊者未知）</div>
+          <div className="flex gap-2">
+            <div className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1.5 font-mono">
+              {revealKey ? readerKey : '••••••••••••'}
+            </div>
+            <button
+              onClick={() => setRevealKey(!revealKey)}
+              className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+            >
+              {revealKey ? '隱藏' : '顯示'}
+            </button>
+            <button
+              onClick={changeReaderKey}
+              className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+            >
+              換金鑰
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={collectAttempt}
+          disabled={!uidValid}
+          className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+            uidValid ? 'bg-amber-600 hover:bg-amber-700 text-white' : 'bg-slate-700/50 text-slate-500 cursor-not-allowed'
+          }`}
+        >
+          📡 讀卡機驗證一次
+        </button>
+        <button
+          onClick={runRecovery}
+          disabled={attempts.length < 2 || isRunning}
+          className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+            attempts.length >= 2 && !isRunning ? 'bg-yellow-600 hover:bg-yellow-700 text-white' : 'bg-slate-700/50 text-slate-500 cursor-not-allowed'
+          }`}
+        >
+          {isRunning ? '計算中...' : '🔓 執行 mfkey32v2'}
+        </button>
+        <button
+          onClick={reset}
+          className="px-3 py-2 rounded-lg text-sm bg-slate-600 hover:bg-slate-700 transition-colors"
+        >
+          清除
+        </button>
+      </div>
+
+      {/* 收集到的驗證資料 */}
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-400 text-left border-b border-slate-700">
+              <th className="py-1 pr-3">#</th>
+              <th className="py-1 pr-3">UID</th>
+              <th className="py-1 pr-3">nT</th>
+              <th className="py-1 pr-3">{'{nR}'}</th>
+              <th className="py-1">{'{aR}'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attempts.length === 0 && (
+              <tr>
+                <td colSpan={5} className="py-2 text-slate-500 text-center">尚未收集任何驗證資料</td>
+              </tr>
+            )}
+            {attempts.map((attempt, i) => (
+              <motion.tr
+                key={`${attempt.nT}-${i}`}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="border-b border-slate-800 text-slate-200"
+              >
+                <td className="py-1 pr-3">{i}</td>
+                <td className="py-1 pr-3">{toHex32(uid)}</td>
+                <td className="py-1 pr-3 text-purple-300">{toHex32(attempt.nT)}</td>
+                <td className="py-1 pr-3 text-blue-300">{toHex32(attempt.nREnc)}</td>
+                <td className="py-1 text-green-300">{toHex32(attempt.aREnc)}</td>
+              </motion.tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {attempts.length === 2 && (
+        <div className="bg-slate-900/50 rounded p-2 text-xs font-mono text-slate-400 mb-4 break-all">
+          $ mfkey32v2 {toHex32(uid)} {attempts.map(a => `${toHex32(a.nT)} ${toHex32(a.nREnc)} ${toHex32(a.aREnc)}`).join(' ')}
+        </div>
+      )}
+
+      {/* 還原結果 */}
+      <AnimatePresence>
+        {result && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="space-y-2 text-xs"
+          >
+            <div className="grid grid-cols-3 gap-2">
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">ks2</div>
+                <div className="font-mono text-yellow-300">{toHex32(result.ks2)}</div>
+              </div>
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">候選狀態</div>
+                <div className="font-mono text-white">{result.candidates.toLocaleString()}</div>
+              </div>
+              <div className="bg-slate-900/50 rounded p-2">
+                <div className="text-slate-400">耗時</div>
+                <div className="font-mono text-white">{elapsed.toFixed(0)} ms</div>
+              </div>
+            </div>
+
+            {result.trace.length > 0 && (
+              <div className="bg-slate-900/50 rounded p-2 space-y-1">
+                {result.trace.map((entry, i) => (
+                  <motion.div
+                    key={i}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: i * 0.3 }}
+                    className="flex justify-between gap-2"
+                  >
+                    <span className="text-slate-400">{entry.label}</span>
+                    <span className="font-mono text-amber-300">{keyToHex(entry.lfsr)}</span>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+
+            <div className={`rounded p-3 font-mono text-sm ${
+              result.key !== null ? 'bg-green-900/30 border border-green-500/30 text-green-300' : 'bg-red-900/30 border border-red-500/30 text-red-300'
+            }`}>
+              {result.key !== null
+                ? `Found Key: [${keyToHex(result.key)}] ${keyToHex(result.key) === readerKey ? '✓ 與讀卡機金鑰相同' : ''}`
+                : '找不到金鑰：兩次驗證可能使用了不同的金鑰或扇區'}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+export default function Mfkey32Page() {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isPlaying) {
+      interval = setInterval(() => {
+        setCurrentStep((prev) => {
+          if (prev >= readerAttackSteps.length - 1) {
+            return 0;
+          }
+          return prev + 1;
+        });
+      }, 4000);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, currentStep]);
+
+  const resetAnimation = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlayPause = () => {
+    setIsPlaying(!isPlaying);
+  };
+
+  const goToStep = (stepIndex: number) => {
+    setCurrentStep(stepIndex);
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
+        >
+          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
+            <motion.div
+              whileHover={{ scale: 1.1 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Link href="/" className="text-amber-400 hover:text-amber-300 transition-colors flex-shrink-0">
+                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+              </Link>
+            </motion.div>
+            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-amber-400 to-yellow-400 bg-clip-text text-transparent">
+              Reader Attack
+            </h1>
+          </div>
+
+          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
+            <motion.button
+              onClick={togglePlayPause}
+              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-amber-600 hover:bg-amber-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
+              {isPlaying ? "暫停" : "播放"}
+            </motion.button>
+            <motion.button
+              onClick={resetAnimation}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <RotateCcw size={20} />
+              重置
+            </motion.button>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 lg:gap-8">
+          {/* 主要動畫區域 */}
+          <div className="lg:col-span-2">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6"
+            >
+              {/* 當前步驟標題 */}
+              <div className="text-center mb-4 lg:mb-8">
+                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1 lg:mb-2">
+                  步驟 {currentStep + 1}: {readerAttackSteps[currentStep]?.title}
+                </h3>
+                <p className="text-slate-300 mb-2 lg:mb-4 text-sm lg:text-base">
+                  {readerAttackSteps[currentStep]?.description}
+                </p>
+                <div className="inline-flex items-center gap-1 lg:gap-2 px-2 lg:px-3 py-1 bg-amber-600/20 border border-amber-500/30 rounded-full text-amber-400 text-xs lg:text-sm">
+                  <Radio size={12} className="lg:w-4 lg:h-4" />
+                  {readerAttackSteps[currentStep]?.phase}
+                </div>
+              </div>
+
+              {/* 攻擊動畫區域 */}
+              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6">
+                <div className="flex items-center justify-between">
+                  {/* 模擬卡片 */}
+                  <div className="text-center">
+                    <motion.div
+                      animate={{
+                        scale: [1, 1.1, 1],
+                        boxShadow: [
+                          '0 0 0px rgba(245, 158, 11, 0.5)',
+                          '0 0 20px rgba(245, 158, 11, 0.8)',
+                          '0 0 0px rgba(245, 158, 11, 0.5)'
+                        ]
+                      }}
+                      transition={{
+                        duration: 2,
+                        repeat: Infinity,
+                        repeatType: "reverse"
+                      }}
+                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-amber-500 to-amber-700 rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center"
+                    >
+                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">模擬卡片 (Proxmark3)</p>
+                  </div>
+
+                  {/* 資料流 */}
+                  <div className="flex-1 mx-4 lg:mx-8 text-center space-y-1 lg:space-y-2">
+                    <motion.div
+                      animate={{ opacity: [0.5, 1, 0.5] }}
+                      transition={{ duration: 2, repeat: Infinity }}
+                      className="text-amber-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded"
+                    >
+                      {readerAttackSteps[currentStep]?.attackerAction}
+                    </motion.div>
+                    <div className="text-blue-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded">
+                      {readerAttackSteps[currentStep]?.readerResponse}
+                    </div>
+                  </div>
+
+                  {/* 讀卡機 */}
+                  <div className="text-center">
+                    <motion.div
+                      animate={{
+                        boxShadow: ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
+                      }}
+                      transition={{ duration: 2, repeat: Infinity }}
+                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-blue-500 to-blue-700 rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center"
+                    >
+                      <span className="text-white text-lg sm:text-xl lg:text-2xl">📡</span>
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">門禁讀卡機</p>
+                  </div>
+                </div>
+              </div>
+
+              {/* 攻擊原理說明 */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-slate-900/30 border border-amber-500/20 rounded-lg p-3 sm:p-4 lg:p-6"
+              >
+                <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 text-yellow-400 flex items-center gap-2">
+                  <Radio size={16} className="lg:w-5 lg:h-5" />
+                  攻擊原理
+                </h3>
+                <div className="text-xs sm:text-sm text-slate-300 leading-relaxed">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={currentStep}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      {readerAttackSteps[currentStep]?.details}
+                    </motion.div>
+                  </AnimatePresence>
+                </div>
+              </motion.div>
+            </motion.div>
+
+            {/* 互動模擬 */}
+            <Mfkey32Simulator />
+
+            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
+                  disabled={currentStep === 0}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === 0
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-amber-600 hover:bg-amber-700 text-white"
+                  }`}
+                >
+                  <ArrowLeft size={16} />
+                  上一步
+                </button>
+
+                <div className="text-center px-4">
+                  <div className="text-sm font-medium text-white">
+                    步驟 {currentStep + 1} / {readerAttackSteps.length}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {readerAttackSteps[currentStep]?.title}
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => goToStep(Math.min(readerAttackSteps.length - 1, currentStep + 1))}
+                  disabled={currentStep === readerAttackSteps.length - 1}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === readerAttackSteps.length - 1
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-amber-600 hover:bg-amber-700 text-white"
+                  }`}
+                >
+                  下一步
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* 側邊欄 - 只在大螢幕顯示 */}
+          <div className="hidden lg:block space-y-3 lg:space-y-6">
+            {/* 步驟導航 */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 max-h-[calc(100vh-12rem)] flex flex-col"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 flex items-center gap-2 flex-shrink-0">
+                <Radio size={16} className="lg:w-5 lg:h-5 text-amber-400" />
+                攻擊步驟
+              </h3>
+              <div className="space-y-1 lg:space-y-2 overflow-y-auto flex-1 pr-2 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
+                {readerAttackSteps.map((step, index) => (
+                  <motion.button
+                    key={step.id}
+                    onClick={() => goToStep(index)}
+                    className={`w-full text-left p-2 lg:p-3 rounded-lg transition-all duration-300 touch-manipulation min-h-[44px] ${
+                      index === currentStep
+                        ? "bg-amber-600/30 border border-amber-500/50 text-white shadow-lg"
+                        : index < currentStep
+                        ? "bg-yellow-900/30 text-yellow-400"
+                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
+                    }`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <div className="flex items-center gap-2 lg:gap-3">
+                      <div className={`w-5 h-5 lg:w-6 lg:h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                        index === currentStep
+                          ? "bg-amber-500 text-white"
+                          : index < currentStep
+                          ? "bg-yellow-500 text-white"
+                          : "bg-slate-600 text-slate-400"
+                      }`}>
+                        {index + 1}
+                      </div>
+                      <div>
+                        <p className="font-medium text-xs sm:text-sm">{step.title}</p>
+                        <p className="text-xs opacity-75">{step.phase}</p>
+                      </div>
+                    </div>
+                  </motion.button>
+                ))}
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,455 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowLeft, Play, Pause, RotateCcw, Search, KeyRound } from "lucide-react";
+import Link from "next/link";
+import { keyToHex, mifareAuthenticate, toHex32 } from "@/lib/crypto1";
+import { mfkey64, Mfkey64Result, RollbackBitStep } from "@/lib/mfkey";
+
+interface SniffFormValues {
+  uid: string;
+  nT: string;
+  nREnc: string;
+  aREnc: string;
+  aTEnc: string;
+}
+
+const SNIFF_FIELDS: { name: keyof SniffFormValues; label: string; color: string }[] = [
+  { name: 'uid', label: 'UID', color: 'text-purple-300' },
+  { name: 'nT', label: 'nT', color: 'text-purple-300' },
+  { name: 'nREnc', label: '{nR}', color: 'text-blue-300' },
+  { name: 'aREnc', label: '{aR}', color: 'text-green-300' },
+  { name: 'aTEnc', label: '{aT}', color: 'text-orange-300' },
+];
+
+// crapto1 附帶的 mfkey64 範例
+const PROXMARK_EXAMPLE: SniffFormValues = {
+  uid: "9C599B32",
+  nT: "82A4166C",
+  nREnc: "A1E458CE",
+  aREnc: "6EEA41E0",
+  aTEnc: "5CADF439",
+};
+
+// 與相互驗證頁的預設參數相同
+const authPageExample = (): SniffFormValues => {
+  const ex = mifareAuthenticate({ uid: 0xDEADBEEF, key: 0xFFFFFFFFFFFF, nT: 0x94B2F715, nR: 0xA1B2C3D4 });
+  return {
+    uid: toHex32(ex.uid),
+    nT: toHex32(ex.nT),
+    nREnc: toHex32(ex.nREnc),
+    aREnc: toHex32(ex.aREnc),
+    aTEnc: toHex32(ex.aTEnc),
+  };
+};
+
+const PHASE_INFO: Record<RollbackBitStep['phase'], { label: string; color: string; bg: string }> = {
+  aR: { label: '回捲 aR 階段（輸入 0）', color: 'text-green-400', bg: 'bg-green-500' },
+  nR: { label: '回捲 {nR}（密文回饋）', color: 'text-blue-400', bg: 'bg-blue-500' },
+  uidNt: { label: '回捲 UID ⊕ nT', color: 'text-purple-400', bg: 'bg-purple-500' },
+};
+
+const mfkey64Steps = [
+  { title: "嗅探驗證", description: "在讀卡機與真卡之間記錄 UID、nT、{nR}、{aR}、{aT}" },
+  { title: "取得 ks2 / ks3", description: "aR = suc2(nT)、aT = suc3(nT) 可公開計算，與密文 XOR 即得 keystream" },
+  { title: "還原 LFSR", description: "由 ks2 還原候選狀態，ks3 只留下唯一正確的一個" },
+  { title: "回捲 aR", description: "產生 ks2 時 LFSR 無輸入，回捲 32 位元" },
+  { title: "回捲 {nR}", description: "邊回捲邊解密，順便還原出明文 nR" },
+  { title: "回捲 UID ⊕ nT", description: "回到初始狀態，LFSR 內容即為金鑰" },
+];
+
+const isHex32 = (value: string) => /^[0-9A-Fa-f]{8}$/.test(value);
+
+// 從貼上的文字中取出 5 個 32-bit 十六進制數，例如 "mfkey64 9c599b32 82a4166c ..."
+const parseSniffedLine = (text: string): SniffFormValues | null => {
+  const words = text.match(/\b[0-9A-Fa-f]{8}\b/g);
+  if (!words || words.length < 5) return null;
+  const [uid, nT, nREnc, aREnc, aTEnc] = words.slice(-5).map(w => w.toUpperCase());
+  return { uid, nT, nREnc, aREnc, aTEnc };
+};
+
+// 48-bit LFSR 的位元（由高位到低位）
+const lfsrBits = (lfsr: number): number[] =>
+  Array.from({ length: 48 }, (_, i) => Math.floor(lfsr / 2 ** (47 - i)) % 2);
+
+const LfsrRollbackView = ({ result }: { result: Mfkey64Result }) => {
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const total = result.steps.length;
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isPlaying && position < total) {
+      interval = setInterval(() => {
+        setPosition((prev) => prev + 1);
+      }, 120);
+    } else if (position >= total) {
+      setIsPlaying(false);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, position, total]);
+
+  const step = position > 0 ? result.steps[position - 1] : null;
+  const lfsr = step ? step.lfsr : result.startLfsr;
+  const previous = position > 1 ? result.steps[position - 2].lfsr : result.startLfsr;
+  const bits = lfsrBits(lfsr);
+  const previousBits = lfsrBits(previous);
+  const done = position === total;
+
+  // 已回捲的 {nR} 位元可逐步拼出明文 nR
+  const nRSteps = result.steps.slice(0, position).filter(s => s.phase === 'nR');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => {
+            if (done) setPosition(0);
+            setIsPlaying(!isPlaying);
+          }}
+          className="flex items-center gap-1 px-3 py-1.5 bg-teal-600 hover:bg-teal-700 rounded text-sm transition-colors"
+        >
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          {isPlaying ? '暫停' : '逐位元回捲'}
+        </button>
+        <button
+          onClick={() => { setPosition(0); setIsPlaying(false); }}
+          className="flex items-center gap-1 px-3 py-1.5 bg-slate-600 hover:bg-slate-700 rounded text-sm transition-colors"
+        >
+          <RotateCcw size={14} />
+          重置
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={total}
+          value={position}
+          onChange={(e) => { setPosition(Number(e.target.value)); setIsPlaying(false); }}
+          className="flex-1 accent-teal-500"
+        />
+        <span className="text-xs font-mono text-slate-400 w-14 text-right">{position}/{total}</span>
+      </div>
+
+      {/* 階段進度 */}
+      <div className="flex gap-1">
+        {(['aR', 'nR', 'uidNt'] as const).map((phase, i) => {
+          const filled = Math.min(32, Math.max(0, position - i * 32));
+          return (
+            <div key={phase} className="flex-1">
+              <div className="h-1.5 bg-slate-700 rounded overflow-hidden">
+                <div className={`h-full ${PHASE_INFO[phase].bg}`} style={{ width: `${(filled / 32) * 100}%` }} />
+              </div>
+              <div className={`text-[10px] mt-1 ${PHASE_INFO[phase].color}`}>{PHASE_INFO[phase].label}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* LFSR 位元 */}
+      <div className="bg-slate-900/50 rounded p-3">
+        <div className="flex items-center justify-between text-xs mb-2">
+          <span className="text-slate-400">48-bit LFSR</span>
+          <span className={`font-mono ${done ? 'text-green-300' : 'text-teal-300'}`}>{keyToHex(lfsr)}</span>
+        </div>
+        <div className="grid grid-cols-6 gap-1">
+          {[0, 1, 2, 3, 4, 5].map(byteIndex => (
+            <div key={byteIndex} className="flex gap-px justify-center">
+              {bits.slice(byteIndex * 8, byteIndex * 8 + 8).map((b, i) => {
+                const index = byteIndex * 8 + i;
+                const changed = position > 0 && b !== previousBits[index];
+                return (
+                  <motion.span
+                    key={i}
+                    animate={{ scale: changed ? [1, 1.3, 1] : 1 }}
+                    className={`w-3 sm:w-4 text-center font-mono text-[10px] sm:text-xs rounded-sm ${
+                      changed ? 'bg-yellow-500/40 text-yellow-200' : b ? 'bg-teal-600/40 text-teal-200' : 'bg-slate-800 text-slate-500'
+                    }`}
+                  >
+                    {b}
+                  </motion.span>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 目前位元 */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+        <div className="bg-slate-900/50 rounded p-2">
+          <div className="text-slate-400">階段</div>
+          <div className={step ? PHASE_INFO[step.phase].color : 'text-slate-500'}>
+            {step ? PHASE_INFO[step.phase].label : '產生 ks2 前的狀態'}
+          </div>
+        </div>
+        <div className="bg-slate-900/50 rounded p-2">
+          <div className="text-slate-400">位元位置</div>
+          <div className="font-mono text-white">{step ? step.bitIndex : '-'}</div>
+        </div>
+        <div className="bg-slate-900/50 rounded p-2">
+          <div className="text-slate-400">輸入位元</div>
+          <div className="font-mono text-white">{step ? step.input : '-'}</div>
+        </div>
+        <div className="bg-slate-900/50 rounded p-2">
+          <div className="text-slate-400">keystream 位元</div>
+          <div className="font-mono text-white">{step ? step.keystream : '-'}</div>
+        </div>
+      </div>
+
+      <div className="text-xs font-mono text-slate-400">
+        明文 nR：
+        <span className="text-blue-300">
+          {Array.from({ length: 32 }, (_, i) => {
+            const bitIndex = 31 - i;
+            const recovered = nRSteps.find(s => s.bitIndex === bitIndex);
+            return recovered ? String(recovered.input ^ recovered.keystream) : '·';
+          }).join('')}
+        </span>
+        {nRSteps.length === 32 && <span className="text-white ml-2">= {toHex32(result.nR)}</span>}
+      </div>
+
+      <AnimatePresence>
+        {done && result.key !== null && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="bg-green-900/30 border border-green-500/30 rounded p-3 font-mono text-sm text-green-300"
+          >
+            Found Key: [{keyToHex(result.key)}]
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default function Mfkey64Page() {
+  const [form, setForm] = useState<SniffFormValues>(PROXMARK_EXAMPLE);
+  const [pasteInput, setPasteInput] = useState("");
+  const [result, setResult] = useState<Mfkey64Result | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  // 由相互驗證頁帶入的參數（?uid=&nt=&nr=&ar=&at=）
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const fromQuery = {
+      uid: params.get('uid') || '',
+      nT: params.get('nt') || '',
+      nREnc: params.get('nr') || '',
+      aREnc: params.get('ar') || '',
+      aTEnc: params.get('at') || '',
+    };
+    if (Object.values(fromQuery).every(isHex32)) {
+      setForm({
+        uid: fromQuery.uid.toUpperCase(),
+        nT: fromQuery.nT.toUpperCase(),
+        nREnc: fromQuery.nREnc.toUpperCase(),
+        aREnc: fromQuery.aREnc.toUpperCase(),
+        aTEnc: fromQuery.aTEnc.toUpperCase(),
+      });
+    }
+  }, []);
+
+  const formValid = Object.values(form).every(isHex32);
+
+  const updateForm = (values: SniffFormValues) => {
+    setForm(values);
+    setResult(null);
+  };
+
+  const applyPaste = (text: string) => {
+    setPasteInput(text);
+    const parsed = parseSniffedLine(text);
+    if (parsed) updateForm(parsed);
+  };
+
+  const runRecovery = () => {
+    if (!formValid) return;
+    setIsRunning(true);
+    setResult(null);
+    // 先讓畫面更新成「計算中」，再開始同步計算
+    setTimeout(() => {
+      const start = performance.now();
+      const recovered = mfkey64({
+        uid: parseInt(form.uid, 16) >>> 0,
+        nT: parseInt(form.nT, 16) >>> 0,
+        nREnc: parseInt(form.nREnc, 16) >>> 0,
+        aREnc: parseInt(form.aREnc, 16) >>> 0,
+        aTEnc: parseInt(form.aTEnc, 16) >>> 0,
+      });
+      setElapsed(performance.now() - start);
+      setResult(recovered);
+      setIsRunning(false);
+    }, 50);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-3 sm:gap-4 mb-6 sm:mb-8"
+        >
+          <motion.div
+            whileHover={{ scale: 1.1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <Link href="/" className="text-teal-400 hover:text-teal-300 transition-colors flex-shrink-0">
+              <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+            </Link>
+          </motion.div>
+          <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-teal-400 to-cyan-400 bg-clip-text text-transparent">
+            mfkey64 嗅探還原
+          </h1>
+        </motion.div>
+
+        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 lg:gap-8">
+          {/* 主要區域 */}
+          <div className="lg:col-span-2 space-y-4 lg:space-y-6">
+            {/* 嗅探資料輸入 */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-3 lg:mb-4 text-teal-400 flex items-center gap-2">
+                <Search size={16} className="lg:w-5 lg:h-5" />
+                嗅探到的驗證資料
+              </h3>
+
+              <label className="block text-xs mb-3">
+                <div className="text-slate-400 mb-1">貼上整行（例如 mfkey64 指令或 trace 擷取的五個數值）</div>
+                <input
+                  value={pasteInput}
+                  spellCheck={false}
+                  placeholder="mfkey64 9c599b32 82a4166c a1e458ce 6eea41e0 5cadf439"
+                  onChange={(e) => applyPaste(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-600 focus:border-teal-500 rounded px-2 py-1.5 font-mono text-white focus:outline-none"
+                />
+              </label>
+
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs mb-4">
+                {SNIFF_FIELDS.map(field => (
+                  <label key={field.name} className="block">
+                    <div className={`mb-1 ${field.color}`}>{field.label}</div>
+                    <input
+                      value={form[field.name]}
+                      maxLength={8}
+                      spellCheck={false}
+                      onChange={(e) => updateForm({ ...form, [field.name]: e.target.value.toUpperCase() })}
+                      className={`w-full bg-slate-900 border rounded px-2 py-1.5 font-mono text-white focus:outline-none ${
+                        isHex32(form[field.name]) ? 'border-slate-600 focus:border-teal-500' : 'border-red-500'
+                      }`}
+                    />
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={runRecovery}
+                  disabled={!formValid || isRunning}
+                  className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    formValid && !isRunning ? 'bg-teal-600 hover:bg-teal-700 text-white' : 'bg-slate-700/50 text-slate-500 cursor-not-allowed'
+                  }`}
+                >
+                  <KeyRound size={14} />
+                  {isRunning ? '計算中...' : '執行 mfkey64'}
+                </button>
+                <button
+                  onClick={() => updateForm(PROXMARK_EXAMPLE)}
+                  className="px-3 py-2 rounded-lg text-sm bg-slate-600 hover:bg-slate-700 transition-colors"
+                >
+                  載入 crapto1 範例
+                </button>
+                <button
+                  onClick={() => updateForm(authPageExample())}
+                  className="px-3 py-2 rounded-lg text-sm bg-slate-600 hover:bg-slate-700 transition-colors"
+                >
+                  載入相互驗證頁資料
+                </button>
+              </div>
+
+              {formValid && (
+                <div className="bg-slate-900/50 rounded p-2 text-xs font-mono text-slate-400 mt-4 break-all">
+                  $ mfkey64 {SNIFF_FIELDS.map(f => form[f.name].toLowerCase()).join(' ')}
+                </div>
+              )}
+            </motion.div>
+
+            {/* 還原結果 */}
+            {result && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6"
+              >
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs mb-4">
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">ks2 = {'{aR}'} ⊕ suc2(nT)</div>
+                    <div className="font-mono text-green-300">{toHex32(result.ks2)}</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">ks3 = {'{aT}'} ⊕ suc3(nT)</div>
+                    <div className="font-mono text-orange-300">{toHex32(result.ks3)}</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">ks2 候選狀態</div>
+                    <div className="font-mono text-white">{result.candidates.toLocaleString()}</div>
+                  </div>
+                  <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-400">耗時</div>
+                    <div className="font-mono text-white">{elapsed.toFixed(0)} ms</div>
+                  </div>
+                </div>
+
+                {result.key !== null ? (
+                  <LfsrRollbackView key={result.startLfsr} result={result} />
+                ) : (
+                  <div className="bg-red-900/30 border border-red-500/30 rounded p-3 text-sm text-red-300">
+                    沒有任何候選狀態同時符合 ks2 與 ks3，請確認五個數值來自同一次驗證
+                  </div>
+                )}
+              </motion.div>
+            )}
+          </div>
+
+          {/* 側邊欄 */}
+          <div className="space-y-3 lg:space-y-6">
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 flex items-center gap-2">
+                <KeyRound size={16} className="lg:w-5 lg:h-5 text-teal-400" />
+                mfkey64 原理
+              </h3>
+              <div className="space-y-2">
+                {mfkey64Steps.map((step, index) => (
+                  <div key={index} className="flex gap-2 lg:gap-3 p-2 rounded-lg bg-slate-700/30">
+                    <div className="w-5 h-5 lg:w-6 lg:h-6 rounded-full flex items-center justify-center text-xs font-bold bg-teal-600 text-white flex-shrink-0">
+                      {index + 1}
+                    </div>
+                    <div>
+                      <p className="font-medium text-xs sm:text-sm">{step.title}</p>
+                      <p className="text-xs text-slate-400">{step.description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="text-xs text-slate-400 mt-4">
+                與 mfkey32v2 不同，mfkey64 只需要一次完整的驗證，但必須同時聽到讀卡機與卡片兩端（{'{aT}'} 來自卡片）
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
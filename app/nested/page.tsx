@@ -1,437 +1,639 @@
-"use client";
-
-import { useState, useEffect } from "react";
-import { motion, AnimatePresence } from "framer-motion";
-import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Shield, Target } from "lucide-react";
-import Link from "next/link";
-
-interface NestedStep {
-  id: number;
-  title: string;
-  description: string;
-  phase: string;
-  attackerAction: string;
-  cardResponse: string;
-  vulnerability: string;
-  details: string;
-}
-
-const nestedSteps: NestedStep[] = [
-  {
-    id: 1,
-    title: "檢測卡片類型",
-    description: "Proxmark3 檢測卡片並確認為 Mifare Classic",
-    phase: "初始化",
-    attackerAction: "hf 14a info",
-    cardResponse: "ATQA: 0004, SAK: 08 (1K)",
-    vulnerability: "卡片身份公開可見",
-    details: "使用 Proxmark3 的 'hf 14a info' 命令檢測卡片類型。系統會顯示 ATQA (Answer To reQuest A) 和 SAK (Select AcKnowledge) 資訊，確認這是一張 Mifare Classic 1K 卡片，具有 16 個扇區。",
-  },
-  {
-    id: 2,
-    title: "測試預設金鑰",
-    description: "嘗試使用常見的預設金鑰進行驗證",
-    phase: "金鑰探測",
-    attackerAction: "hf mf chk --1k",
-    cardResponse: "Found Key A: FFFFFFFFFFFF",
-    vulnerability: "使用預設金鑰或弱金鑰",
-    details: "Proxmark3 的 'hf mf chk' 命令會測試常見的預設金鑰，如 FFFFFFFFFFFF、A0A1A2A3A4A5、D3F7D3F7D3F7 等。通常至少會找到一個可用的金鑰，這是 Nested Attack 的必要條件。",
-  },
-  {
-    id: 3,
-    title: "執行 Nested Attack",
-    description: "使用已知金鑰對其他扇區執行 nested 攻擊",
-    phase: "主要攻擊",
-    attackerAction: "hf mf nested --1k --blk 0 -a -k FFFFFFFFFFFF",
-    cardResponse: "Collecting nonces...",
-    vulnerability: "Crypto-1 PRNG 的可預測性",
-    details: "核心命令 'hf mf nested'。使用已知的扇區 0 Key A (FFFFFFFFFFFF) 作為攻擊起點。Proxmark3 會對每個目標扇區執行嵌套認證，收集加密的 nonce 數據。每次認證都會生成新的挑戰-回應對。",
-  },
-  {
-    id: 4,
-    title: "收集加密 Nonces",
-    description: "從每個目標扇區收集加密的挑戰回應",
-    phase: "數據採集",
-    attackerAction: "Target sector: 4, nonces: 500",
-    cardResponse: "Encrypted nT: 0x12345678",
-    vulnerability: "加密通道中的 nonce 洩漏資訊",
-    details: "對每個扇區，Proxmark3 會收集約 500-1000 個加密的 nonce。這些 nonce 是在已建立的加密通道中傳輸的，但它們的產生模式仍然暴露了 PRNG 的內部狀態資訊。",
-  },
-  {
-    id: 5,
-    title: "分析 PRNG 狀態",
-    description: "分析收集的數據以重建 PRNG 內部狀態",
-    phase: "密碼分析",
-    attackerAction: "分析 nonce 序列模式",
-    cardResponse: "LFSR 狀態推導中...",
-    vulnerability: "16-bit LFSR 的有限狀態空間",
-    details: "Proxmark3 內建的密碼分析演算法會分析收集到的 nonce 序列。由於 Mifare Classic 的 PRNG 基於 16-bit LFSR，只有 65536 個可能狀態，這使得狀態重建在計算上是可行的。",
-  },
-  {
-    id: 6,
-    title: "計算金鑰候選",
-    description: "基於推導的狀態計算可能的金鑰",
-    phase: "金鑰推導",
-    attackerAction: "生成金鑰候選列表",
-    cardResponse: "候選金鑰: 2^20 個",
-    vulnerability: "Crypto-1 初始化的數學弱點",
-    details: "利用重建的 PRNG 狀態和 Crypto-1 演算法的已知弱點，Proxmark3 可以將 48-bit 的金鑰空間縮減到約 2^20 個候選。這是通過逆向 Crypto-1 的金鑰排程演算法實現的。",
-  },
-  {
-    id: 7,
-    title: "暴力搜索驗證",
-    description: "測試金鑰候選直到找到正確金鑰",
-    phase: "驗證階段",
-    attackerAction: "Testing key candidates...",
-    cardResponse: "Found Key: A1B2C3D4E5F6",
-    vulnerability: "縮減的搜索空間可快速窮舉",
-    details: "Proxmark3 會自動測試所有金鑰候選。由於搜索空間已大幅縮減，這個過程通常在幾分鐘內完成。每個候選金鑰都會通過實際的認證測試來驗證其正確性。",
-  },
-  {
-    id: 8,
-    title: "輸出完整金鑰",
-    description: "顯示所有成功破解的扇區金鑰",
-    phase: "結果輸出",
-    attackerAction: "hf mf nested --1k --dump",
-    cardResponse: "All keys found: 16 sectors",
-    vulnerability: "整張卡片的安全性被完全破壞",
-    details: "攻擊完成後，Proxmark3 會顯示所有扇區的 Key A 和 Key B。使用 '--dump' 參數可以將結果保存到檔案。此時攻擊者擁有卡片的完整控制權，可以讀寫任意扇區的數據。",
-  },
-];
-
-export default function NestedAttackPage() {
-  const [currentStep, setCurrentStep] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isPlaying) {
-      interval = setInterval(() => {
-        setCurrentStep((prev) => {
-          if (prev >= nestedSteps.length - 1) {
-            return 0;
-          }
-          return prev + 1;
-        });
-      }, 4000);
-    }
-    return () => clearInterval(interval);
-  }, [isPlaying, currentStep]);
-
-  const resetAnimation = () => {
-    setCurrentStep(0);
-    setIsPlaying(false);
-  };
-
-  const togglePlayPause = () => {
-    setIsPlaying(!isPlaying);
-  };
-
-  const goToStep = (stepIndex: number) => {
-    setCurrentStep(stepIndex);
-    setIsPlaying(false);
-  };
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
-      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
-        {/* Header */}
-        <motion.div
-          initial={{ opacity: 0, y: -30 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
-        >
-          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
-            <motion.div
-              whileHover={{ scale: 1.1 }}
-              transition={{ duration: 0.2 }}
-            >
-              <Link href="/" className="text-red-400 hover:text-red-300 transition-colors flex-shrink-0">
-                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
-              </Link>
-            </motion.div>
-            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-red-400 to-orange-400 bg-clip-text text-transparent">
-              Nested Attack
-            </h1>
-          </div>
-          
-          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
-            <motion.button
-              onClick={togglePlayPause}
-              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
-              {isPlaying ? "暫停" : "播放"}
-            </motion.button>
-            <motion.button
-              onClick={resetAnimation}
-              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <RotateCcw size={20} />
-              重置
-            </motion.button>
-          </div>
-        </motion.div>
-
-        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 lg:gap-8">
-          {/* 主要動畫區域 */}
-          <div className="lg:col-span-2">
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6"
-            >
-              {/* 當前步驟標題 */}
-              <div className="text-center mb-4 lg:mb-8">
-                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1 lg:mb-2">
-                  步驟 {currentStep + 1}: {nestedSteps[currentStep]?.title}
-                </h3>
-                <p className="text-slate-300 mb-2 lg:mb-4 text-sm lg:text-base">
-                  {nestedSteps[currentStep]?.description}
-                </p>
-                <div className="inline-flex items-center gap-1 lg:gap-2 px-2 lg:px-3 py-1 bg-red-600/20 border border-red-500/30 rounded-full text-red-400 text-xs lg:text-sm">
-                  <Shield size={12} className="lg:w-4 lg:h-4" />
-                  {nestedSteps[currentStep]?.phase}
-                </div>
-              </div>
-
-              {/* 攻擊動畫區域 */}
-              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6">
-                <div className="flex items-center justify-between mb-4 lg:mb-8">
-                  {/* 攻擊者 */}
-                  <div className="text-center">
-                    <motion.div 
-                      animate={{
-                        scale: [1, 1.1, 1],
-                        boxShadow: [
-                          '0 0 0px rgba(239, 68, 68, 0.5)', 
-                          '0 0 20px rgba(239, 68, 68, 0.8)', 
-                          '0 0 0px rgba(239, 68, 68, 0.5)'
-                        ]
-                      }}
-                      transition={{ 
-                        duration: 2, 
-                        repeat: Infinity,
-                        repeatType: "reverse"
-                      }}
-                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-red-500 to-red-700 rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center"
-                    >
-                      <Target size={20} className="sm:w-6 sm:h-6 lg:w-8 lg:h-8 text-white" />
-                    </motion.div>
-                    <p className="text-xs lg:text-sm text-slate-400">攻擊者 (Proxmark3)</p>
-                  </div>
-
-                  {/* 攻擊流程動畫 */}
-                  <div className="flex-1 mx-4 lg:mx-8 relative h-12 lg:h-20 flex items-center">
-                    {/* 攻擊向量 */}
-                    <motion.div
-                      animate={{
-                        x: [0, 50, 0],
-                        opacity: [0.3, 1, 0.3],
-                      }}
-                      transition={{
-                        duration: 3,
-                        repeat: Infinity,
-                        ease: "easeInOut",
-                      }}
-                      className="absolute left-0 w-6 h-1 bg-gradient-to-r from-red-500 to-orange-500 rounded-full"
-                    />
-                    
-                    {/* 資料流 */}
-                    <div className="w-full text-center">
-                      <div className="mb-1 lg:mb-2">
-                        <motion.div
-                          animate={{
-                            opacity: [0.5, 1, 0.5],
-                          }}
-                          transition={{
-                            duration: 2,
-                            repeat: Infinity,
-                          }}
-                          className="text-orange-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded"
-                        >
-                          {nestedSteps[currentStep]?.attackerAction}
-                        </motion.div>
-                      </div>
-                      <div className="text-blue-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded">
-                        {nestedSteps[currentStep]?.cardResponse}
-                      </div>
-                    </div>
-
-                    {/* 反向數據流 */}
-                    <motion.div
-                      animate={{
-                        x: [0, -50, 0],
-                        opacity: [0.3, 1, 0.3],
-                      }}
-                      transition={{
-                        duration: 3,
-                        repeat: Infinity,
-                        ease: "easeInOut",
-                        delay: 1.5,
-                      }}
-                      className="absolute right-0 w-6 h-1 bg-gradient-to-l from-blue-500 to-cyan-500 rounded-full"
-                    />
-                  </div>
-
-                  {/* 目標卡片 */}
-                  <div className="text-center">
-                    <motion.div 
-                      animate={{
-                        boxShadow: currentStep >= 7 ? 
-                          ['0 0 0px rgba(239, 68, 68, 0.5)', '0 0 20px rgba(239, 68, 68, 0.8)', '0 0 0px rgba(239, 68, 68, 0.5)'] :
-                          ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
-                      }}
-                      transition={{ duration: 2, repeat: Infinity }}
-                      className={`w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b ${currentStep >= 7 ? 'from-red-500 to-red-700' : 'from-blue-500 to-blue-700'} rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center`}
-                    >
-                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
-                    </motion.div>
-                    <p className="text-xs lg:text-sm text-slate-400">Mifare 卡片</p>
-                  </div>
-                </div>
-
-                {/* 漏洞說明 */}
-                <motion.div
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="bg-red-900/20 border border-red-500/30 rounded-lg p-2 lg:p-4"
-                >
-                  <div className="flex items-center gap-1 lg:gap-2 mb-1 lg:mb-2">
-                    <Shield size={14} className="lg:w-4 lg:h-4 text-red-400" />
-                    <span className="text-red-400 font-semibold text-xs lg:text-sm">安全漏洞</span>
-                  </div>
-                  <p className="text-slate-300 text-xs lg:text-sm">
-                    {nestedSteps[currentStep]?.vulnerability}
-                  </p>
-                </motion.div>
-              </div>
-
-              {/* 攻擊原理說明 - 移到主要動畫區域下方 */}
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.3 }}
-                className="bg-slate-900/30 border border-red-500/20 rounded-lg p-3 sm:p-4 lg:p-6"
-              >
-                <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 text-orange-400 flex items-center gap-2">
-                  <Shield size={16} className="lg:w-5 lg:h-5" />
-                  攻擊原理
-                </h3>
-                <div className="text-xs sm:text-sm text-slate-300 leading-relaxed">
-                  <AnimatePresence mode="wait">
-                    <motion.div
-                      key={currentStep}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -20 }}
-                      transition={{ duration: 0.3 }}
-                    >
-                      {nestedSteps[currentStep]?.details}
-                    </motion.div>
-                  </AnimatePresence>
-                </div>
-              </motion.div>
-            </motion.div>
-
-            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
-            >
-              <div className="flex items-center justify-between">
-                <button
-                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
-                  disabled={currentStep === 0}
-                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
-                    currentStep === 0
-                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
-                      : "bg-red-600 hover:bg-red-700 text-white"
-                  }`}
-                >
-                  <ArrowLeft size={16} />
-                  上一步
-                </button>
-                
-                <div className="text-center px-4">
-                  <div className="text-sm font-medium text-white">
-                    步驟 {currentStep + 1} / {nestedSteps.length}
-                  </div>
-                  <div className="text-xs text-slate-400 mt-1">
-                    {nestedSteps[currentStep]?.title}
-                  </div>
-                </div>
-                
-                <button
-                  onClick={() => goToStep(Math.min(nestedSteps.length - 1, currentStep + 1))}
-                  disabled={currentStep === nestedSteps.length - 1}
-                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
-                    currentStep === nestedSteps.length - 1
-                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
-                      : "bg-red-600 hover:bg-red-700 text-white"
-                  }`}
-                >
-                  下一步
-                  <ArrowRight size={16} />
-                </button>
-              </div>
-            </motion.div>
-          </div>
-
-          {/* 側邊欄 - 只在大螢幕顯示 */}
-          <div className="hidden lg:block space-y-3 lg:space-y-6">
-            {/* 步驟導航 */}
-            <motion.div
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 max-h-[calc(100vh-12rem)] flex flex-col"
-            >
-              <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 flex items-center gap-2 flex-shrink-0">
-                <Shield size={16} className="lg:w-5 lg:h-5 text-red-400" />
-                攻擊步驟
-              </h3>
-              <div className="space-y-1 lg:space-y-2 overflow-y-auto flex-1 pr-2 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
-                {nestedSteps.map((step, index) => (
-                  <motion.button
-                    key={step.id}
-                    onClick={() => goToStep(index)}
-                    className={`w-full text-left p-2 lg:p-3 rounded-lg transition-all duration-300 touch-manipulation min-h-[44px] ${
-                      index === currentStep
-                        ? "bg-red-600/30 border border-red-500/50 text-white shadow-lg"
-                        : index < currentStep
-                        ? "bg-pink-900/30 text-pink-400"
-                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
-                    }`}
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                  >
-                    <div className="flex items-center gap-2 lg:gap-3">
-                      <div className={`w-5 h-5 lg:w-6 lg:h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                        index === currentStep
-                          ? "bg-red-500 text-white"
-                          : index < currentStep
-                          ? "bg-pink-500 text-white"
-                          : "bg-slate-600 text-slate-400"
-                      }`}>
-                        {index + 1}
-                      </div>
-                      <div>
-                        <p className="font-medium text-xs sm:text-sm">{step.title}</p>
-                        <p className="text-xs opacity-75">{step.phase}</p>
-                      </div>
-                    </div>
-                  </motion.button>
-                ))}
-              </div>
-            </motion.div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowLeft, ArrowRight, Play, Pause, RotateCcw, Shield, Target } from "lucide-react";
+import Link from "next/link";
+import { bruteForceHref } from "@/lib/bruteforce";
+import { keyToHex, toHex32 } from "@/lib/crypto1";
+import { KnownKey, NestedProgress, NestedTarget, runNestedAttack } from "@/lib/nested";
+import { blockToSector, createVirtualCard, SectorKeys } from "@/lib/virtualCard";
+
+interface NestedStep {
+  id: number;
+  title: string;
+  description: string;
+  phase: string;
+  attackerAction: string;
+  cardResponse: string;
+  vulnerability: string;
+  details: string;
+  searchHref?: string | null;   // 暴力搜尋步驟：帶入錄到的驗證，尚未錄到時為 null
+}
+
+// 模擬卡片：扇區 0 仍使用預設金鑰，其餘扇區各有不同的金鑰
+const NESTED_CARD_UID = 0xDEADBEEF;
+const NESTED_SECTOR_KEYS: SectorKeys[] = Array.from({ length: 16 }, (_, sector) => ({
+  keyA: sector === 0 ? 0xFFFFFFFFFFFF : 0x4A6F8E210000 + sector * 0x1111,
+  keyB: sector === 0 ? 0xFFFFFFFFFFFF : 0xB5C7D9E10000 + sector * 0x0101,
+}));
+const KNOWN_KEY: KnownKey = { block: 0, keyType: 'A', key: 0xFFFFFFFFFFFF };
+
+// 步驟中的數值取自實際執行的模擬結果，尚未執行時顯示提示
+const buildNestedSteps = (progress: NestedProgress | null, target: NestedTarget): NestedStep[] => {
+  const sample = progress?.samples[0];
+  const distances = progress?.distances || [];
+  const targetSector = blockToSector(target.block);
+  const pending = "（執行下方模擬以取得實際數值）";
+
+  return [
+    {
+      id: 1,
+      title: "檢測卡片類型",
+      description: "Proxmark3 檢測卡片並確認為 Mifare Classic",
+      phase: "初始化",
+      attackerAction: "hf 14a info",
+      cardResponse: `UID: ${toHex32(NESTED_CARD_UID)}, ATQA: 0004, SAK: 08 (1K)`,
+      vulnerability: "卡片身份公開可見",
+      details: "使用 Proxmark3 的 'hf 14a info' 命令檢測卡片類型。系統會顯示 ATQA (Answer To reQuest A) 和 SAK (Select AcKnowledge) 資訊，確認這是一張 Mifare Classic 1K 卡片，具有 16 個扇區。同時也會測試 PRNG：連續取得的 nT 若都是合法的 PRNG 輸出且距離可預測，即為弱 PRNG，可以使用 Nested Attack。",
+    },
+    {
+      id: 2,
+      title: "測試預設金鑰",
+      description: "嘗試使用常見的預設金鑰進行驗證",
+      phase: "金鑰探測",
+      attackerAction: "hf mf chk --1k",
+      cardResponse: `Found Key A: ${keyToHex(KNOWN_KEY.key)} (扇區 0)`,
+      vulnerability: "使用預設金鑰或弱金鑰",
+      details: "Proxmark3 的 'hf mf chk' 命令會測試常見的預設金鑰，如 FFFFFFFFFFFF、A0A1A2A3A4A5、D3F7D3F7D3F7 等。通常至少會找到一個可用的金鑰，這是 Nested Attack 的必要條件：攻擊者必須先能與卡片完成一次驗證。",
+    },
+    {
+      id: 3,
+      title: "量測 nonce 距離",
+      description: "對已知扇區做巢狀驗證，解密 nT 後計算兩個 nonce 在 PRNG 上的距離",
+      phase: "校準",
+      attackerAction: `hf mf nested --1k --blk ${KNOWN_KEY.block} -a -k ${keyToHex(KNOWN_KEY.key)}`,
+      cardResponse: distances.length > 0 ? `距離: ${Math.min(...distances)} ~ ${Math.max(...distances)}` : "Calibrating...",
+      vulnerability: "PRNG 只依時間推進，距離幾乎固定",
+      details: `以已知金鑰驗證後，在加密通道內再對同一個扇區驗證。因為知道金鑰，可以解密第二個 nT，並以 PRNG 序列位置計算兩次 nT 的距離。讀卡機時序固定時，距離只在很小的範圍內變動。${distances.length > 0 ? `本次量測：${distances.join('、')}。` : pending}`,
+    },
+    {
+      id: 4,
+      title: "收集加密 nT",
+      description: "對目標扇區做巢狀驗證，卡片以目標金鑰加密 nT",
+      phase: "數據採集",
+      attackerAction: `AUTH ${target.keyType} 區塊 ${target.block}（扇區 ${targetSector}）`,
+      cardResponse: sample ? `{nT}: ${toHex32(sample.nTEnc)}  同位: ${sample.parity.join('')}` : "Encrypted nT...",
+      vulnerability: "加密的 nT 與可預測的明文 nT XOR 即洩漏 keystream",
+      details: `巢狀驗證中，卡片以目標扇區的金鑰重新初始化 Crypto-1，移入 UID ⊕ nT 的同時產生 keystream 加密 nT。攻擊者收到 {nT} 與 4 個加密同位位元，前一次明文驗證的 nT₀ 也已知。${sample ? `本次 nT₀ = ${toHex32(sample.nT0)}，{nT} = ${toHex32(sample.nTEnc)}。` : pending}`,
+    },
+    {
+      id: 5,
+      title: "預測 nT 並檢查同位",
+      description: "以 nT₀ 加上量測距離預測 nT，用同位位元過濾",
+      phase: "密碼分析",
+      attackerAction: "nT = suc^d(nT₀)",
+      cardResponse: sample ? `預測 ${sample.predicted} 個，剩 ${sample.survivors.length} 個` : "Predicting nT...",
+      vulnerability: "同位位元以明文計算後才加密，洩漏 keystream 位元",
+      details: `每個預測的 nT 都對應一段 keystream ks = {nT} ⊕ nT。同位位元是由明文位元組計算，再與下一個 keystream 位元 XOR，因此前三個同位位元可用來檢查這段 keystream 是否自洽，平均只有 1/8 的錯誤預測能通過。${sample ? `通過檢查的 nT：${sample.survivors.map(toHex32).join('、')}。` : pending}`,
+    },
+    {
+      id: 6,
+      title: "計算金鑰候選",
+      description: "由 32 位元 keystream 還原 LFSR，再回捲 UID ⊕ nT 得到候選金鑰",
+      phase: "金鑰推導",
+      attackerAction: "lfsr_recovery32(ks, uid ^ nT)",
+      cardResponse: sample ? `候選金鑰: ${sample.keyCandidates.toLocaleString()} 個` : "Recovering...",
+      vulnerability: "32 位元 keystream 將金鑰空間縮減到約 2^16",
+      details: `產生這段 keystream 的同時，LFSR 移入的正是 UID ⊕ nT，而驗證開始時的 LFSR 就是金鑰。lfsr_recovery32 由 keystream 還原出約 2^16 個可能狀態，每個狀態回捲 32 位元即得一個候選金鑰。${sample ? `第一個樣本產生 ${sample.keyCandidates.toLocaleString()} 個候選。` : pending}`,
+    },
+    {
+      id: 7,
+      title: "交集與驗證",
+      description: "第二個樣本的候選金鑰與第一個取交集，再實際驗證",
+      phase: "驗證階段",
+      attackerAction: "intersect + hf mf rdbl",
+      cardResponse: progress?.key != null ? `Found Key ${target.keyType}: ${keyToHex(progress.key)}` : progress ? `剩餘候選: ${progress.candidateKeys}` : "Testing key candidates...",
+      vulnerability: "兩組約 2^16 的候選幾乎只在正確金鑰重疊",
+      details: `正確的金鑰一定同時出現在兩個樣本的候選中，錯誤候選重疊的機率極低。交集後通常只剩一把金鑰，再用它對卡片做一次真正的驗證確認。${progress ? `交集後剩 ${progress.candidateKeys} 個候選。` : pending}`,
+      searchHref: progress?.key != null && progress.trace ? bruteForceHref(progress.trace, progress.key) : null,
+    },
+    {
+      id: 8,
+      title: "輸出完整金鑰",
+      description: "對每個未知扇區重複同樣的流程",
+      phase: "結果輸出",
+      attackerAction: "hf mf nested --1k --dump",
+      cardResponse: progress?.key != null ? `扇區 ${targetSector} Key ${target.keyType}: ${keyToHex(progress.key)}` : "All keys found",
+      vulnerability: "整張卡片的安全性被完全破壞",
+      details: "攻擊完成後，Proxmark3 會對每個扇區的 Key A 和 Key B 重複同樣的流程。使用 '--dump' 參數可以將結果保存到檔案。此時攻擊者擁有卡片的完整控制權，可以讀寫任意扇區的數據。",
+    },
+  ];
+};
+
+const NESTED_STEP_COUNT = buildNestedSteps(null, { block: 16, keyType: 'A' }).length;
+
+const NestedSimulator = ({
+  target,
+  progress,
+  isRunning,
+  onTargetChange,
+  onRun
+}: {
+  target: NestedTarget;
+  progress: NestedProgress | null;
+  isRunning: boolean;
+  onTargetChange: (target: NestedTarget) => void;
+  onRun: () => void;
+}) => {
+  const targetSector = blockToSector(target.block);
+  const actualKey = target.keyType === 'A' ? NESTED_SECTOR_KEYS[targetSector].keyA : NESTED_SECTOR_KEYS[targetSector].keyB;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 mb-3 lg:mb-6"
+    >
+      <h3 className="text-base sm:text-lg font-bold mb-3 lg:mb-4 text-red-400 flex items-center gap-2">
+        <Target size={16} className="lg:w-5 lg:h-5" />
+        Nested Attack 模擬
+      </h3>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs mb-4">
+        <div>
+          <div className="text-slate-400 mb-1">已知金鑰</div>
+          <div className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 font-mono">
+            扇區 0 Key A {keyToHex(KNOWN_KEY.key)}
+          </div>
+        </div>
+        <label>
+          <div className="text-slate-400 mb-1">目標扇區</div>
+          <select
+            value={targetSector}
+            disabled={isRunning}
+            onChange={(e) => onTargetChange({ ...target, block: Number(e.target.value) * 4 })}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-white"
+          >
+            {NESTED_SECTOR_KEYS.map((_, sector) => sector > 0 && (
+              <option key={sector} value={sector}>扇區 {sector}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-1">
+          {(['A', 'B'] as const).map(type => (
+            <button
+              key={type}
+              disabled={isRunning}
+              onClick={() => onTargetChange({ ...target, keyType: type })}
+              className={`px-3 py-1.5 rounded font-mono transition-colors ${
+                target.keyType === type ? 'bg-red-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              Key {type}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning}
+          className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+            isRunning ? 'bg-slate-700/50 text-slate-500 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700 text-white'
+          }`}
+        >
+          {isRunning ? '攻擊中...' : '▶ 執行攻擊'}
+        </button>
+      </div>
+
+      {progress && (
+        <div className="space-y-3 text-xs">
+          <div className="bg-slate-900/50 rounded p-2 font-mono text-orange-300">
+            [{progress.phase}] {progress.message}
+          </div>
+
+          {/* nonce 距離量測 */}
+          <div>
+            <div className="text-slate-400 mb-1">nonce 距離量測（{progress.distances.length} 次）</div>
+            <div className="flex flex-wrap gap-1">
+              {progress.distances.map((distance, i) => (
+                <motion.span
+                  key={i}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className="px-2 py-0.5 bg-red-900/40 text-red-200 rounded font-mono"
+                >
+                  {distance}
+                </motion.span>
+              ))}
+            </div>
+          </div>
+
+          {/* 收集到的樣本 */}
+          {progress.samples.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full font-mono">
+                <thead>
+                  <tr className="text-slate-400 text-left border-b border-slate-700">
+                    <th className="py-1 pr-3">nT₀</th>
+                    <th className="py-1 pr-3">{'{nT}'}</th>
+                    <th className="py-1 pr-3">同位</th>
+                    <th className="py-1 pr-3">預測 → 通過</th>
+                    <th className="py-1">候選金鑰</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {progress.samples.map((sample, i) => (
+                    <tr key={i} className="border-b border-slate-800 text-slate-200">
+                      <td className="py-1 pr-3">{toHex32(sample.nT0)}</td>
+                      <td className="py-1 pr-3 text-yellow-300">{toHex32(sample.nTEnc)}</td>
+                      <td className="py-1 pr-3">{sample.parity.join('')}</td>
+                      <td className="py-1 pr-3">{sample.predicted} → {sample.survivors.length}</td>
+                      <td className="py-1">{sample.keyCandidates ? sample.keyCandidates.toLocaleString() : '...'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">目前候選金鑰</div>
+              <div className="font-mono text-white text-sm">{progress.candidateKeys.toLocaleString()}</div>
+            </div>
+            <div className="bg-slate-900/50 rounded p-2">
+              <div className="text-slate-400">還原結果</div>
+              <div className={`font-mono text-sm ${progress.key !== null ? 'text-green-300' : 'text-slate-500'}`}>
+                {progress.key !== null ? `${keyToHex(progress.key)} ${progress.key === actualKey ? '✓' : ''}` : '—'}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default function NestedAttackPage() {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [target, setTarget] = useState<NestedTarget>({ block: 16, keyType: 'A' });
+  const [progress, setProgress] = useState<NestedProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const nestedSteps = useMemo(() => buildNestedSteps(progress, target), [progress, target]);
+  const searchHref = nestedSteps[currentStep]?.searchHref;
+
+  const runAttack = async () => {
+    setIsRunning(true);
+    setProgress(null);
+    const card = createVirtualCard(NESTED_CARD_UID, NESTED_SECTOR_KEYS);
+    await runNestedAttack(card, KNOWN_KEY, target, setProgress);
+    setIsRunning(false);
+  };
+
+  const changeTarget = (next: NestedTarget) => {
+    setTarget(next);
+    setProgress(null);
+  };
+
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if (isPlaying) {
+      interval = setInterval(() => {
+        setCurrentStep((prev) => {
+          if (prev >= NESTED_STEP_COUNT - 1) {
+            return 0;
+          }
+          return prev + 1;
+        });
+      }, 4000);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, currentStep]);
+
+  const resetAnimation = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlayPause = () => {
+    setIsPlaying(!isPlaying);
+  };
+
+  const goToStep = (stepIndex: number) => {
+    setCurrentStep(stepIndex);
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-6xl pb-20 lg:pb-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-6 sm:mb-8 flex-col sm:flex-row gap-4 sm:gap-0"
+        >
+          <div className="flex items-center gap-3 sm:gap-4 w-full sm:w-auto">
+            <motion.div
+              whileHover={{ scale: 1.1 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Link href="/" className="text-red-400 hover:text-red-300 transition-colors flex-shrink-0">
+                <ArrowLeft size={20} className="sm:w-6 sm:h-6" />
+              </Link>
+            </motion.div>
+            <h1 className="text-3xl sm:text-4xl lg:text-4xl font-bold bg-gradient-to-r from-red-400 to-orange-400 bg-clip-text text-transparent">
+              Nested Attack
+            </h1>
+          </div>
+          
+          <div className="flex items-center gap-2 w-full sm:w-auto justify-center sm:justify-end">
+            <motion.button
+              onClick={togglePlayPause}
+              className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {isPlaying ? <Pause size={16} className="sm:w-5 sm:h-5" /> : <Play size={16} className="sm:w-5 sm:h-5" />}
+              {isPlaying ? "暫停" : "播放"}
+            </motion.button>
+            <motion.button
+              onClick={resetAnimation}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors shadow-lg text-base sm:text-lg lg:text-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <RotateCcw size={20} />
+              重置
+            </motion.button>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 lg:gap-8">
+          {/* 主要動畫區域 */}
+          <div className="lg:col-span-2">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6"
+            >
+              {/* 當前步驟標題 */}
+              <div className="text-center mb-4 lg:mb-8">
+                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1 lg:mb-2">
+                  步驟 {currentStep + 1}: {nestedSteps[currentStep]?.title}
+                </h3>
+                <p className="text-slate-300 mb-2 lg:mb-4 text-sm lg:text-base">
+                  {nestedSteps[currentStep]?.description}
+                </p>
+                <div className="inline-flex items-center gap-1 lg:gap-2 px-2 lg:px-3 py-1 bg-red-600/20 border border-red-500/30 rounded-full text-red-400 text-xs lg:text-sm">
+                  <Shield size={12} className="lg:w-4 lg:h-4" />
+                  {nestedSteps[currentStep]?.phase}
+                </div>
+              </div>
+
+              {/* 攻擊動畫區域 */}
+              <div className="bg-slate-900/50 border border-slate-600/30 rounded-lg p-3 sm:p-4 lg:p-8 mb-3 lg:mb-6">
+                <div className="flex items-center justify-between mb-4 lg:mb-8">
+                  {/* 攻擊者 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        scale: [1, 1.1, 1],
+                        boxShadow: [
+                          '0 0 0px rgba(239, 68, 68, 0.5)', 
+                          '0 0 20px rgba(239, 68, 68, 0.8)', 
+                          '0 0 0px rgba(239, 68, 68, 0.5)'
+                        ]
+                      }}
+                      transition={{ 
+                        duration: 2, 
+                        repeat: Infinity,
+                        repeatType: "reverse"
+                      }}
+                      className="w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b from-red-500 to-red-700 rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center"
+                    >
+                      <Target size={20} className="sm:w-6 sm:h-6 lg:w-8 lg:h-8 text-white" />
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">攻擊者 (Proxmark3)</p>
+                  </div>
+
+                  {/* 攻擊流程動畫 */}
+                  <div className="flex-1 mx-4 lg:mx-8 relative h-12 lg:h-20 flex items-center">
+                    {/* 攻擊向量 */}
+                    <motion.div
+                      animate={{
+                        x: [0, 50, 0],
+                        opacity: [0.3, 1, 0.3],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                      }}
+                      className="absolute left-0 w-6 h-1 bg-gradient-to-r from-red-500 to-orange-500 rounded-full"
+                    />
+                    
+                    {/* 資料流 */}
+                    <div className="w-full text-center">
+                      <div className="mb-1 lg:mb-2">
+                        <motion.div
+                          animate={{
+                            opacity: [0.5, 1, 0.5],
+                          }}
+                          transition={{
+                            duration: 2,
+                            repeat: Infinity,
+                          }}
+                          className="text-orange-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded"
+                        >
+                          {nestedSteps[currentStep]?.attackerAction}
+                        </motion.div>
+                      </div>
+                      <div className="text-blue-400 text-xs font-mono bg-slate-800/70 px-1 lg:px-2 py-1 rounded">
+                        {nestedSteps[currentStep]?.cardResponse}
+                      </div>
+                    </div>
+
+                    {/* 反向數據流 */}
+                    <motion.div
+                      animate={{
+                        x: [0, -50, 0],
+                        opacity: [0.3, 1, 0.3],
+                      }}
+                      transition={{
+                        duration: 3,
+                        repeat: Infinity,
+                        ease: "easeInOut",
+                        delay: 1.5,
+                      }}
+                      className="absolute right-0 w-6 h-1 bg-gradient-to-l from-blue-500 to-cyan-500 rounded-full"
+                    />
+                  </div>
+
+                  {/* 目標卡片 */}
+                  <div className="text-center">
+                    <motion.div 
+                      animate={{
+                        boxShadow: currentStep >= 7 ? 
+                          ['0 0 0px rgba(239, 68, 68, 0.5)', '0 0 20px rgba(239, 68, 68, 0.8)', '0 0 0px rgba(239, 68, 68, 0.5)'] :
+                          ['0 0 0px rgba(59, 130, 246, 0.5)', '0 0 10px rgba(59, 130, 246, 0.6)', '0 0 0px rgba(59, 130, 246, 0.5)']
+                      }}
+                      transition={{ duration: 2, repeat: Infinity }}
+                      className={`w-16 h-20 sm:w-20 sm:h-24 lg:w-24 lg:h-32 bg-gradient-to-b ${currentStep >= 7 ? 'from-red-500 to-red-700' : 'from-blue-500 to-blue-700'} rounded-lg mb-2 lg:mb-4 mx-auto shadow-lg flex items-center justify-center`}
+                    >
+                      <span className="text-white text-lg sm:text-xl lg:text-2xl">💳</span>
+                    </motion.div>
+                    <p className="text-xs lg:text-sm text-slate-400">Mifare 卡片</p>
+                  </div>
+                </div>
+
+                {/* 漏洞說明 */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-red-900/20 border border-red-500/30 rounded-lg p-2 lg:p-4"
+                >
+                  <div className="flex items-center gap-1 lg:gap-2 mb-1 lg:mb-2">
+                    <Shield size={14} className="lg:w-4 lg:h-4 text-red-400" />
+                    <span className="text-red-400 font-semibold text-xs lg:text-sm">安全漏洞</span>
+                  </div>
+                  <p className="text-slate-300 text-xs lg:text-sm">
+                    {nestedSteps[currentStep]?.vulnerability}
+                  </p>
+                </motion.div>
+              </div>
+
+              {/* 攻擊原理說明 - 移到主要動畫區域下方 */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-slate-900/30 border border-red-500/20 rounded-lg p-3 sm:p-4 lg:p-6"
+              >
+                <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 text-orange-400 flex items-center gap-2">
+                  <Shield size={16} className="lg:w-5 lg:h-5" />
+                  攻擊原理
+                </h3>
+                <div className="text-xs sm:text-sm text-slate-300 leading-relaxed">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={currentStep}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      {nestedSteps[currentStep]?.details}
+                      {searchHref !== undefined && (
+                        searchHref ? (
+                          <Link href={searchHref} className="inline-block mt-3 text-orange-300 hover:text-orange-200 underline">
+                            以這次錄到的驗證在 Web Worker 中實際跑暴力搜尋 →
+                          </Link>
+                        ) : (
+                          <div className="mt-3 text-slate-500">執行下方模擬錄到目標扇區的驗證後，可帶到暴力搜尋頁實際搜尋</div>
+                        )
+                      )}
+                    </motion.div>
+                  </AnimatePresence>
+                </div>
+              </motion.div>
+            </motion.div>
+
+            {/* 實際攻擊模擬 */}
+            <NestedSimulator
+              target={target}
+              progress={progress}
+              isRunning={isRunning}
+              onTargetChange={changeTarget}
+              onRun={runAttack}
+            />
+
+            {/* 手機版步驟導航按鈕 - 固定在螢幕底部 */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-900/95 backdrop-blur-sm border-t border-slate-700 p-4 z-50"
+            >
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => goToStep(Math.max(0, currentStep - 1))}
+                  disabled={currentStep === 0}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === 0
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-red-600 hover:bg-red-700 text-white"
+                  }`}
+                >
+                  <ArrowLeft size={16} />
+                  上一步
+                </button>
+                
+                <div className="text-center px-4">
+                  <div className="text-sm font-medium text-white">
+                    步驟 {currentStep + 1} / {nestedSteps.length}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {nestedSteps[currentStep]?.title}
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => goToStep(Math.min(nestedSteps.length - 1, currentStep + 1))}
+                  disabled={currentStep === nestedSteps.length - 1}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors min-h-[44px] ${
+                    currentStep === nestedSteps.length - 1
+                      ? "bg-slate-700/50 text-slate-500 cursor-not-allowed"
+                      : "bg-red-600 hover:bg-red-700 text-white"
+                  }`}
+                >
+                  下一步
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* 側邊欄 - 只在大螢幕顯示 */}
+          <div className="hidden lg:block space-y-3 lg:space-y-6">
+            {/* 步驟導航 */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-lg lg:rounded-2xl p-3 sm:p-4 lg:p-6 max-h-[calc(100vh-12rem)] flex flex-col"
+            >
+              <h3 className="text-base sm:text-lg font-bold mb-2 lg:mb-4 flex items-center gap-2 flex-shrink-0">
+                <Shield size={16} className="lg:w-5 lg:h-5 text-red-400" />
+                攻擊步驟
+              </h3>
+              <div className="space-y-1 lg:space-y-2 overflow-y-auto flex-1 pr-2 scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600">
+                {nestedSteps.map((step, index) => (
+                  <motion.button
+                    key={step.id}
+                    onClick={() => goToStep(index)}
+                    className={`w-full text-left p-2 lg:p-3 rounded-lg transition-all duration-300 touch-manipulation min-h-[44px] ${
+                      index === currentStep
+                        ? "bg-red-600/30 border border-red-500/50 text-white shadow-lg"
+                        : index < currentStep
+                        ? "bg-pink-900/30 text-pink-400"
+                        : "bg-slate-700/30 hover:bg-slate-700/50 text-slate-300 hover:text-white"
+                    }`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <div className="flex items-center gap-2 lg:gap-3">
+                      <div className={`w-5 h-5 lg:w-6 lg:h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                        index === currentStep
+                          ? "bg-red-500 text-white"
+                          : index < currentStep
+                          ? "bg-pink-500 text-white"
+                          : "bg-slate-600 text-slate-400"
+                      }`}>
+                        {index + 1}
+                      </div>
+                      <div>
+                        <p className="font-medium text-xs sm:text-sm">{step.title}</p>
+                        <p className="text-xs opacity-75">{step.phase}</p>
+                      </div>
+                    </div>
+                  </motion.button>
+                ))}
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
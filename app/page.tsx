@@ -1,7 +1,7 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { ArrowRight, BookOpen, Folder, Lock, Wifi, HardDrive, CheckCircle, Shield, Target } from "lucide-react";
+import { ArrowRight, BookOpen, Folder, Lock, Wifi, HardDrive, CheckCircle, Shield, Target, Radio, Search, ShieldAlert, KeyRound, Cpu } from "lucide-react";
 import Link from "next/link";
 
 export default function HomePage() {
@@ -54,7 +54,57 @@ export default function HomePage() {
       color: "from-orange-500 to-orange-700",
       type: "attack",
       status: "available",
-      features: ["錯誤注入", "Parity 分析", "金鑰位恢復", "快速破解"],
+      features: ["同位位元猜測", "加密 NACK", "金鑰位恢復", "快速破解"],
+    },
+    {
+      title: "Hardnested Attack",
+      description: "針對強化 PRNG 卡片的統計式金鑰恢復",
+      icon: ShieldAlert,
+      href: "/hardnested",
+      color: "from-fuchsia-500 to-fuchsia-700",
+      type: "attack",
+      status: "available",
+      features: ["強化 PRNG", "Sum property", "Bitflip 性質", "金鑰空間縮減"],
+    },
+    {
+      title: "Backdoor Attack",
+      description: "靜態加密 nonce 卡片的後門金鑰攻擊",
+      icon: KeyRound,
+      href: "/backdoor",
+      color: "from-indigo-500 to-indigo-700",
+      type: "attack",
+      status: "available",
+      features: ["靜態加密 nonce", "後門金鑰", "明文 nT", "字典驗證"],
+    },
+    {
+      title: "Reader Attack",
+      description: "模擬卡片收集讀卡機驗證資料還原金鑰",
+      icon: Radio,
+      href: "/mfkey32",
+      color: "from-amber-500 to-amber-700",
+      type: "attack",
+      status: "available",
+      features: ["卡片模擬", "mfkey32v2", "LFSR 回捲", "金鑰還原"],
+    },
+    {
+      title: "Sniff Attack",
+      description: "由單次嗅探到的驗證回捲出扇區金鑰",
+      icon: Search,
+      href: "/mfkey64",
+      color: "from-teal-500 to-teal-700",
+      type: "attack",
+      status: "available",
+      features: ["mfkey64", "ks2 / ks3", "逐位元回捲", "nR 解密"],
+    },
+    {
+      title: "Brute Force",
+      description: "以 Web Worker 平行搜尋金鑰空間",
+      icon: Cpu,
+      href: "/bruteforce",
+      color: "from-sky-500 to-sky-700",
+      type: "attack",
+      status: "available",
+      features: ["驗證重播", "平行搜尋", "速度量測", "2^16 / 2^32 / 2^48"],
     },
   ];
 
@@ -164,12 +214,12 @@ export default function HomePage() {
             >
               <div className="flex justify-between items-center text-xs sm:text-sm text-slate-400 flex-col sm:flex-row gap-3 sm:gap-0">
                 <div className="flex gap-6 flex-wrap justify-center sm:justify-start">
-                  <span>5 個展示模組</span>
+                  <span>{sections.length} 個展示模組</span>
                   <span>類型: 互動視覺化</span>
                 </div>
                 <div className="flex gap-4 flex-wrap justify-center sm:justify-end">
                   <span>13.56 MHz</span>
-                  <span>1024 bytes</span>
+                  <span>320 – 4096 bytes</span>
                   <span>Crypto-1</span>
                 </div>
               </div>
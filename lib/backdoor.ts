@@ -0,0 +1,165 @@
+import { crypto1Create, crypto1GetLfsr, crypto1Word, filter, lfsrRollbackWord } from './crypto1';
+import { oddParity8 } from './iso14443a';
+import { KnownKey, nestedParityMatches, NestedTarget } from './nested';
+import { nonceDistance } from './prng';
+import { lfsrRecovery32 } from './recovery';
+import { backdoorAuthenticate, nestedAuthChallenge, nestedBackdoorChallenge, readerAuthenticate, resetCard, VirtualCard } from './virtualCard';
+
+// 靜態加密 nonce（FM11RF08S 等）：巢狀驗證的 nT 每次都相同，nested 與 hardnested 都無從下手
+// 但卡片同時存在後門金鑰：以後門指令做巢狀驗證可解出同一個 nT，再與一般巢狀驗證的 {nT} XOR 得到 keystream
+
+export interface BackdoorKeyInfo {
+  key: number;
+  chip: string;
+}
+
+// 已公開的廠商後門金鑰
+export const BACKDOOR_KEYS: BackdoorKeyInfo[] = [
+  { key: 0xA396EFA4E24F, chip: 'FM11RF08S' },
+  { key: 0xA31667A8CEC1, chip: 'FM11RF08 / FM11RF32N' },
+];
+
+export type BackdoorPhase = 'static' | 'detect' | 'decrypt' | 'nested' | 'recover' | 'check' | 'done';
+
+export interface BackdoorProgress {
+  phase: BackdoorPhase;
+  message: string;
+  staticSamples: number[];        // 以已知金鑰重複巢狀驗證目標扇區收到的 {nT}
+  knownDistances: number[];       // 已知扇區巢狀驗證的 nT 與前一個 nT 的距離
+  backdoor: BackdoorKeyInfo | null;
+  nT: number | null;              // 後門巢狀驗證解出的明文 nT
+  nTEnc: number | null;           // 一般巢狀驗證收到的 {nT}
+  parity: number[];
+  recovered: number;              // lfsr_recovery32 的候選數
+  candidates: number[];           // 通過第 4 個同位位元的候選金鑰
+  tried: number;                  // 字典驗證已嘗試的金鑰數
+  key: number | null;
+}
+
+// 知道金鑰時解密巢狀驗證的 nT：密文回饋，LFSR 實際移入的是 UID ⊕ nT
+const decryptNestedNonce = (uid: number, key: number, nTEnc: number): number => {
+  const state = crypto1Create(key);
+  return (crypto1Word(state, (uid ^ nTEnc) >>> 0, true) ^ nTEnc) >>> 0;
+};
+
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const STATIC_ROUNDS = 6;
+const REPORT_INTERVAL = 2048;
+
+// 執行靜態加密 nonce 卡片的後門攻擊，每個階段透過 onProgress 回報實際數據
+export const runBackdoorAttack = async (
+  card: VirtualCard,
+  known: KnownKey,
+  target: NestedTarget,
+  onProgress: (progress: BackdoorProgress) => void
+): Promise<number | null> => {
+  const progress: BackdoorProgress = {
+    phase: 'static',
+    message: '',
+    staticSamples: [],
+    knownDistances: [],
+    backdoor: null,
+    nT: null,
+    nTEnc: null,
+    parity: [],
+    recovered: 0,
+    candidates: [],
+    tried: 0,
+    key: null,
+  };
+  const report = async (phase: BackdoorPhase, message: string) => {
+    progress.phase = phase;
+    progress.message = message;
+    onProgress({
+      ...progress,
+      staticSamples: [...progress.staticSamples],
+      knownDistances: [...progress.knownDistances],
+      candidates: [...progress.candidates],
+    });
+    await nextFrame();
+  };
+
+  // 步驟一：照 nested 的做法收集樣本——已知扇區的距離沒有規律，目標扇區的 {nT} 則完全相同
+  for (let i = 0; i < STATIC_ROUNDS; i++) {
+    resetCard(card);
+    const auth = readerAuthenticate(card, known.block, known.keyType, known.key);
+    const self = nestedAuthChallenge(card, known.block, known.keyType);
+    if (!auth.success || !self) {
+      await report('done', '已知金鑰驗證失敗');
+      return null;
+    }
+    progress.knownDistances.push(nonceDistance(auth.nT, decryptNestedNonce(card.uid, known.key, self.nTEnc)));
+
+    resetCard(card);
+    readerAuthenticate(card, known.block, known.keyType, known.key);
+    const challenge = nestedAuthChallenge(card, target.block, target.keyType);
+    if (!challenge) return null;
+    progress.staticSamples.push(challenge.nTEnc);
+    await report('static', `巢狀驗證 ${i + 1}/${STATIC_ROUNDS}：{nT} = ${challenge.nTEnc.toString(16).toUpperCase().padStart(8, '0')}`);
+  }
+
+  // 步驟二：逐一嘗試已公開的後門金鑰
+  for (const candidate of BACKDOOR_KEYS) {
+    resetCard(card);
+    if (backdoorAuthenticate(card, target.block, candidate.key)?.success) {
+      progress.backdoor = candidate;
+      break;
+    }
+  }
+  if (!progress.backdoor) {
+    await report('done', '卡片不接受任何已知的後門金鑰');
+    return null;
+  }
+  await report('detect', `後門金鑰驗證成功：${progress.backdoor.chip}`);
+
+  // 步驟三：後門驗證後，以後門指令對目標做巢狀驗證並解出明文 nT
+  const backdoorChallenge = nestedBackdoorChallenge(card, target.block, target.keyType);
+  if (!backdoorChallenge) return null;
+  progress.nT = decryptNestedNonce(card.uid, progress.backdoor.key, backdoorChallenge.nTEnc);
+  await report('decrypt', `以後門金鑰解出 nT = ${progress.nT.toString(16).toUpperCase().padStart(8, '0')}`);
+
+  // 步驟四：一般巢狀驗證取得以真實金鑰加密的同一個 nT
+  resetCard(card);
+  backdoorAuthenticate(card, target.block, progress.backdoor.key);
+  const challenge = nestedAuthChallenge(card, target.block, target.keyType);
+  if (!challenge) return null;
+  progress.nTEnc = challenge.nTEnc;
+  progress.parity = challenge.parity;
+  const nT = progress.nT;
+  if (!nestedParityMatches(nT, challenge.nTEnc, challenge.parity)) {
+    await report('done', '同位位元不符：兩次巢狀驗證的 nT 不同');
+    return null;
+  }
+  await report('nested', `ks = {nT} ⊕ nT = ${((challenge.nTEnc ^ nT) >>> 0).toString(16).toUpperCase().padStart(8, '0')}`);
+
+  // 步驟五：還原 LFSR，以第 4 個同位位元（nR 階段的第一個 keystream 位元）過濾後回捲出候選金鑰
+  const uidXorNt = (card.uid ^ nT) >>> 0;
+  const states = lfsrRecovery32((challenge.nTEnc ^ nT) >>> 0, uidXorNt);
+  progress.recovered = states.length;
+  const keys = new Set<number>();
+  for (const state of states) {
+    if ((oddParity8(nT & 0xFF) ^ filter(state.odd)) !== challenge.parity[3]) continue;
+    lfsrRollbackWord(state, uidXorNt, false);
+    keys.add(crypto1GetLfsr(state));
+  }
+  progress.candidates = Array.from(keys);
+  await report('recover', `${states.length} 個狀態，同位過濾後剩 ${progress.candidates.length} 把候選金鑰`);
+
+  // 步驟六：候選金鑰做為字典逐一驗證
+  for (const key of progress.candidates) {
+    resetCard(card);
+    progress.tried++;
+    if (readerAuthenticate(card, target.block, target.keyType, key).success) {
+      progress.key = key;
+      await report('done', `第 ${progress.tried} 把候選金鑰驗證成功`);
+      return key;
+    }
+    if (progress.tried % REPORT_INTERVAL === 0) {
+      await report('check', `已驗證 ${progress.tried.toLocaleString()} / ${progress.candidates.length.toLocaleString()} 把候選金鑰`);
+    }
+  }
+
+  await report('done', '字典中沒有正確的金鑰');
+  return null;
+};
@@ -0,0 +1,243 @@
+import { beBit, crypto1Create, crypto1Word, keyToHex, toHex32 } from './crypto1';
+import { BITSLICE_LANES, bitslicedBit, bitslicedCreateRange } from './crypto1Bitsliced';
+import { prngSuccessor } from './prng';
+
+// 暴力搜尋：對一筆錄下的驗證（UID、nT、{nR}、{aR}）逐一重播候選金鑰，{aR} 吻合即為正確金鑰
+// 搜尋範圍切成小段分給多個 Web Worker，主執行緒只負責分派、彙整進度與取消
+
+// 線上錄到的一次完整驗證
+export interface AuthTrace {
+  uid: number;
+  nT: number;
+  nREnc: number;
+  aREnc: number;
+  aTEnc: number;
+}
+
+// 正確金鑰在 aR、aT 階段產生的 keystream：{aR} ⊕ suc2(nT)、{aT} ⊕ suc3(nT)
+export interface TraceKeystream {
+  ks2: number;
+  ks3: number;
+}
+
+export const traceKeystream = (trace: AuthTrace): TraceKeystream => ({
+  ks2: (trace.aREnc ^ prngSuccessor(trace.nT, 64)) >>> 0,
+  ks3: (trace.aTEnc ^ prngSuccessor(trace.nT, 96)) >>> 0,
+});
+
+// 只比對 ks2 時 2^48 把金鑰中約有 2^16 把會誤中，再比對 ks3 即可排除
+export const keyMatchesTrace = (trace: AuthTrace, expected: TraceKeystream, key: number): boolean => {
+  const state = crypto1Create(key);
+  crypto1Word(state, (trace.uid ^ trace.nT) >>> 0, false);
+  crypto1Word(state, trace.nREnc, true);
+  if (crypto1Word(state, 0, false) !== expected.ks2) return false;
+  return crypto1Word(state, 0, false) === expected.ks3;
+};
+
+// 攻擊頁把錄到的驗證與還原出的金鑰帶到暴力搜尋頁（?uid=&nt=&nr=&ar=&at=&key=）
+export const bruteForceHref = (trace: AuthTrace, key: number): string => `/bruteforce?${new URLSearchParams({
+  uid: toHex32(trace.uid),
+  nt: toHex32(trace.nT),
+  nr: toHex32(trace.nREnc),
+  ar: toHex32(trace.aREnc),
+  at: toHex32(trace.aTEnc),
+  key: keyToHex(key),
+}).toString()}`;
+
+// 參考實作逐把檢查；bitsliced 版本一次推進 32 把，keystream 位元一出現不符就淘汰該 lane
+export type SearchEngine = 'reference' | 'bitsliced';
+
+// 檢查 base … base + 31 中 mask 標記的金鑰，回傳吻合的 lane
+const referenceMatches = (trace: AuthTrace, expected: TraceKeystream, base: number, mask: number): number => {
+  let matches = 0;
+  for (let lane = 0; lane < BITSLICE_LANES; lane++) {
+    if ((mask >>> lane) & 1 && keyMatchesTrace(trace, expected, base + lane)) matches |= 1 << lane;
+  }
+  return matches;
+};
+
+const bitslicedMatches = (trace: AuthTrace, expected: TraceKeystream, base: number, mask: number): number => {
+  const state = bitslicedCreateRange(base);
+  const uidXorNt = (trace.uid ^ trace.nT) >>> 0;
+  for (let i = 0; i < 32; i++) bitslicedBit(state, beBit(uidXorNt, i), false);
+  for (let i = 0; i < 32; i++) bitslicedBit(state, beBit(trace.nREnc, i), true);
+  let alive = mask;
+  for (let i = 0; i < 64 && alive; i++) {
+    const ks = bitslicedBit(state, 0, false);
+    alive &= beBit(i < 32 ? expected.ks2 : expected.ks3, i & 31) ? ks : ~ks;
+  }
+  return alive;
+};
+
+export interface SearchResult {
+  checked: number;
+  key: number | null;
+}
+
+export const PROGRESS_INTERVAL = 1 << 13;
+
+// 檢查 [start, start + count) 範圍內的金鑰，每 PROGRESS_INTERVAL 把回報一次已檢查數量
+export const searchRange = (
+  trace: AuthTrace,
+  start: number,
+  count: number,
+  engine: SearchEngine,
+  onProgress?: (checked: number) => void
+): SearchResult => {
+  const expected = traceKeystream(trace);
+  const matchBatch = engine === 'bitsliced' ? bitslicedMatches : referenceMatches;
+  let offset = 0;
+  let reported = 0;
+  while (offset < count) {
+    // 以 32 對齊分批，範圍頭尾不滿 32 把時以 mask 排除範圍外的 lane
+    const key = start + offset;
+    const base = key - key % BITSLICE_LANES;
+    const first = key - base;
+    const size = Math.min(BITSLICE_LANES - first, count - offset);
+    const mask = (size === BITSLICE_LANES ? -1 : ((1 << size) - 1) << first) | 0;
+    const matches = matchBatch(trace, expected, base, mask);
+    if (matches) {
+      const lane = 31 - Math.clz32(matches & -matches);
+      return { checked: base + lane - start + 1, key: base + lane };
+    }
+    offset += size;
+    if (onProgress && offset - reported >= PROGRESS_INTERVAL) {
+      reported = offset;
+      onProgress(offset);
+    }
+  }
+  return { checked: count, key: null };
+};
+
+// 單執行緒量測：在指定時間內能檢查多少把金鑰
+export const benchmarkKeysPerSecond = (trace: AuthTrace, engine: SearchEngine, durationMs: number = 300): number => {
+  const begin = performance.now();
+  let checked = 0;
+  while (performance.now() - begin < durationMs) {
+    checked += searchRange(trace, checked, 1 << 12, engine).checked;
+  }
+  return checked / ((performance.now() - begin) / 1000);
+};
+
+// 主執行緒與 Worker 之間的訊息
+export interface SearchRequest {
+  trace: AuthTrace;
+  start: number;
+  count: number;
+  engine: SearchEngine;
+}
+
+export type SearchMessage =
+  | { type: 'progress'; checked: number }
+  | { type: 'done'; checked: number; key: number | null };
+
+export interface BruteForceProgress {
+  checked: number;
+  total: number;
+  keysPerSecond: number;
+  elapsed: number;            // 秒
+  eta: number;                // 搜完剩餘空間所需秒數
+  key: number | null;
+  status: 'running' | 'found' | 'exhausted' | 'cancelled' | 'error';
+  error: string | null;        // status 為 'error' 時的原因
+}
+
+const CHUNK_SIZE = 1 << 18;
+const REPORT_INTERVAL_MS = 100;
+
+// 把 [start, start + total) 切成固定大小的區段，Worker 做完一段就領下一段
+export const startBruteForce = (
+  trace: AuthTrace,
+  start: number,
+  total: number,
+  engine: SearchEngine,
+  workerCount: number,
+  createWorker: () => Worker,
+  onProgress: (progress: BruteForceProgress) => void
+): { cancel: () => void } => {
+  const begin = performance.now();
+  const workers: Worker[] = [];
+  const inFlight = new Map<Worker, number>();     // 每個 Worker 目前區段已回報的數量
+  let nextOffset = 0;
+  let completed = 0;
+  let finished = false;
+  let key: number | null = null;
+  let error: string | null = null;
+  let lastReport = 0;
+
+  const report = (status: BruteForceProgress['status']) => {
+    const checked = completed + Array.from(inFlight.values()).reduce((sum, n) => sum + n, 0);
+    const elapsed = (performance.now() - begin) / 1000;
+    const keysPerSecond = elapsed > 0 ? checked / elapsed : 0;
+    onProgress({
+      checked,
+      total,
+      keysPerSecond,
+      elapsed,
+      eta: keysPerSecond > 0 ? (total - checked) / keysPerSecond : Infinity,
+      key,
+      status,
+      error,
+    });
+  };
+
+  const stop = (status: BruteForceProgress['status']) => {
+    if (finished) return;
+    finished = true;
+    workers.forEach(worker => worker.terminate());
+    report(status);
+  };
+
+  const fail = (message: string) => {
+    if (finished) return;
+    error = message;
+    stop('error');
+  };
+
+  const dispatch = (worker: Worker) => {
+    if (nextOffset >= total) {
+      inFlight.delete(worker);
+      if (inFlight.size === 0) stop('exhausted');
+      return;
+    }
+    const count = Math.min(CHUNK_SIZE, total - nextOffset);
+    const request: SearchRequest = { trace, start: start + nextOffset, count, engine };
+    nextOffset += count;
+    inFlight.set(worker, 0);
+    worker.postMessage(request);
+  };
+
+  for (let i = 0; i < workerCount; i++) {
+    const worker = createWorker();
+    worker.onmessage = (event: MessageEvent<SearchMessage>) => {
+      if (finished) return;
+      const message = event.data;
+      if (message.type === 'progress') {
+        inFlight.set(worker, message.checked);
+        if (performance.now() - lastReport >= REPORT_INTERVAL_MS) {
+          lastReport = performance.now();
+          report('running');
+        }
+        return;
+      }
+      completed += message.checked;
+      inFlight.set(worker, 0);
+      if (message.key !== null) {
+        key = message.key;
+        stop('found');
+        return;
+      }
+      dispatch(worker);
+    };
+    // Worker 載入或執行失敗、訊息無法反序列化時整個搜尋都不可信，全部停止
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(event.message || 'Worker 執行失敗');
+    };
+    worker.onmessageerror = () => fail('Worker 訊息無法解析');
+    workers.push(worker);
+  }
+  workers.forEach(dispatch);
+
+  return { cancel: () => stop('cancelled') };
+};
@@ -0,0 +1,11 @@
+import { searchRange, SearchMessage, SearchRequest } from './bruteforce';
+
+// 暴力搜尋 Worker：每收到一個區段就逐一檢查，定期回報已檢查的數量
+
+const post = (message: SearchMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const { trace, start, count, engine } = event.data;
+  const result = searchRange(trace, start, count, engine, checked => post({ type: 'progress', checked }));
+  post({ type: 'done', ...result });
+};
@@ -0,0 +1,126 @@
+// MIFARE Classic 的記憶體配置：前 32 個扇區每個 4 個區塊，之後（4K）每個 16 個區塊
+// 存取位元永遠只有 4 組 C1C2C3：小扇區一組對應一個區塊，大扇區的區塊 0–4、5–9、10–14 各共用一組，區塊 15 是尾塊
+
+export type CardType = 'mini' | '1k' | '2k' | '4k';
+
+// 卡型決定扇區數與出廠的 SAK / ATQA；讀卡機在選卡時依 SAK 判斷卡型
+export interface CardModel {
+  type: CardType;
+  name: string;
+  sectors: number;
+  blocks: number;
+  sak: number;
+  atqa: number;
+}
+
+export const CARD_MODELS: Record<CardType, CardModel> = {
+  mini: { type: 'mini', name: 'MIFARE Classic Mini', sectors: 5, blocks: 20, sak: 0x09, atqa: 0x0004 },
+  '1k': { type: '1k', name: 'MIFARE Classic 1K', sectors: 16, blocks: 64, sak: 0x08, atqa: 0x0004 },
+  '2k': { type: '2k', name: 'MIFARE Classic 2K', sectors: 32, blocks: 128, sak: 0x19, atqa: 0x0004 },
+  '4k': { type: '4k', name: 'MIFARE Classic 4K', sectors: 40, blocks: 256, sak: 0x18, atqa: 0x0002 },
+};
+
+export const CARD_TYPES = Object.keys(CARD_MODELS) as CardType[];
+
+const SMALL_SECTORS = 32;
+const SMALL_SECTOR_BLOCKS = 4;
+const LARGE_SECTOR_BLOCKS = 16;
+const SMALL_AREA_BLOCKS = SMALL_SECTORS * SMALL_SECTOR_BLOCKS;
+
+export const sectorFirstBlock = (sector: number): number =>
+  sector < SMALL_SECTORS ? sector * SMALL_SECTOR_BLOCKS : SMALL_AREA_BLOCKS + (sector - SMALL_SECTORS) * LARGE_SECTOR_BLOCKS;
+
+export const sectorBlockCount = (sector: number): number => sector < SMALL_SECTORS ? SMALL_SECTOR_BLOCKS : LARGE_SECTOR_BLOCKS;
+
+export const sectorTrailerBlock = (sector: number): number => sectorFirstBlock(sector) + sectorBlockCount(sector) - 1;
+
+// 總區塊數換算扇區數
+export const sectorCount = (blocks: number): number =>
+  blocks <= SMALL_AREA_BLOCKS
+    ? blocks / SMALL_SECTOR_BLOCKS
+    : SMALL_SECTORS + (blocks - SMALL_AREA_BLOCKS) / LARGE_SECTOR_BLOCKS;
+
+export const blockToSector = (block: number): number =>
+  block < SMALL_AREA_BLOCKS
+    ? Math.floor(block / SMALL_SECTOR_BLOCKS)
+    : SMALL_SECTORS + Math.floor((block - SMALL_AREA_BLOCKS) / LARGE_SECTOR_BLOCKS);
+
+// 區塊在扇區內的位置
+export const blockInSector = (block: number): number => block - sectorFirstBlock(blockToSector(block));
+
+export const isTrailerBlock = (block: number): boolean => block === sectorTrailerBlock(blockToSector(block));
+
+// 區塊使用第幾組存取位元（0–2 為資料區塊，3 為尾塊）
+export const accessGroup = (block: number): number => {
+  const offset = blockInSector(block);
+  if (sectorBlockCount(blockToSector(block)) === SMALL_SECTOR_BLOCKS) return offset;
+  return offset === LARGE_SECTOR_BLOCKS - 1 ? 3 : Math.floor(offset / 5);
+};
+
+// 共用同一組存取位元的區塊
+export const accessGroupBlocks = (sector: number, group: number): number[] => {
+  const first = sectorFirstBlock(sector);
+  return Array.from({ length: sectorBlockCount(sector) }, (_, offset) => first + offset)
+    .filter(block => accessGroup(block) === group);
+};
+
+export const cardTypeForBlocks = (blocks: number): CardType | null =>
+  CARD_TYPES.find(type => CARD_MODELS[type].blocks === blocks) ?? null;
+
+// UID 長度：4-byte（single）、7-byte（double）、10-byte（triple size UID）
+export type UidSize = 4 | 7 | 10;
+
+export const UID_SIZES: UidSize[] = [4, 7, 10];
+
+// 範例卡片的 UID：4-byte 與相互驗證頁一致，7 / 10-byte 以 NXP 的廠商碼 04 開頭
+export const DEMO_UIDS: Record<UidSize, number[]> = {
+  4: [0xDE, 0xAD, 0xBE, 0xEF],
+  7: [0x04, 0xDE, 0xAD, 0xBE, 0xEF, 0x12, 0x34],
+  10: [0x04, 0xDE, 0xAD, 0xBE, 0xEF, 0x12, 0x34, 0x56, 0x78, 0x9A],
+};
+
+// ATQA bit 7-6 標示 UID 長度：00 = 4 bytes、01 = 7 bytes、10 = 10 bytes
+export const uidAtqa = (model: CardModel, uidSize: UidSize): number => model.atqa | (UID_SIZES.indexOf(uidSize) << 6);
+
+// Crypto-1 使用的 32-bit UID：只取最後一個 cascade level 的 4 個位元組
+export const cryptoUid = (uid: number[]): number => uid.slice(-4).reduce((acc, byte) => acc * 256 + byte, 0) >>> 0;
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// 區塊 0 的製造商資料配置：只有 4-byte UID 在 UID 後面存 BCC，其餘長度的 SAK 緊接在 UID 之後
+export interface ManufacturerLayout {
+  uid: ByteRange;
+  bcc: number | null;
+  sak: number;
+  atqa: ByteRange;              // 低位元組在前
+  manufacturerData: ByteRange;
+}
+
+export const manufacturerLayout = (uidSize: UidSize): ManufacturerLayout => {
+  const bcc = uidSize === 4 ? 4 : null;
+  const sak = bcc === null ? uidSize : bcc + 1;
+  return {
+    uid: { start: 0, end: uidSize - 1 },
+    bcc,
+    sak,
+    atqa: { start: sak + 1, end: sak + 2 },
+    manufacturerData: { start: sak + 3, end: 15 },
+  };
+};
+
+// 區塊 0 依指定的 UID 長度解讀時，SAK 位置是已知卡型的 SAK，且 ATQA 的 UID 長度位元（bit 7-6）與之相符
+const matchesUidSize = (block0: number[], uidSize: UidSize): boolean => {
+  const layout = manufacturerLayout(uidSize);
+  return CARD_TYPES.some(type => CARD_MODELS[type].sak === block0[layout.sak])
+    && UID_SIZES[(block0[layout.atqa.start] >> 6) & 0x03] === uidSize;
+};
+
+// 傾印檔沒有記錄 UID 長度時依區塊 0 判斷：位元組 4 是前 4 個位元組的 BCC 即為 4-byte UID
+// 否則依 SAK 與 ATQA 區分 7 / 10-byte，無法判斷時視為 7-byte
+export const detectUidSize = (block0: number[]): UidSize => {
+  if ((block0[0] ^ block0[1] ^ block0[2] ^ block0[3]) === block0[4]) return 4;
+  return matchesUidSize(block0, 10) && !matchesUidSize(block0, 7) ? 10 : 7;
+};
@@ -0,0 +1,237 @@
+import { prngSuccessor } from './prng';
+import { oddParity8 } from './iso14443a';
+
+// Crypto-1 串流加密：48-bit LFSR 拆成奇數位 (odd) 與偶數位 (even) 兩個 24-bit 暫存器
+export interface Crypto1State {
+  odd: number;
+  even: number;
+}
+
+// 反饋多項式拆分到奇偶暫存器的遮罩
+export const LF_POLY_ODD = 0x29CE5C;
+export const LF_POLY_EVEN = 0x870804;
+
+const bit = (x: number, n: number): number => (x >>> n) & 1;
+
+// 以 big-endian 位元組、每個位元組 LSB 先傳送的順序取位元
+export const beBit = (x: number, n: number): number => bit(x, n ^ 24);
+
+// 偶同位：回傳 x 中 1 的個數的奇偶
+export const parity32 = (x: number): number => {
+  x ^= x >>> 16;
+  x ^= x >>> 8;
+  x ^= x >>> 4;
+  return bit(0x6996, x & 0xF);
+};
+
+// 兩層過濾函數：第一層 fa/fb 各取 4 位元，第二層 fc 合併 5 個結果
+export const filter = (x: number): number => {
+  let f = (0xF22C0 >>> (x & 0xF)) & 16;
+  f |= (0x6C9C0 >>> ((x >>> 4) & 0xF)) & 8;
+  f |= (0x3C8B0 >>> ((x >>> 8) & 0xF)) & 4;
+  f |= (0x1E458 >>> ((x >>> 12) & 0xF)) & 2;
+  f |= (0x0D938 >>> ((x >>> 16) & 0xF)) & 1;
+  return bit(0xEC57E80A, f);
+};
+
+// 48-bit 金鑰的第 n 個位元（JS 位元運算只有 32-bit，改用除法）
+const keyBit = (key: number, n: number): number => Math.floor(key / 2 ** n) % 2;
+
+export const keyFromHex = (hex: string): number => parseInt(hex, 16);
+
+export const keyToHex = (key: number): string => key.toString(16).toUpperCase().padStart(12, '0');
+
+export const toHex32 = (x: number): string => (x >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+// 載入金鑰：金鑰即 LFSR 初始狀態
+export const crypto1Create = (key: number): Crypto1State => {
+  const state: Crypto1State = { odd: 0, even: 0 };
+  for (let i = 47; i > 0; i -= 2) {
+    state.odd = (state.odd << 1) | keyBit(key, (i - 1) ^ 7);
+    state.even = (state.even << 1) | keyBit(key, i ^ 7);
+  }
+  return state;
+};
+
+// 取回 48-bit LFSR 內容（狀態回捲到初始時即為金鑰）
+export const crypto1GetLfsr = (state: Crypto1State): number => {
+  let lfsr = 0;
+  for (let i = 23; i >= 0; i--) {
+    lfsr = lfsr * 2 + bit(state.odd, i ^ 3);
+    lfsr = lfsr * 2 + bit(state.even, i ^ 3);
+  }
+  return lfsr;
+};
+
+export const copyState = (state: Crypto1State): Crypto1State => ({ odd: state.odd, even: state.even });
+
+// 產生一個 keystream 位元並推進 LFSR；isEncrypted 時輸入為密文，先解密再回饋
+export const crypto1Bit = (state: Crypto1State, input: number, isEncrypted: boolean = false): number => {
+  const ret = filter(state.odd);
+
+  let feedin = isEncrypted ? ret : 0;
+  feedin ^= input ? 1 : 0;
+  feedin ^= LF_POLY_ODD & state.odd;
+  feedin ^= LF_POLY_EVEN & state.even;
+
+  const newBit = parity32(feedin);
+  state.even = ((state.even << 1) | newBit) & 0xFFFFFF;
+
+  const t = state.odd;
+  state.odd = state.even;
+  state.even = t;
+
+  return ret;
+};
+
+export const crypto1Byte = (state: Crypto1State, input: number, isEncrypted: boolean = false): number => {
+  let ret = 0;
+  for (let i = 0; i < 8; i++) {
+    ret |= crypto1Bit(state, bit(input, i), isEncrypted) << i;
+  }
+  return ret;
+};
+
+export const crypto1Word = (state: Crypto1State, input: number, isEncrypted: boolean = false): number => {
+  let ret = 0;
+  for (let i = 0; i < 32; i++) {
+    ret |= crypto1Bit(state, beBit(input, i), isEncrypted) << (i ^ 24);
+  }
+  return ret >>> 0;
+};
+
+// 反向回捲一個位元，回傳該位置的 keystream 位元
+export const lfsrRollbackBit = (state: Crypto1State, input: number, isEncrypted: boolean = false): number => {
+  state.odd &= 0xFFFFFF;
+  const t = state.odd;
+  state.odd = state.even;
+  state.even = t;
+
+  let out = state.even & 1;
+  state.even >>>= 1;
+  out ^= LF_POLY_EVEN & state.even;
+  out ^= LF_POLY_ODD & state.odd;
+  out ^= input ? 1 : 0;
+  const ret = filter(state.odd);
+  if (isEncrypted) out ^= ret;
+
+  state.even |= parity32(out) << 23;
+  return ret;
+};
+
+export const lfsrRollbackWord = (state: Crypto1State, input: number, isEncrypted: boolean = false): number => {
+  let ret = 0;
+  for (let i = 31; i >= 0; i--) {
+    ret |= lfsrRollbackBit(state, beBit(input, i), isEncrypted) << (i ^ 24);
+  }
+  return ret >>> 0;
+};
+
+// 下一個 keystream 位元（不推進狀態），即加密同位位元使用的位元
+export const peekKeystreamBit = (state: Crypto1State): number => filter(state.odd);
+
+// 32-bit 字的四個位元組（傳輸順序）
+export const wordBytes = (word: number): number[] =>
+  [(word >>> 24) & 0xFF, (word >>> 16) & 0xFF, (word >>> 8) & 0xFF, word & 0xFF];
+
+export interface AuthParams {
+  uid: number;
+  key: number;
+  nT: number;
+  nR: number;
+}
+
+export interface AuthExchange extends AuthParams {
+  uidXorNt: number;
+  aR: number;          // suc2(nT)
+  aT: number;          // suc3(nT)
+  ks1: number;         // 加密 nR 的 keystream
+  ks2: number;         // 加密 aR 的 keystream
+  ks3: number;         // 加密 aT 的 keystream
+  nREnc: number;       // {nR}
+  aREnc: number;       // {aR}
+  aTEnc: number;       // {aT}
+  readerParity: number[]; // {nR}{aR} 8 個位元組的加密同位位元
+  cardParity: number[];   // {aT} 4 個位元組的加密同位位元
+}
+
+// 以讀卡機觀點模擬完整三次握手，回傳線上可觀察到的所有數值
+export const mifareAuthenticate = ({ uid, key, nT, nR }: AuthParams): AuthExchange => {
+  const state = crypto1Create(key);
+  const uidXorNt = (uid ^ nT) >>> 0;
+
+  // 步驟一：UID ⊕ nT 移入 LFSR（不輸出密文）
+  crypto1Word(state, uidXorNt, false);
+
+  // 步驟二：逐位元組加密 nR，同時將明文 nR 回饋進 LFSR
+  const readerParity: number[] = [];
+  let ks1 = 0;
+  wordBytes(nR).forEach((byte, i) => {
+    const ks = crypto1Byte(state, byte, false);
+    ks1 |= ks << (24 - i * 8);
+    readerParity.push(oddParity8(byte) ^ peekKeystreamBit(state));
+  });
+  ks1 >>>= 0;
+
+  // 步驟三：aR = suc2(nT)，LFSR 不再有輸入
+  const aR = prngSuccessor(nT, 64);
+  let ks2 = 0;
+  wordBytes(aR).forEach((byte, i) => {
+    ks2 |= crypto1Byte(state, 0, false) << (24 - i * 8);
+    readerParity.push(oddParity8(byte) ^ peekKeystreamBit(state));
+  });
+  ks2 >>>= 0;
+
+  // 步驟四：卡片回應 aT = suc3(nT)
+  const aT = prngSuccessor(nT, 96);
+  const cardParity: number[] = [];
+  let ks3 = 0;
+  wordBytes(aT).forEach((byte, i) => {
+    ks3 |= crypto1Byte(state, 0, false) << (24 - i * 8);
+    cardParity.push(oddParity8(byte) ^ peekKeystreamBit(state));
+  });
+  ks3 >>>= 0;
+
+  return {
+    uid: uid >>> 0, key, nT: nT >>> 0, nR: nR >>> 0,
+    uidXorNt,
+    aR, aT,
+    ks1, ks2, ks3,
+    nREnc: (nR ^ ks1) >>> 0,
+    aREnc: (aR ^ ks2) >>> 0,
+    aTEnc: (aT ^ ks3) >>> 0,
+    readerParity,
+    cardParity
+  };
+};
+
+// 以卡片觀點解密 {nR}{aR}：密文 nR 回饋時需先解密
+export const cardVerifyReader = (uid: number, key: number, nT: number, nREnc: number, aREnc: number) => {
+  const state = crypto1Create(key);
+  crypto1Word(state, (uid ^ nT) >>> 0, false);
+  const nR = (crypto1Word(state, nREnc, true) ^ nREnc) >>> 0;
+  const aR = (crypto1Word(state, 0, false) ^ aREnc) >>> 0;
+  const expected = prngSuccessor(nT, 64);
+  return { nR, aR, expected, valid: aR === expected };
+};
+
+// 驗證完成後的 LFSR 狀態，後續命令都以此狀態繼續加密
+export const crypto1AuthenticatedState = ({ uid, key, nT, nR }: AuthParams): Crypto1State => {
+  const state = crypto1Create(key);
+  crypto1Word(state, (uid ^ nT) >>> 0, false);
+  crypto1Word(state, nR, false);
+  crypto1Word(state, 0, false);
+  crypto1Word(state, 0, false);
+  return state;
+};
+
+// 加密一個框架：每個位元組與 keystream XOR，同位位元再與下一個 keystream 位元 XOR
+export const crypto1EncryptFrame = (state: Crypto1State, plain: number[]) => {
+  const data: number[] = [];
+  const parity: number[] = [];
+  plain.forEach(byte => {
+    data.push((crypto1Byte(state, 0, false) ^ byte) & 0xFF);
+    parity.push(oddParity8(byte) ^ peekKeystreamBit(state));
+  });
+  return { data, parity };
+};
@@ -0,0 +1,124 @@
+import { beBit, crypto1Create, crypto1Word, Crypto1State, LF_POLY_EVEN, LF_POLY_ODD } from './crypto1';
+
+// Bitsliced Crypto-1：把 32 把金鑰的同一個 LFSR 位元放進同一個 32-bit word（第 j 個 lane 是第 j 把金鑰）
+// 每個 word 運算一次就推進 32 把金鑰，過濾函數改寫成布林式，不再查表
+// LFSR 不做位移：新位元依序寫入緩衝區，奇數位暫存器第 i 位元就是往回數第 1 + 2i 個位元，偶數位是第 2 + 2i 個
+
+export const BITSLICE_LANES = 32;
+
+const STATE_BITS = 48;
+const BUFFER_BITS = STATE_BITS + 256;
+
+export interface BitslicedState {
+  slices: Int32Array;     // 每個元素是一個位元在 32 把金鑰中的值
+  t: number;              // 下一個新位元寫入的位置
+}
+
+// 回饋多項式的位元換算成往回數的距離
+const tapOffsets = (poly: number, first: number): number[] =>
+  Array.from({ length: 24 }, (_, i) => i).filter(i => (poly >>> i) & 1).map(i => first + 2 * i);
+
+const FEEDBACK_TAPS = [...tapOffsets(LF_POLY_ODD, 1), ...tapOffsets(LF_POLY_EVEN, 2)];
+
+// 過濾函數第一層：fa、fb 的輸入依序為 4 個位元中的最高位到最低位
+const fa = (y0: number, y1: number, y2: number, y3: number) => ((y0 | y1) ^ (y0 & y3)) ^ (y2 & ((y0 ^ y1) | y3));
+const fb = (y0: number, y1: number, y2: number, y3: number) => ((y0 & y1) | y2) ^ ((y0 ^ y1) & (y2 | y3));
+const fc = (x0: number, x1: number, x2: number, x3: number, x4: number) =>
+  (x0 | ((x1 | x4) & (x3 ^ x4))) ^ ((x0 ^ (x1 & x3)) & ((x2 ^ x3) | (x1 & x4)));
+
+// 與 filter(state.odd) 相同：奇數位暫存器最低 20 位元分成 5 組
+const bitslicedFilter = (s: Int32Array, t: number): number => {
+  const o = (i: number) => s[t - 1 - 2 * i];
+  return fc(
+    fa(o(19), o(18), o(17), o(16)),
+    fb(o(15), o(14), o(13), o(12)),
+    fb(o(11), o(10), o(9), o(8)),
+    fa(o(7), o(6), o(5), o(4)),
+    fb(o(3), o(2), o(1), o(0))
+  );
+};
+
+const writeState = (slices: Int32Array, lane: number, state: Crypto1State) => {
+  for (let i = 0; i < 24; i++) {
+    if ((state.odd >>> i) & 1) slices[STATE_BITS - 1 - 2 * i] |= 1 << lane;
+    if ((state.even >>> i) & 1) slices[STATE_BITS - 2 - 2 * i] |= 1 << lane;
+  }
+};
+
+// 載入最多 32 個任意 LFSR 狀態，例如攻擊中回捲得到的候選狀態
+export const bitslicedCreateStates = (states: Crypto1State[]): BitslicedState => {
+  const slices = new Int32Array(BUFFER_BITS);
+  states.slice(0, BITSLICE_LANES).forEach((state, lane) => writeState(slices, lane, state));
+  return { slices, t: STATE_BITS };
+};
+
+// 載入最多 32 把任意金鑰
+export const bitslicedCreate = (keys: number[]): BitslicedState =>
+  bitslicedCreateStates(keys.slice(0, BITSLICE_LANES).map(crypto1Create));
+
+// 金鑰載入只是位元重排：base 最低 5 位元為 0 時，base + j 的狀態等於 base 的狀態 ⊕ j 的狀態
+const LANE_PATTERN = bitslicedCreate(Array.from({ length: BITSLICE_LANES }, (_, j) => j)).slices.slice(0, STATE_BITS);
+
+// 載入連續的 32 把金鑰 base … base + 31，只需計算一次 base 的狀態
+export const bitslicedCreateRange = (base: number): BitslicedState => {
+  const slices = new Int32Array(BUFFER_BITS);
+  const state = crypto1Create(base);
+  for (let i = 0; i < 24; i++) {
+    slices[STATE_BITS - 1 - 2 * i] = -((state.odd >>> i) & 1) ^ LANE_PATTERN[STATE_BITS - 1 - 2 * i];
+    slices[STATE_BITS - 2 - 2 * i] = -((state.even >>> i) & 1) ^ LANE_PATTERN[STATE_BITS - 2 - 2 * i];
+  }
+  return { slices, t: STATE_BITS };
+};
+
+// 同一批 lane 要以不同輸入分別重播時，先複製一份
+export const bitslicedCopy = (state: BitslicedState): BitslicedState => ({ slices: state.slices.slice(), t: state.t });
+
+// 只載入 count 個 lane 時，其餘 lane 不算候選
+export const bitslicedLaneMask = (count: number): number => (count >= BITSLICE_LANES ? -1 : (1 << count) - 1);
+
+// 產生 32 把金鑰各自的 keystream 位元並推進 LFSR；input 對所有 lane 相同
+export const bitslicedBit = (state: BitslicedState, input: number, isEncrypted: boolean = false): number => {
+  // 緩衝區用完時只保留最後 48 個位元
+  if (state.t === BUFFER_BITS) {
+    state.slices.copyWithin(0, BUFFER_BITS - STATE_BITS, BUFFER_BITS);
+    state.t = STATE_BITS;
+  }
+  const s = state.slices;
+  const t = state.t;
+  const ret = bitslicedFilter(s, t);
+
+  let feedin = isEncrypted ? ret : 0;
+  if (input) feedin = ~feedin;
+  for (let i = 0; i < FEEDBACK_TAPS.length; i++) feedin ^= s[t - FEEDBACK_TAPS[i]];
+
+  s[t] = feedin;
+  state.t = t + 1;
+  return ret;
+};
+
+// 與 crypto1Word 相同的位元順序，回傳每個 lane 的 32-bit keystream
+export const bitslicedWord = (state: BitslicedState, input: number, isEncrypted: boolean = false): number[] => {
+  const words = new Array(BITSLICE_LANES).fill(0);
+  for (let i = 0; i < 32; i++) {
+    const ks = bitslicedBit(state, beBit(input, i), isEncrypted);
+    for (let lane = 0; lane < BITSLICE_LANES; lane++) {
+      words[lane] |= ((ks >>> lane) & 1) << (i ^ 24);
+    }
+  }
+  return words.map(word => word >>> 0);
+};
+
+// 以相同輸入分別跑參考實作與 bitsliced 版本，回傳 keystream 不一致的 word 數
+export const compareWithReference = (keys: number[], inputs: { word: number; isEncrypted: boolean }[]): number => {
+  const lanes = keys.slice(0, BITSLICE_LANES);
+  const sliced = bitslicedCreate(lanes);
+  const references = lanes.map(crypto1Create);
+  let mismatches = 0;
+  for (const { word, isEncrypted } of inputs) {
+    const output = bitslicedWord(sliced, word, isEncrypted);
+    references.forEach((state, lane) => {
+      if (crypto1Word(state, word, isEncrypted) !== output[lane]) mismatches++;
+    });
+  }
+  return mismatches;
+};
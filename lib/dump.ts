@@ -0,0 +1,352 @@
+import { CARD_MODELS, CARD_TYPES, detectUidSize, manufacturerLayout, sectorBlockCount, sectorCount, sectorFirstBlock, sectorTrailerBlock } from './cardLayout';
+import { keyFromHex, keyToHex } from './crypto1';
+
+// 卡片傾印檔：Proxmark3 的 .bin（原始位元組）、.eml（每行一個區塊的十六進位）與 hf mf dump 的 JSON，
+// libnfc 的 .mfd（與 .bin 相同的原始位元組排列）、Flipper Zero 的 .nfc 與 MIFARE Classic Tool 的 .mct
+// 檔案格式只處理位元組，區塊類型由記憶體頁面依內容判斷；匯出後再匯入必須得到相同的位元組
+
+export const BLOCK_SIZE = 16;
+
+// MIFARE Classic Mini / 1K / 2K / 4K 的區塊數
+export const DUMP_BLOCK_COUNTS = CARD_TYPES.map(type => CARD_MODELS[type].blocks);
+
+export type DumpFormat = 'bin' | 'eml' | 'json' | 'mfd' | 'nfc' | 'mct';
+
+// 未讀到的位元組為 null；無法表示未知位元組的格式（.bin / .eml / .json / .mfd）以 00 寫出
+export type DumpByte = number | null;
+
+// 卡片本身的識別資訊，區塊 0 未讀到時仍可由 .nfc / .json 的欄位取得
+export interface DumpCardInfo {
+  uid: number[];
+  atqa: number;
+  sak: number;
+}
+
+export interface DumpSectorKeys {
+  keyA: number | null;
+  keyB: number | null;
+}
+
+export interface CardDump {
+  blocks: DumpByte[][];
+  keys: DumpSectorKeys[] | null;      // JSON 的 SectorKeys；其他格式的金鑰只存在尾塊中
+  card: DumpCardInfo | null;
+}
+
+export const detectDumpFormat = (fileName: string): DumpFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'bin' || extension === 'dump') return 'bin';
+  if (extension === 'eml') return 'eml';
+  if (extension === 'json') return 'json';
+  if (extension === 'mfd') return 'mfd';
+  if (extension === 'nfc') return 'nfc';
+  if (extension === 'mct') return 'mct';
+  return null;
+};
+
+export const hexToBytes = (hex: string): number[] => (hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16));
+
+export const bytesToHex = (bytes: DumpByte[]): string =>
+  bytes.map(byte => (byte ?? 0).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const trailerBlocks = (count: number): number[] =>
+  Array.from({ length: sectorCount(count) }, (_, sector) => sectorTrailerBlock(sector));
+
+const checkBlockCount = (count: number) => {
+  if (!DUMP_BLOCK_COUNTS.includes(count)) {
+    throw new Error(`區塊數 ${count} 不符合 MIFARE Classic 的容量（${DUMP_BLOCK_COUNTS.join(' / ')} 個區塊）`);
+  }
+};
+
+export const parseBinDump = (buffer: ArrayBuffer): CardDump => {
+  const bytes = Array.from(new Uint8Array(buffer));
+  if (bytes.length % BLOCK_SIZE !== 0) throw new Error(`檔案大小 ${bytes.length} 不是 16 位元組的倍數`);
+  checkBlockCount(bytes.length / BLOCK_SIZE);
+  return {
+    blocks: Array.from({ length: bytes.length / BLOCK_SIZE }, (_, i) => bytes.slice(i * BLOCK_SIZE, (i + 1) * BLOCK_SIZE)),
+    keys: null,
+    card: null,
+  };
+};
+
+export const parseEmlDump = (text: string): CardDump => {
+  const blocks: number[][] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (!/^[0-9a-fA-F]{32}$/.test(line)) throw new Error(`第 ${index + 1} 行不是 32 位十六進位的區塊資料`);
+    blocks.push(hexToBytes(line));
+  });
+  checkBlockCount(blocks.length);
+  return { blocks, keys: null, card: null };
+};
+
+// ATQA 在區塊 0 與 Proxmark JSON 中以傳送順序（低位元組在前）存放
+const atqaFromBytes = (bytes: DumpByte[]): number => ((bytes[0] ?? 0) | (bytes[1] ?? 0) << 8);
+const atqaToBytes = (atqa: number): number[] => [atqa & 0xFF, atqa >>> 8];
+
+interface ProxmarkJson {
+  Created?: string;
+  FileType?: string;
+  Card?: { UID: string; ATQA: string; SAK: string };
+  blocks?: Record<string, string>;
+  SectorKeys?: Record<string, { KeyA?: string; KeyB?: string; AccessConditions?: string }>;
+}
+
+const jsonKey = (hex: string | undefined): number | null =>
+  hex && /^[0-9a-fA-F]{12}$/.test(hex) ? keyFromHex(hex) : null;
+
+export const parseJsonDump = (text: string): CardDump => {
+  let json: ProxmarkJson;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('JSON 格式錯誤');
+  }
+  if (!json.blocks) throw new Error('JSON 缺少 blocks 欄位');
+
+  const entries = Object.entries(json.blocks);
+  checkBlockCount(entries.length);
+  const blocks: number[][] = new Array(entries.length);
+  entries.forEach(([index, hex]) => {
+    const block = Number(index);
+    if (!Number.isInteger(block) || block < 0 || block >= entries.length) throw new Error(`區塊編號 ${index} 超出範圍`);
+    if (!/^[0-9a-fA-F]{32}$/.test(hex)) throw new Error(`區塊 ${index} 不是 32 位十六進位`);
+    blocks[block] = hexToBytes(hex);
+  });
+
+  // SectorKeys 可能只列出部分扇區，依扇區編號放入對應位置
+  let keys: DumpSectorKeys[] | null = null;
+  if (json.SectorKeys) {
+    keys = [];
+    for (const [sector, entry] of Object.entries(json.SectorKeys)) {
+      keys[Number(sector)] = { keyA: jsonKey(entry.KeyA), keyB: jsonKey(entry.KeyB) };
+    }
+  }
+
+  const card = json.Card && /^([0-9a-fA-F]{2})+$/.test(json.Card.UID) && /^[0-9a-fA-F]{4}$/.test(json.Card.ATQA) && /^[0-9a-fA-F]{2}$/.test(json.Card.SAK)
+    ? { uid: hexToBytes(json.Card.UID), atqa: atqaFromBytes(hexToBytes(json.Card.ATQA)), sak: parseInt(json.Card.SAK, 16) }
+    : null;
+
+  return { blocks, keys, card };
+};
+
+// Flipper Zero 的 MIFARE Classic 類型與區塊數
+const NFC_CLASSIC_TYPES: Record<string, number> = { MINI: 20, '1K': 64, '4K': 256 };
+
+const nfcBytes = (value: string, line: number): DumpByte[] => value.trim().split(/\s+/).map(token => {
+  if (token === '??') return null;
+  if (!/^[0-9a-fA-F]{2}$/.test(token)) throw new Error(`第 ${line} 行的位元組 ${token} 無效`);
+  return parseInt(token, 16);
+});
+
+// .nfc 為「欄位: 值」的文字格式，# 開頭為註解；區塊中的 ?? 表示未讀到的位元組
+export const parseNfcDump = (text: string): CardDump => {
+  const fields = new Map<string, { value: string; line: number }>();
+  const blockLines = new Map<number, DumpByte[]>();
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const separator = line.indexOf(':');
+    if (separator === -1) throw new Error(`第 ${index + 1} 行缺少「:」`);
+    const name = line.substring(0, separator).trim();
+    const value = line.substring(separator + 1).trim();
+    const block = name.match(/^Block (\d+)$/);
+    if (block) {
+      const bytes = nfcBytes(value, index + 1);
+      if (bytes.length !== BLOCK_SIZE) throw new Error(`第 ${index + 1} 行不是 16 個位元組`);
+      blockLines.set(Number(block[1]), bytes);
+    } else {
+      fields.set(name, { value, line: index + 1 });
+    }
+  });
+
+  if (!fields.get('Filetype')?.value.startsWith('Flipper NFC device')) throw new Error('不是 Flipper NFC 檔案');
+  if (fields.get('Device type')?.value !== 'Mifare Classic') {
+    throw new Error(`不支援的裝置類型：${fields.get('Device type')?.value || '未指定'}`);
+  }
+  const classicType = fields.get('Mifare Classic type')?.value || '';
+  const count = NFC_CLASSIC_TYPES[classicType];
+  if (!count) throw new Error(`不支援的 MIFARE Classic 類型：${classicType}`);
+
+  const field = (name: string) => {
+    const entry = fields.get(name);
+    if (!entry) throw new Error(`缺少 ${name} 欄位`);
+    const bytes = nfcBytes(entry.value, entry.line);
+    if (bytes.includes(null)) throw new Error(`${name} 不可包含 ??`);
+    return bytes as number[];
+  };
+  const atqa = field('ATQA');
+
+  // 檔案中沒有列出的區塊視為完全未讀
+  return {
+    blocks: Array.from({ length: count }, (_, block) => blockLines.get(block) || new Array(BLOCK_SIZE).fill(null)),
+    keys: null,
+    card: { uid: field('UID'), atqa: (atqa[0] << 8) | atqa[1], sak: field('SAK')[0] },
+  };
+};
+
+const nfcHex = (bytes: DumpByte[]): string =>
+  bytes.map(byte => byte === null ? '??' : byte.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+
+// 依 Flipper 韌體存檔的欄位順序與註解輸出；ATQA 在 .nfc 中以高位元組在前顯示
+export const nfcFromDump = (dump: CardDump): string => {
+  const classicType = Object.keys(NFC_CLASSIC_TYPES).find(type => NFC_CLASSIC_TYPES[type] === dump.blocks.length);
+  if (!classicType) throw new Error(`Flipper Zero 不支援 ${dump.blocks.length} 個區塊的卡片`);
+  const card = dumpCardInfo(dump);
+  return [
+    'Filetype: Flipper NFC device',
+    'Version: 4',
+    '# Device type can be ISO14443-3A, ISO14443-3B, ISO14443-4A, ISO14443-4B, ISO15693-3, FeliCa, NTAG/Ultralight, Mifare Classic, Mifare DESFire, SLIX, ST25TB',
+    'Device type: Mifare Classic',
+    '# UID is common for all formats',
+    `UID: ${nfcHex(card.uid)}`,
+    '# ISO14443-3A specific data',
+    `ATQA: ${nfcHex([card.atqa >>> 8, card.atqa & 0xFF])}`,
+    `SAK: ${nfcHex([card.sak])}`,
+    '# Mifare Classic specific data',
+    `Mifare Classic type: ${classicType}`,
+    'Data format version: 2',
+    "# Mifare Classic blocks, '??' means unknown data",
+    ...dump.blocks.map((block, index) => `Block ${index}: ${nfcHex(block)}`),
+    '',
+  ].join('\n');
+};
+
+// MCT 將整個讀不到的扇區寫成一行以 * 開頭的說明
+const MCT_DEAD_SECTOR = '*No keys found or dead sector';
+
+const mctBlock = (line: string, lineNumber: number): DumpByte[] => {
+  if (!/^[0-9a-fA-F-]{32}$/.test(line)) throw new Error(`第 ${lineNumber} 行不是 32 個字元的區塊資料`);
+  return (line.match(/.{2}/g) || []).map(byte => {
+    if (byte === '--') return null;
+    if (byte.includes('-')) throw new Error(`第 ${lineNumber} 行的位元組 ${byte} 只讀到一半`);
+    return parseInt(byte, 16);
+  });
+};
+
+// .mct：每個扇區以 +Sector: N 開頭，其後每行一個區塊，- 表示未讀到；沒有出現的扇區或區塊視為未讀
+export const parseMctDump = (text: string): CardDump => {
+  const sectors = new Map<number, DumpByte[][]>();
+  let current: DumpByte[][] | null = null;
+  let currentSector = 0;
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    const header = line.match(/^\+Sector:\s*(\d+)$/);
+    if (header) {
+      currentSector = Number(header[1]);
+      if (sectors.has(currentSector)) throw new Error(`扇區 ${currentSector} 重複出現`);
+      current = [];
+      sectors.set(currentSector, current);
+      return;
+    }
+    if (!current) throw new Error(`第 ${index + 1} 行出現在第一個 +Sector 之前`);
+    if (line.startsWith('*')) return;
+    if (current.length === sectorBlockCount(currentSector)) throw new Error(`扇區 ${currentSector} 的區塊數過多`);
+    current.push(mctBlock(line, index + 1));
+  });
+  if (sectors.size === 0) throw new Error('找不到任何 +Sector 區段');
+
+  // 檔案不記錄卡片容量，取能容納最大扇區的最小型號（型號依容量由小到大排列）
+  const lastSector = Math.max(...Array.from(sectors.keys()));
+  const model = CARD_TYPES.map(type => CARD_MODELS[type]).find(candidate => lastSector < candidate.sectors);
+  if (!model) throw new Error(`扇區 ${lastSector} 超出 MIFARE Classic 的範圍`);
+  const blocks: DumpByte[][] = Array.from({ length: model.blocks }, () => new Array(BLOCK_SIZE).fill(null));
+  sectors.forEach((lines, sector) => {
+    lines.forEach((bytes, offset) => {
+      blocks[sectorFirstBlock(sector) + offset] = bytes;
+    });
+  });
+  return { blocks, keys: null, card: null };
+};
+
+export const mctFromDump = (dump: CardDump): string => {
+  const lines: string[] = [];
+  for (let sector = 0; sector < sectorCount(dump.blocks.length); sector++) {
+    const first = sectorFirstBlock(sector);
+    const blocks = dump.blocks.slice(first, first + sectorBlockCount(sector));
+    lines.push(`+Sector: ${sector}`);
+    if (blocks.every(block => block.every(byte => byte === null))) {
+      lines.push(MCT_DEAD_SECTOR);
+      continue;
+    }
+    blocks.forEach(block => {
+      lines.push(block.map(byte => byte === null ? '--' : byte.toString(16).padStart(2, '0').toUpperCase()).join(''));
+    });
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// 依格式解析檔案內容：.bin / .mfd 直接取位元組，其餘以 UTF-8 文字解析
+export const parseDump = (format: DumpFormat, content: ArrayBuffer): CardDump => {
+  if (format === 'bin' || format === 'mfd') return parseBinDump(content);
+  const text = new TextDecoder().decode(content);
+  if (format === 'nfc') return parseNfcDump(text);
+  if (format === 'mct') return parseMctDump(text);
+  return format === 'eml' ? parseEmlDump(text) : parseJsonDump(text);
+};
+
+// 沒有卡片資訊時由區塊 0 取得，UID 長度由 BCC 與 SAK、ATQA 判斷
+const dumpCardInfo = (dump: CardDump): DumpCardInfo => {
+  if (dump.card) return dump.card;
+  const block0 = dump.blocks[0].map(byte => byte ?? 0);
+  const layout = manufacturerLayout(detectUidSize(block0));
+  return {
+    uid: block0.slice(layout.uid.start, layout.uid.end + 1),
+    atqa: atqaFromBytes(block0.slice(layout.atqa.start, layout.atqa.end + 1)),
+    sak: block0[layout.sak],
+  };
+};
+
+export const binFromDump = (dump: CardDump): ArrayBuffer => new Uint8Array(dump.blocks.flat().map(byte => byte ?? 0)).buffer;
+
+export const emlFromDump = (dump: CardDump): string => dump.blocks.map(block => `${bytesToHex(block)}\n`).join('');
+
+// hf mf dump 的 JSON：金鑰優先使用 SectorKeys，否則取自尾塊
+export const jsonFromDump = (dump: CardDump): string => {
+  const card = dumpCardInfo(dump);
+  const blocks: Record<string, string> = {};
+  dump.blocks.forEach((block, index) => {
+    blocks[index] = bytesToHex(block);
+  });
+  const sectorKeys: ProxmarkJson['SectorKeys'] = {};
+  trailerBlocks(dump.blocks.length).forEach((block, sector) => {
+    const trailer = dump.blocks[block];
+    const keys = dump.keys?.[sector];
+    sectorKeys[sector] = {
+      KeyA: keys?.keyA != null ? keyToHex(keys.keyA) : bytesToHex(trailer.slice(0, 6)),
+      KeyB: keys?.keyB != null ? keyToHex(keys.keyB) : bytesToHex(trailer.slice(10, 16)),
+      AccessConditions: bytesToHex(trailer.slice(6, 10)),
+    };
+  });
+
+  const json: ProxmarkJson = {
+    Created: 'mifare-tutorial',
+    FileType: 'mfc v2',
+    Card: {
+      UID: bytesToHex(card.uid),
+      ATQA: bytesToHex(atqaToBytes(card.atqa)),
+      SAK: bytesToHex([card.sak]),
+    },
+    blocks,
+    SectorKeys: sectorKeys,
+  };
+  return `${JSON.stringify(json, null, 2)}\n`;
+};
+
+export const DUMP_MIME_TYPES: Record<DumpFormat, string> = {
+  bin: 'application/octet-stream',
+  mfd: 'application/octet-stream',
+  nfc: 'text/plain',
+  mct: 'text/plain',
+  eml: 'text/plain',
+  json: 'application/json',
+};
+
+export const serializeDump = (format: DumpFormat, dump: CardDump): ArrayBuffer | string => {
+  if (format === 'bin' || format === 'mfd') return binFromDump(dump);
+  if (format === 'nfc') return nfcFromDump(dump);
+  if (format === 'mct') return mctFromDump(dump);
+  return format === 'eml' ? emlFromDump(dump) : jsonFromDump(dump);
+};
@@ -0,0 +1,237 @@
+import { beBit, crypto1GetLfsr, crypto1Create, Crypto1State, filter } from './crypto1';
+import { BITSLICE_LANES, bitslicedBit, bitslicedCopy, bitslicedCreateStates, bitslicedLaneMask } from './crypto1Bitsliced';
+import { oddParity8 } from './iso14443a';
+import { KnownKey, NestedTarget } from './nested';
+import { isValidNonce } from './prng';
+import { blockToSector, nestedAuthChallenge, readerAuthenticate, resetCard, sectorKey, VirtualCard } from './virtualCard';
+
+// Hardnested attack：強化 PRNG 讓 nT 無法預測，只能從大量加密 nonce 的統計性質縮小金鑰空間
+// 巢狀驗證開始時 LFSR 就是金鑰；第一個位元組的同位位元洩漏 ks0 ⊕ … ⊕ ks8，
+// 對全部 256 種第一個位元組加總（sum property），和只取決於金鑰的奇偶兩半
+
+// 縮小規模：每半個暫存器只隱藏最低的幾個位元，讓列舉與暴力搜尋能在瀏覽器內完成
+export const HARDNESTED_HIDDEN_BITS = 10;
+
+export interface EncryptedNonce {
+  nTEnc: number;
+  parity: number[];
+}
+
+export interface KeySpaceStage {
+  label: string;
+  size: number;
+}
+
+export type HardnestedPhase = 'detect' | 'collect' | 'sum' | 'bitflip' | 'bruteforce' | 'done';
+
+export interface HardnestedProgress {
+  phase: HardnestedPhase;
+  message: string;
+  prngValid: boolean | null;      // 明文 nT 是否落在弱 PRNG 的序列上
+  nonces: number;                 // 收集到的加密 nonce 數
+  coverage: number;               // 已出現的第一個位元組種類（最多 256）
+  firstByteParity: number[];      // 每個第一個位元組的 p0 ⊕ oddparity({nT}0)，未出現為 -1
+  sum: number | null;
+  bitflip: number | null;         // f(b) ⊕ f(b ⊕ 0x80) 恆為 0 或 1；不恆定時為 null
+  keySpace: KeySpaceStage[];
+  checked: number;                // 暴力搜尋已檢查的候選數
+  key: number | null;
+}
+
+// 一段過濾函數輸出的 XOR：window 由 half 左移 k 位再補上最新移入的 k 個位元
+const halfParity = (half: number, n: number, from: number): number => {
+  let result = 0;
+  for (let k = from; k <= 4; k++) {
+    result ^= filter((half << k) | (n >>> (4 - k)));
+  }
+  return result;
+};
+
+// 第一個位元組中由奇數位暫存器產生的 ks0、ks2、ks4、ks6、ks8（from = 0），
+// 或由偶數位暫存器產生的 ks1、ks3、ks5、ks7（from = 1），對 16 種移入位元組合加總
+export const halfSum = (half: number, from: number): number => {
+  let sum = 0;
+  for (let n = 0; n < 16; n++) sum += halfParity(half, n, from);
+  return sum;
+};
+
+// 兩半各自的部分和 p、q 決定整個位元組的和：XOR 為 1 的組合數
+export const combineSums = (p: number, q: number): number => p * (16 - q) + (16 - p) * q;
+
+// 第一個位元組最後一個位元翻轉只影響 ks8：若奇數位暫存器讓 ks8 與該位元無關（或恆相反），
+// 則所有 {nT}0 與 {nT}0 ⊕ 0x80 的同位差都相同
+export const oddBitflip = (odd: number): number | null => {
+  const first = filter(odd << 4) ^ filter((odd << 4) | 1);
+  for (let n = 2; n < 16; n += 2) {
+    if ((filter((odd << 4) | n) ^ filter((odd << 4) | n | 1)) !== first) return null;
+  }
+  return first;
+};
+
+// 由觀察到的 f(b) 判斷 bitflip 性質
+const observedBitflip = (f: number[]): number | null => {
+  const first = f[0] ^ f[0x80];
+  for (let b = 1; b < 0x80; b++) {
+    if ((f[b] ^ f[b | 0x80]) !== first) return null;
+  }
+  return first;
+};
+
+// 以 bitsliced 引擎一次檢查 32 個候選狀態：解密每個加密 nonce，同位位元全部吻合的 lane 才保留
+// 同位位元吻合的條件：ks 該位元組的位元和 ⊕ 下一個 ks 位元 = parity ⊕ oddParity8({nT} 該位元組)
+const matchingLanes = (states: Crypto1State[], uid: number, nonces: EncryptedNonce[]): number => {
+  const initial = bitslicedCreateStates(states);
+  let alive = bitslicedLaneMask(states.length);
+  for (const { nTEnc, parity } of nonces) {
+    const state = bitslicedCopy(initial);
+    const input = (uid ^ nTEnc) >>> 0;
+    let byteParity = 0;
+    for (let i = 0; i <= 24 && alive; i++) {
+      const ks = bitslicedBit(state, beBit(input, i), true);
+      if (i > 0 && (i & 7) === 0) {
+        const byte = (i >> 3) - 1;
+        const expected = parity[byte] ^ oddParity8((nTEnc >>> (24 - byte * 8)) & 0xFF);
+        alive &= expected ? byteParity ^ ks : ~(byteParity ^ ks);
+        byteParity = 0;
+      }
+      byteParity ^= ks;
+    }
+    if (!alive) break;
+  }
+  return alive;
+};
+
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const MAX_NONCES = 8000;
+const BRUTEFORCE_NONCES = 16;
+const REPORT_INTERVAL = 1 << 14;
+
+// 執行縮小規模的 hardnested attack，每個階段透過 onProgress 回報實際數據
+export const runHardnestedAttack = async (
+  card: VirtualCard,
+  known: KnownKey,
+  target: NestedTarget,
+  onProgress: (progress: HardnestedProgress) => void
+): Promise<number | null> => {
+  const progress: HardnestedProgress = {
+    phase: 'detect',
+    message: '',
+    prngValid: null,
+    nonces: 0,
+    coverage: 0,
+    firstByteParity: new Array(256).fill(-1),
+    sum: null,
+    bitflip: null,
+    keySpace: [{ label: '完整金鑰空間', size: 2 ** 48 }],
+    checked: 0,
+    key: null,
+  };
+  const report = async (phase: HardnestedPhase, message: string) => {
+    progress.phase = phase;
+    progress.message = message;
+    onProgress({
+      ...progress,
+      firstByteParity: [...progress.firstByteParity],
+      keySpace: [...progress.keySpace],
+    });
+    await nextFrame();
+  };
+
+  // 步驟一：以已知金鑰驗證，檢查明文 nT 是否為弱 PRNG 的輸出
+  resetCard(card);
+  const probe = readerAuthenticate(card, known.block, known.keyType, known.key);
+  if (!probe.success) {
+    await report('done', '已知金鑰驗證失敗');
+    return null;
+  }
+  progress.prngValid = isValidNonce(probe.nT);
+  await report('detect', progress.prngValid ? 'nT 符合弱 PRNG，可改用 nested attack' : 'nT 不在 PRNG 序列上：強化 PRNG');
+
+  // 步驟二：反覆巢狀驗證，收集加密 nonce，直到 256 種第一個位元組都出現
+  const samples: EncryptedNonce[] = [];
+  while (progress.coverage < 256 && progress.nonces < MAX_NONCES) {
+    resetCard(card);
+    readerAuthenticate(card, known.block, known.keyType, known.key);
+    const challenge = nestedAuthChallenge(card, target.block, target.keyType);
+    if (!challenge) return null;
+    if (samples.length < BRUTEFORCE_NONCES) samples.push(challenge);
+
+    const first = challenge.nTEnc >>> 24;
+    if (progress.firstByteParity[first] === -1) progress.coverage++;
+    progress.firstByteParity[first] = challenge.parity[0] ^ oddParity8(first);
+    progress.nonces++;
+    if (progress.nonces % 100 === 0 || progress.coverage === 256) {
+      await report('collect', `已收集 ${progress.nonces} 個加密 nonce，第一個位元組出現 ${progress.coverage}/256 種`);
+    }
+  }
+  if (progress.coverage < 256) {
+    await report('done', '收集的 nonce 不足以計算同位和');
+    return null;
+  }
+
+  // 縮小規模：攻擊者只需要猜每半暫存器最低 HARDNESTED_HIDDEN_BITS 個位元
+  const actual = crypto1Create(sectorKey(card, blockToSector(target.block), target.keyType));
+  const mask = (1 << HARDNESTED_HIDDEN_BITS) - 1;
+  const odds = Array.from({ length: mask + 1 }, (_, i) => ((actual.odd & ~mask) | i) >>> 0);
+  const evens = Array.from({ length: mask + 1 }, (_, i) => ((actual.even & ~mask) | i) >>> 0);
+  progress.keySpace.push({ label: `縮小規模（每半 ${HARDNESTED_HIDDEN_BITS} 位元未知）`, size: odds.length * evens.length });
+
+  // 步驟三：sum property，只保留部分和組合吻合 S1 的奇偶兩半
+  progress.sum = progress.firstByteParity.reduce((sum, f) => sum + f, 0);
+  const oddSums = odds.map(odd => halfSum(odd, 0));
+  const evenSums = evens.map(even => halfSum(even, 1));
+  const evenBySum: number[][] = Array.from({ length: 17 }, () => []);
+  evenSums.forEach((q, i) => evenBySum[q].push(evens[i]));
+  const pairCount = (oddList: number[]) => oddList.reduce((count, i) =>
+    count + evenBySum.reduce((n, list, q) => n + (combineSums(oddSums[i], q) === progress.sum ? list.length : 0), 0), 0);
+  const allOdd = odds.map((_, i) => i);
+  progress.keySpace.push({ label: `同位和 S1 = ${progress.sum}`, size: pairCount(allOdd) });
+  await report('sum', `S1 = ${progress.sum}，剩 ${progress.keySpace[progress.keySpace.length - 1].size.toLocaleString()} 個候選`);
+
+  // 步驟四：first byte bitflip 性質只與奇數位暫存器有關
+  progress.bitflip = observedBitflip(progress.firstByteParity);
+  const oddIndices = allOdd.filter(i => oddBitflip(odds[i]) === progress.bitflip);
+  progress.keySpace.push({
+    label: progress.bitflip === null ? 'bitflip 0x80 不成立' : `bitflip 0x80 恆為 ${progress.bitflip}`,
+    size: pairCount(oddIndices),
+  });
+  await report('bitflip', `bitflip 過濾後剩 ${progress.keySpace[progress.keySpace.length - 1].size.toLocaleString()} 個候選`);
+
+  // 步驟五：剩下的候選每 32 個一批，以收集到的 nonce 同位位元暴力驗證
+  const found: number[] = [];
+  let batch: Crypto1State[] = [];
+  const checkBatch = () => {
+    const matches = matchingLanes(batch, card.uid, samples);
+    batch.forEach((state, lane) => {
+      if ((matches >>> lane) & 1) found.push(crypto1GetLfsr(state));
+    });
+    batch = [];
+  };
+  for (const i of oddIndices) {
+    for (let q = 0; q <= 16; q++) {
+      if (combineSums(oddSums[i], q) !== progress.sum) continue;
+      for (const even of evenBySum[q]) {
+        batch.push({ odd: odds[i], even });
+        if (batch.length === BITSLICE_LANES) checkBatch();
+        if (++progress.checked % REPORT_INTERVAL === 0) {
+          await report('bruteforce', `已檢查 ${progress.checked.toLocaleString()} 個候選`);
+        }
+      }
+    }
+  }
+  if (batch.length > 0) checkBatch();
+  progress.keySpace.push({ label: `${samples.length} 個 nonce 的同位檢查`, size: found.length });
+  await report('bruteforce', `暴力搜尋完成，剩 ${found.length} 把金鑰`);
+
+  for (const key of found) {
+    resetCard(card);
+    if (readerAuthenticate(card, target.block, target.keyType, key).success) {
+      progress.key = key;
+      await report('done', '驗證成功，取得目標金鑰');
+      return key;
+    }
+  }
+  await report('done', '找不到金鑰，請重新收集 nonce');
+  return null;
+};
@@ -0,0 +1,153 @@
+// ISO 14443-A 框架工具：CRC-A、同位位元與 BCC
+
+// CRC-A：初始值 0x6363，反射多項式 0x8408 (x^16 + x^12 + x^5 + 1)，低位元組先傳送
+export const crcA = (data: number[]): [number, number] => {
+  let crc = 0x6363;
+  for (const value of data) {
+    let b = (value ^ (crc & 0xFF)) & 0xFF;
+    b = (b ^ (b << 4)) & 0xFF;
+    crc = ((crc >> 8) ^ (b << 8) ^ (b << 3) ^ (b >> 4)) & 0xFFFF;
+  }
+  return [crc & 0xFF, (crc >> 8) & 0xFF];
+};
+
+// 在命令後附加 CRC-A
+export const appendCrcA = (data: number[]): number[] => [...data, ...crcA(data)];
+
+// 驗證框架末兩個位元組是否為正確的 CRC-A
+export const checkCrcA = (frame: number[]): boolean => {
+  if (frame.length < 3) return false;
+  const [lo, hi] = crcA(frame.slice(0, -2));
+  return frame[frame.length - 2] === lo && frame[frame.length - 1] === hi;
+};
+
+// 每個位元組後附加一個奇同位位元：資料位元中 1 的個數加上同位位元必為奇數
+export const oddParity8 = (byte: number): number => {
+  let x = byte & 0xFF;
+  x ^= x >>> 4;
+  x ^= x >>> 2;
+  x ^= x >>> 1;
+  return (x & 1) ^ 1;
+};
+
+// BCC：UID 各位元組 XOR，防碰撞回應的第五個位元組
+export const computeBcc = (uid: number[]): number => uid.reduce((acc, b) => acc ^ b, 0) & 0xFF;
+
+export const MIFARE_CMD = {
+  REQA: 0x26,
+  WUPA: 0x52,
+  SEL_CL1: 0x93,
+  SEL_CL2: 0x95,
+  SEL_CL3: 0x97,
+  HLTA: 0x50,
+  AUTH_A: 0x60,
+  AUTH_B: 0x61,
+  BACKDOOR_AUTH_A: 0x64,
+  BACKDOOR_AUTH_B: 0x65,
+  READ: 0x30,
+} as const;
+
+// 驗證命令：[0x60|0x61][Block][CRC-A]
+export const buildAuthCommand = (keyType: 'A' | 'B', block: number): number[] =>
+  appendCrcA([keyType === 'A' ? MIFARE_CMD.AUTH_A : MIFARE_CMD.AUTH_B, block & 0xFF]);
+
+export const bytesToHex = (bytes: number[], separator: string = ' '): string =>
+  bytes.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(separator);
+
+// 線上實際傳輸的一個框架
+export interface WireFrame {
+  source: 'reader' | 'card';
+  bytes: number[];
+  parity: number[];    // 每個位元組的同位位元；加密框架為加密後的同位位元
+  bits?: number;       // 短框架的位元數（REQA/WUPA 只有 7 位元、不含同位）
+  encrypted?: boolean;
+  annotation: string;
+}
+
+// 明文標準框架：同位位元由資料計算
+export const plainFrame = (source: WireFrame['source'], bytes: number[], annotation: string): WireFrame => ({
+  source,
+  bytes,
+  parity: bytes.map(oddParity8),
+  annotation
+});
+
+// 短框架：7 位元命令，無同位、無 CRC
+export const shortFrame = (command: number, annotation: string): WireFrame => ({
+  source: 'reader',
+  bytes: [command & 0x7F],
+  parity: [],
+  bits: 7,
+  annotation
+});
+
+// 加密框架中同位位元與密文位元組的奇同位不一致處，Proxmark3 trace list 以 ! 標示
+export const parityMismatch = (frame: WireFrame, index: number): boolean =>
+  frame.bits === undefined && frame.parity[index] !== oddParity8(frame.bytes[index]);
+
+// 以 Proxmark3 `trace list` 的格式輸出資料欄，例如 "26(7)"、"93  70  de!  ad"
+export const formatTraceData = (frame: WireFrame): string => {
+  if (frame.bits !== undefined) {
+    return `${frame.bytes.map(b => b.toString(16).padStart(2, '0')).join('  ')}(${frame.bits})`;
+  }
+  return frame.bytes
+    .map((b, i) => `${b.toString(16).padStart(2, '0')}${parityMismatch(frame, i) ? '!' : ''}`)
+    .join('  ');
+};
+
+// UID 在一個 cascade level 傳不完時，該層以 Cascade Tag 開頭，只帶 3 個 UID 位元組
+export const CASCADE_TAG = 0x88;
+
+// SAK bit 2：UID 尚未完整，讀卡機必須進入下一個 cascade level
+export const SAK_UID_INCOMPLETE = 0x04;
+
+const SELECT_COMMANDS = [MIFARE_CMD.SEL_CL1, MIFARE_CMD.SEL_CL2, MIFARE_CMD.SEL_CL3];
+
+// 4 / 7 / 10-byte UID 分別需要 1 / 2 / 3 個 cascade level，每層傳送 4 個位元組
+export const cascadeUidBytes = (uid: number[]): number[][] => {
+  const levels: number[][] = [];
+  let rest = uid;
+  while (rest.length > 4) {
+    levels.push([CASCADE_TAG, ...rest.slice(0, 3)]);
+    rest = rest.slice(3);
+  }
+  levels.push(rest);
+  return levels;
+};
+
+export interface CascadeLevelFrames {
+  level: number;
+  uidBytes: number[];
+  bcc: number;
+  anticollision: WireFrame;
+  uid: WireFrame;
+  select: WireFrame;
+  sak: WireFrame;
+}
+
+// 完整選卡序列：REQA → ATQA →（每個 cascade level）防碰撞 → SELECT → SAK
+export const buildSelectFrames = (uid: number[], atqa: number, sak: number) => {
+  const levels = cascadeUidBytes(uid);
+  const cascades = levels.map((bytes, index): CascadeLevelFrames => {
+    const command = SELECT_COMMANDS[index];
+    const suffix = index === 0 ? '' : `-${index + 1}`;
+    const last = index === levels.length - 1;
+    const bcc = computeBcc(bytes);
+    return {
+      level: index + 1,
+      uidBytes: bytes,
+      bcc,
+      anticollision: plainFrame('reader', [command, 0x20], `ANTICOLL${suffix}`),
+      uid: plainFrame('card', [...bytes, bcc], last ? 'UID + BCC' : 'CT + UID + BCC'),
+      select: plainFrame('reader', appendCrcA([command, 0x70, ...bytes, bcc]), `SELECT_UID${suffix}`),
+      // 最後一層才回應真正的 SAK
+      sak: plainFrame('card', appendCrcA([last ? sak : SAK_UID_INCOMPLETE]), 'SAK'),
+    };
+  });
+  return {
+    reqa: shortFrame(MIFARE_CMD.REQA, 'REQA'),
+    // ATQA 以低位元組先傳送
+    atqa: plainFrame('card', [atqa & 0xFF, (atqa >> 8) & 0xFF], 'ATQA'),
+    cascades,
+  };
+};
@@ -0,0 +1,126 @@
+import { sectorFirstBlock } from './cardLayout';
+import { keyFromHex } from './crypto1';
+import { KeyType, readerAuthenticate, resetCard, VirtualCard } from './virtualCard';
+
+// 字典金鑰檢查（hf mf chk）：對每個扇區的 Key A / Key B 逐一嘗試字典中的金鑰
+
+export interface KeyDictionary {
+  name: string;
+  keys: number[];
+}
+
+// Proxmark3 預設字典開頭最常見的幾把金鑰
+export const DEFAULT_DICTIONARY: KeyDictionary = {
+  name: 'mfc_default_keys',
+  keys: [
+    'FFFFFFFFFFFF', '000000000000', 'A0A1A2A3A4A5', 'B0B1B2B3B4B5', 'D3F7D3F7D3F7',
+    'AABBCCDDEEFF', '4D3A99C351DD', '1A982C7E459A', '714C5C886E97', '587EE5F9350F',
+    'A0478CC39091', '533CB6C723F6', '8FD0A4F256E9', 'C0C1C2C3C4C5', 'C2C2C2C2C2C2',
+  ].map(keyFromHex),
+};
+
+export interface ParsedDictionary {
+  dictionary: KeyDictionary;
+  invalidLines: number[];     // 無法解析的行號（從 1 起算）
+}
+
+// Proxmark3 的 .dic 與 MIFARE Classic Tool 的 .keys 格式相同：每行一把 12 位十六進位金鑰，# 之後為註解，空行忽略
+export const parseDictionary = (name: string, text: string): ParsedDictionary => {
+  const keys: number[] = [];
+  const seen = new Set<number>();
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    if (!/^[0-9a-fA-F]{12}$/.test(line)) {
+      invalidLines.push(index + 1);
+      return;
+    }
+    const key = keyFromHex(line);
+    if (!seen.has(key)) {
+      seen.add(key);
+      keys.push(key);
+    }
+  });
+
+  return { dictionary: { name, keys }, invalidLines };
+};
+
+export interface FoundKey {
+  key: number;
+  dictionaries: string[];     // 包含這把金鑰的字典
+}
+
+export interface SectorCheckResult {
+  sector: number;
+  keyA: FoundKey | null;
+  keyB: FoundKey | null;
+}
+
+export interface DictionaryStats {
+  name: string;
+  size: number;
+  hits: number;               // 找到的金鑰欄位數（扇區 × Key A/B）
+}
+
+export interface KeyCheckProgress {
+  sector: number;
+  tried: number;              // 已送出的驗證次數
+  sectors: SectorCheckResult[];
+  stats: DictionaryStats[];
+  done: boolean;
+}
+
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// 所有字典合併去重後依序嘗試；找到金鑰後，包含它的每個字典都算一次命中
+export const runKeyCheck = async (
+  card: VirtualCard,
+  dictionaries: KeyDictionary[],
+  onProgress: (progress: KeyCheckProgress) => void
+): Promise<KeyCheckProgress> => {
+  const owners = new Map<number, string[]>();
+  dictionaries.forEach(({ name, keys }) => keys.forEach(key => {
+    owners.set(key, [...(owners.get(key) || []), name]);
+  }));
+  const keys = Array.from(owners.keys());
+
+  const progress: KeyCheckProgress = {
+    sector: 0,
+    tried: 0,
+    sectors: [],
+    stats: dictionaries.map(({ name, keys }) => ({ name, size: keys.length, hits: 0 })),
+    done: false,
+  };
+  const report = async () => {
+    onProgress({ ...progress, sectors: [...progress.sectors], stats: progress.stats.map(stat => ({ ...stat })) });
+    await nextFrame();
+  };
+
+  const checkSlot = (sector: number, keyType: KeyType): FoundKey | null => {
+    for (const key of keys) {
+      resetCard(card);
+      progress.tried++;
+      if (readerAuthenticate(card, sectorFirstBlock(sector), keyType, key).success) {
+        const found = { key, dictionaries: owners.get(key) || [] };
+        progress.stats.forEach(stat => {
+          if (found.dictionaries.includes(stat.name)) stat.hits++;
+        });
+        return found;
+      }
+    }
+    return null;
+  };
+
+  for (let sector = 0; sector < card.sectorKeys.length; sector++) {
+    progress.sector = sector;
+    progress.sectors.push({ sector, keyA: checkSlot(sector, 'A'), keyB: checkSlot(sector, 'B') });
+    await report();
+  }
+
+  resetCard(card);
+  progress.done = true;
+  await report();
+  return progress;
+};
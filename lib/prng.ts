@@ -0,0 +1,60 @@
+// Mifare Classic 卡片 PRNG：16-bit LFSR，多項式 x^16 + x^14 + x^13 + x^11 + 1
+
+// 位元組順序反轉（PRNG 以 little-endian 位元順序運作）
+const swapEndian = (x: number): number =>
+  (((x >>> 24) & 0xFF) | ((x >>> 8) & 0xFF00) | ((x << 8) & 0xFF0000) | ((x << 24) & 0xFF000000)) >>> 0;
+
+// 將 32-bit nonce 往後推進 n 步，suc2(nT) = prngSuccessor(nT, 64)
+export const prngSuccessor = (nonce: number, steps: number): number => {
+  let x = swapEndian(nonce >>> 0);
+  for (let i = 0; i < steps; i++) {
+    x = ((x >>> 1) | (((x >>> 16) ^ (x >>> 18) ^ (x >>> 19) ^ (x >>> 21)) << 31)) >>> 0;
+  }
+  return swapEndian(x);
+};
+
+// PRNG 週期：16-bit LFSR 共 65535 個非零狀態
+export const PRNG_PERIOD = 65535;
+
+// 每個 16-bit 狀態在序列中的位置（首次使用時才建表）
+let distanceTable: Uint16Array | null = null;
+let stateTable: Uint16Array | null = null;
+
+const buildTables = () => {
+  if (distanceTable && stateTable) return;
+  distanceTable = new Uint16Array(65536);
+  stateTable = new Uint16Array(PRNG_PERIOD);
+  let x = 1;
+  for (let i = 0; i < PRNG_PERIOD; i++) {
+    // 表中以 nonce 的位元組順序存放狀態
+    const state = ((x & 0xFF) << 8) | (x >>> 8);
+    distanceTable[state] = i;
+    stateTable[i] = state;
+    x = ((x >>> 1) | (((x ^ (x >>> 2) ^ (x >>> 3) ^ (x >>> 5)) & 1) << 15)) & 0xFFFF;
+  }
+};
+
+// nonce 在 PRNG 序列上的位置（以高 16 位元的狀態計算）
+export const noncePosition = (nonce: number): number => {
+  buildTables();
+  return distanceTable![(nonce >>> 16) & 0xFFFF];
+};
+
+// 由序列位置產生 32-bit nonce：高 16 位元為目前狀態，低 16 位元為 16 步後的狀態
+export const nonceAtPosition = (position: number): number => {
+  buildTables();
+  const pos = ((position % PRNG_PERIOD) + PRNG_PERIOD) % PRNG_PERIOD;
+  return ((stateTable![pos] << 16) | stateTable![(pos + 16) % PRNG_PERIOD]) >>> 0;
+};
+
+// 兩個 nonce 之間的 PRNG 步數
+export const nonceDistance = (from: number, to: number): number =>
+  (PRNG_PERIOD + noncePosition(to) - noncePosition(from)) % PRNG_PERIOD;
+
+// 合法的 PRNG 輸出：低 16 位元必須正好是高 16 位元往後 16 步的狀態
+export const isValidNonce = (nonce: number): boolean => {
+  buildTables();
+  const high = distanceTable![(nonce >>> 16) & 0xFFFF];
+  const low = distanceTable![nonce & 0xFFFF];
+  return (nonce & 0xFFFF) !== 0 && (nonce >>> 16) !== 0 && (PRNG_PERIOD - high + low) % PRNG_PERIOD === 16;
+};
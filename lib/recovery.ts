@@ -0,0 +1,157 @@
+import { beBit, Crypto1State, filter, LF_POLY_EVEN, LF_POLY_ODD, parity32 } from './crypto1';
+
+// 由 keystream 反推 LFSR 狀態（移植自 crapto1 的 lfsr_recovery32）
+// 奇偶兩半各自只影響一半的 keystream 位元，因此可以分開擴展候選表，再以回饋貢獻配對
+// 候選表直接在 Uint32Array 上以索引原地操作，與 C 版的指標寫法一一對應
+
+// 將兩個回饋位元的貢獻記錄在高 8 位元，低 24 位元保留狀態
+const updateContribution = (item: number, mask1: number, mask2: number): number => {
+  let p = item >>> 25;
+  p = (p << 1) | parity32(item & mask1);
+  p = (p << 1) | parity32(item & mask2);
+  return ((p << 24) | (item & 0xFFFFFF)) >>> 0;
+};
+
+// 以一個 keystream 位元擴展 table[head..tail]：每個候選左移一位，保留過濾函數輸出相符的延伸
+// 回傳新的 tail；新增的候選寫在 tail 之後
+const extendTable = (
+  table: Uint32Array, head: number, tail: number,
+  ksBit: number, mask1: number, mask2: number, input: number
+): number => {
+  const contribution = (input << 24) >>> 0;
+  let i = head;
+  let end = tail;
+  table[i] <<= 1;
+  while (i <= end) {
+    const x = table[i];
+    const f0 = filter(x);
+    if (f0 !== filter(x | 1)) {
+      table[i] = updateContribution((x | (f0 ^ ksBit)) >>> 0, mask1, mask2) ^ contribution;
+    } else if (f0 === ksBit) {
+      table[++end] = table[i + 1];
+      table[i + 1] = x | 1;
+      table[i] = updateContribution(x, mask1, mask2) ^ contribution;
+      i++;
+      table[i] = updateContribution(table[i], mask1, mask2) ^ contribution;
+    } else {
+      table[i--] = table[end--];
+    }
+    table[++i] <<= 1;
+  }
+  return end;
+};
+
+// 前 4 輪狀態不足 24 位元，不需要記錄回饋貢獻
+const extendTableSimple = (table: Uint32Array, head: number, tail: number, ksBit: number): number => {
+  let i = head;
+  let end = tail;
+  table[i] <<= 1;
+  while (i <= end) {
+    const x = table[i];
+    const f0 = filter(x);
+    if (f0 !== filter(x | 1)) {
+      table[i] = x | (f0 ^ ksBit);
+    } else if (f0 === ksBit) {
+      table[++end] = table[++i];
+      table[i] = x | 1;
+    } else {
+      table[i--] = table[end--];
+    }
+    table[++i] <<= 1;
+  }
+  return end;
+};
+
+// 在已排序的 table[start..stop] 中找出與 table[stop] 高 8 位元相同的第一個位置
+const binsearch = (table: Uint32Array, start: number, stop: number): number => {
+  const value = (table[stop] & 0xFF000000) >>> 0;
+  while (start !== stop) {
+    const mid = (stop - start) >> 1;
+    if (table[start + mid] > value) stop = start + mid;
+    else start += mid + 1;
+  }
+  return start;
+};
+
+// 每次遞迴擴展 4 個 keystream 位元，奇偶兩表只保留回饋貢獻相同的組合
+const recover = (
+  odd: Uint32Array, oHead: number, oTail: number, oks: number,
+  even: Uint32Array, eHead: number, eTail: number, eks: number,
+  rem: number, results: Crypto1State[], input: number
+) => {
+  if (rem === -1) {
+    for (let e = eHead; e <= eTail; e++) {
+      const evenValue = ((even[e] << 1) ^ parity32(even[e] & LF_POLY_EVEN) ^ ((input & 4) ? 1 : 0)) >>> 0;
+      for (let o = oHead; o <= oTail; o++) {
+        results.push({
+          even: odd[o] & 0xFFFFFF,
+          odd: (evenValue ^ parity32(odd[o] & LF_POLY_ODD)) & 0xFFFFFF
+        });
+      }
+    }
+    return;
+  }
+
+  for (let i = 0; i < 4 && rem-- > 0; i++) {
+    oks >>>= 1;
+    eks >>>= 1;
+    input >>>= 2;
+    oTail = extendTable(odd, oHead, oTail, oks & 1, (LF_POLY_EVEN << 1) | 1, LF_POLY_ODD << 1, 0);
+    if (oHead > oTail) return;
+    eTail = extendTable(even, eHead, eTail, eks & 1, LF_POLY_ODD, (LF_POLY_EVEN << 1) | 1, input & 3);
+    if (eHead > eTail) return;
+  }
+
+  odd.subarray(oHead, oTail + 1).sort();
+  even.subarray(eHead, eTail + 1).sort();
+
+  // 由大到小比對兩表的高 8 位元；相同的一組往下遞迴，遞迴時的擴展會寫在目前使用範圍之後
+  while (oTail >= oHead && eTail >= eHead) {
+    if (((odd[oTail] ^ even[eTail]) >>> 24) === 0) {
+      const o = oTail;
+      const e = eTail;
+      oTail = binsearch(odd, oHead, o);
+      eTail = binsearch(even, eHead, e);
+      recover(odd, oTail, o, oks, even, eTail, e, eks, rem, results, input);
+      oTail--;
+      eTail--;
+    } else if (odd[oTail] > even[eTail]) {
+      oTail = binsearch(odd, oHead, oTail) - 1;
+    } else {
+      eTail = binsearch(even, eHead, eTail) - 1;
+    }
+  }
+};
+
+// 由 32 個 keystream 位元還原產生它們之前的 LFSR 候選狀態；input 為同時移入 LFSR 的資料
+export const lfsrRecovery32 = (ks: number, input: number = 0): Crypto1State[] => {
+  let oks = 0;
+  let eks = 0;
+  for (let i = 31; i >= 0; i -= 2) oks = (oks << 1) | beBit(ks, i);
+  for (let i = 30; i >= 0; i -= 2) eks = (eks << 1) | beBit(ks, i);
+  oks >>>= 0;
+  eks >>>= 0;
+
+  const odd = new Uint32Array(1 << 21);
+  const even = new Uint32Array(1 << 21);
+  let oTail = -1;
+  let eTail = -1;
+
+  // 20 位元即可決定第一個過濾輸出
+  for (let i = 1 << 20; i >= 0; i--) {
+    if (filter(i) === (oks & 1)) odd[++oTail] = i;
+    if (filter(i) === (eks & 1)) even[++eTail] = i;
+  }
+
+  for (let i = 0; i < 4; i++) {
+    oks >>>= 1;
+    eks >>>= 1;
+    oTail = extendTableSimple(odd, 0, oTail, oks & 1);
+    eTail = extendTableSimple(even, 0, eTail, eks & 1);
+  }
+
+  const swapped = (((input >>> 16) & 0xFF) | (input << 16) | (input & 0xFF00)) >>> 0;
+  const results: Crypto1State[] = [];
+  recover(odd, 0, oTail, oks, even, 0, eTail, eks, 11, results, (swapped << 1) >>> 0);
+  return results;
+};
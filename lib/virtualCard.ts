@@ -0,0 +1,196 @@
+import { blockToSector } from './cardLayout';
+import { cardVerifyReader, crypto1AuthenticatedState, crypto1Bit, crypto1Byte, crypto1Create, crypto1Word, Crypto1State, mifareAuthenticate, peekKeystreamBit, wordBytes } from './crypto1';
+import { oddParity8 } from './iso14443a';
+import { nonceAtPosition, PRNG_PERIOD, prngSuccessor } from './prng';
+
+// 模擬的 Mifare Classic 卡片：每個扇區各有 Key A / Key B，nonce 由 16-bit PRNG 產生
+export interface SectorKeys {
+  keyA: number;
+  keyB: number;
+}
+
+export type KeyType = 'A' | 'B';
+
+export interface VirtualCard {
+  uid: number;
+  sectorKeys: SectorKeys[];
+  clock: number;                   // PRNG 目前在序列上的位置
+  nonceInterval: number;           // 兩次產生 nonce 之間 PRNG 前進的步數（由讀卡機時序決定）
+  nonceJitter: number;             // 時序誤差造成的額外步數上限
+  hardened: boolean;               // 強化 PRNG：nonce 不再是 16-bit LFSR 的輸出，無法預測
+  staticNonces: number[] | null;   // 靜態加密 nonce：每個扇區、每種金鑰的巢狀驗證 nT 固定不變
+  backdoorKey: number | null;      // 廠商後門金鑰，對任何扇區都有效
+  session: Crypto1State | null;    // 已驗證時的 Crypto-1 狀態
+  authenticatedSector: number | null;
+}
+
+export interface VirtualCardOptions {
+  hardened?: boolean;
+  staticNonces?: boolean;
+  backdoorKey?: number;
+}
+
+export const createVirtualCard = (uid: number, sectorKeys: SectorKeys[], options: VirtualCardOptions = {}): VirtualCard => ({
+  uid: uid >>> 0,
+  sectorKeys,
+  clock: Math.floor(Math.random() * PRNG_PERIOD),
+  nonceInterval: 320,
+  nonceJitter: 3,
+  hardened: options.hardened || false,
+  staticNonces: options.staticNonces
+    ? Array.from({ length: sectorKeys.length * 2 }, () => Math.floor(Math.random() * 0x100000000) >>> 0)
+    : null,
+  backdoorKey: options.backdoorKey ?? null,
+  session: null,
+  authenticatedSector: null,
+});
+
+export { blockToSector };
+
+export const sectorKey = (card: VirtualCard, sector: number, keyType: KeyType): number =>
+  keyType === 'A' ? card.sectorKeys[sector].keyA : card.sectorKeys[sector].keyB;
+
+// 卡片產生下一個 nonce：PRNG 持續運轉，讀卡機的時序決定前進了多少步
+export const generateNonce = (card: VirtualCard): number => {
+  card.clock = (card.clock + card.nonceInterval + Math.floor(Math.random() * (card.nonceJitter + 1))) % PRNG_PERIOD;
+  if (card.hardened) return Math.floor(Math.random() * 0x100000000) >>> 0;
+  return nonceAtPosition(card.clock);
+};
+
+// 斷電重置：卡片回到未驗證狀態
+export const resetCard = (card: VirtualCard) => {
+  card.session = null;
+  card.authenticatedSector = null;
+};
+
+export interface ReaderAuthResult {
+  nT: number;
+  nREnc: number;
+  aREnc: number;
+  aTEnc: number;      // 卡片的回應，只有驗證成功時才會送出
+  success: boolean;
+}
+
+// 以卡片端保存的 cardKey 驗證讀卡機使用的 key
+const authenticate = (card: VirtualCard, sector: number, cardKey: number, key: number, nR: number): ReaderAuthResult => {
+  const nT = generateNonce(card);
+  const ex = mifareAuthenticate({ uid: card.uid, key, nT, nR });
+  const verification = cardVerifyReader(card.uid, cardKey, nT, ex.nREnc, ex.aREnc);
+
+  if (verification.valid) {
+    card.session = crypto1AuthenticatedState({ uid: card.uid, key, nT, nR: nR >>> 0 });
+    card.authenticatedSector = sector;
+  } else {
+    resetCard(card);
+  }
+  return { nT, nREnc: ex.nREnc, aREnc: ex.aREnc, aTEnc: ex.aTEnc, success: verification.valid };
+};
+
+// 讀卡機以指定金鑰對卡片做一次完整的明文 nT 驗證
+export const readerAuthenticate = (
+  card: VirtualCard,
+  block: number,
+  keyType: KeyType,
+  key: number,
+  nR: number = Math.floor(Math.random() * 0x100000000)
+): ReaderAuthResult => {
+  const sector = blockToSector(block);
+  return authenticate(card, sector, sectorKey(card, sector, keyType), key, nR);
+};
+
+// 後門驗證（0x64 / 0x65）：卡片以後門金鑰取代扇區金鑰；沒有後門的卡片不回應
+export const backdoorAuthenticate = (
+  card: VirtualCard,
+  block: number,
+  key: number,
+  nR: number = Math.floor(Math.random() * 0x100000000)
+): ReaderAuthResult | null => {
+  if (card.backdoorKey === null) return null;
+  return authenticate(card, blockToSector(block), card.backdoorKey, key, nR);
+};
+
+export interface NestedChallenge {
+  nTEnc: number;
+  parity: number[];   // 4 個加密同位位元
+}
+
+// 巢狀驗證的 nT：靜態加密 nonce 的卡片每個扇區、每種金鑰固定使用同一個值
+const nestedNonce = (card: VirtualCard, block: number, keyType: KeyType): number =>
+  card.staticNonces
+    ? card.staticNonces[blockToSector(block) * 2 + (keyType === 'A' ? 0 : 1)]
+    : generateNonce(card);
+
+// 卡片以 cardKey 重新初始化 Crypto-1，並加密傳送 nT
+const encryptNestedNonce = (card: VirtualCard, cardKey: number, nT: number): NestedChallenge => {
+  const state = crypto1Create(cardKey);
+  const feed = wordBytes((card.uid ^ nT) >>> 0);
+
+  // UID ⊕ nT 逐位元組移入 LFSR，產生的 keystream 用來加密 nT；
+  // 每個位元組的同位位元再與下一個 keystream 位元 XOR（最後一個用到 nR 階段的第一個位元）
+  let ks = 0;
+  const parity = wordBytes(nT).map((byte, i) => {
+    ks |= crypto1Byte(state, feed[i], false) << (24 - i * 8);
+    return oddParity8(byte) ^ peekKeystreamBit(state);
+  });
+
+  card.session = state;
+  return { nTEnc: (nT ^ ks) >>> 0, parity };
+};
+
+// 已驗證狀態下對另一個區塊發出驗證
+export const nestedAuthChallenge = (card: VirtualCard, block: number, keyType: KeyType): NestedChallenge | null => {
+  if (!card.session) return null;
+  return encryptNestedNonce(card, sectorKey(card, blockToSector(block), keyType), nestedNonce(card, block, keyType));
+};
+
+// 已驗證狀態下以後門指令發出巢狀驗證：nT 與同一扇區、同一種金鑰的一般巢狀驗證相同，但以後門金鑰加密
+export const nestedBackdoorChallenge = (card: VirtualCard, block: number, keyType: KeyType): NestedChallenge | null => {
+  if (!card.session || card.backdoorKey === null) return null;
+  return encryptNestedNonce(card, card.backdoorKey, nestedNonce(card, block, keyType));
+};
+
+// Darkside：讀卡機送出的 {nR}{aR} 連同 8 個同位位元
+export interface DarksideResponse {
+  nT: number;
+  nack: number | null;   // 同位位元全對但 aR 錯誤時，卡片回應加密的 4 位元 NACK
+}
+
+// 斷電重開後立即驗證：PRNG 從固定位置開始，nT 只受時序誤差影響
+export const darksideAuth = (
+  card: VirtualCard,
+  block: number,
+  keyType: KeyType,
+  nREnc: number,
+  aREnc: number,
+  parity: number[]
+): DarksideResponse => {
+  resetCard(card);
+  card.clock = 0;
+  const nT = generateNonce(card);
+  const state = crypto1Create(sectorKey(card, blockToSector(block), keyType));
+  crypto1Word(state, (card.uid ^ nT) >>> 0, false);
+
+  // 卡片逐位元組解密，並在檢查 aR 之前先檢查同位位元；任一位元錯誤就不回應
+  const encrypted = [...wordBytes(nREnc), ...wordBytes(aREnc)];
+  let aR = 0;
+  for (let i = 0; i < 8; i++) {
+    const ks = i < 4
+      ? crypto1Byte(state, encrypted[i], true)
+      : crypto1Byte(state, 0, false);
+    const plain = (encrypted[i] ^ ks) & 0xFF;
+    if (i >= 4) aR = (aR << 8) | plain;
+    if (parity[i] !== (oddParity8(plain) ^ peekKeystreamBit(state))) {
+      return { nT, nack: null };
+    }
+  }
+
+  // 同位全對：aR 正確則完成驗證，否則以 keystream 加密 NACK (0x5) 回應
+  if ((aR >>> 0) === prngSuccessor(nT, 64)) {
+    return { nT, nack: null };
+  }
+  let nack = 0;
+  for (let i = 0; i < 4; i++) {
+    nack |= (crypto1Bit(state, 0, false) ^ ((0x5 >>> i) & 1)) << i;
+  }
+  return { nT, nack };
+};